@@ -0,0 +1,63 @@
+import React, { useEffect } from 'react';
+import { ToastAction } from '@/components/ui/toast';
+import { useToast } from '@/hooks/use-toast';
+
+// Registers the service worker built into dist/sw.js and offers a reload when a newer build has been downloaded.
+// The new version only takes over once the user agrees, so nobody loses an entry they are halfway through.
+export const AppUpdatePrompt = () => {
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+    let reloading = false;
+    const handleControllerChange = () => {
+      if (reloading) return;
+      reloading = true;
+      window.location.reload();
+    };
+
+    const promptForUpdate = (worker: ServiceWorker) => {
+      toast({
+        title: "Update available",
+        description: "A new version of the app is ready.",
+        duration: Infinity,
+        action: (
+          <ToastAction altText="Reload to update" onClick={() => worker.postMessage({ type: 'SKIP_WAITING' })}>
+            Reload
+          </ToastAction>
+        ),
+      });
+    };
+
+    navigator.serviceWorker.addEventListener('controllerchange', handleControllerChange);
+
+    navigator.serviceWorker
+      .register('/sw.js')
+      .then(registration => {
+        // A first install has no controller yet; there is nothing to update from
+        if (registration.waiting && navigator.serviceWorker.controller) {
+          promptForUpdate(registration.waiting);
+        }
+
+        registration.addEventListener('updatefound', () => {
+          const installing = registration.installing;
+          if (!installing) return;
+          installing.addEventListener('statechange', () => {
+            if (installing.state === 'installed' && navigator.serviceWorker.controller) {
+              promptForUpdate(installing);
+            }
+          });
+        });
+      })
+      .catch(error => {
+        console.error('Error registering service worker:', error);
+      });
+
+    return () => {
+      navigator.serviceWorker.removeEventListener('controllerchange', handleControllerChange);
+    };
+  }, [toast]);
+
+  return null;
+};
@@ -0,0 +1,232 @@
+import React, { useState, useEffect } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { format, subDays } from 'date-fns';
+import { toast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  AuditLogEntry,
+  AuditAction,
+  AuditedTable,
+  AUDITED_TABLE_LABELS,
+  AUDIT_ACTION_LABELS,
+  describeAuditChanges
+} from '@/utils/auditLog';
+
+interface AuditLogProps {
+  preSelectedCustomerId?: string;
+}
+
+const PAGE_SIZE = 100;
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+  INSERT: 'bg-green-100 text-green-800',
+  UPDATE: 'bg-blue-100 text-blue-800',
+  DELETE: 'bg-red-100 text-red-800',
+};
+
+const selectClassName = "w-full rounded-md border border-gray-200 px-3 py-2 shadow-sm focus:border-blue-500 focus:ring-blue-500 disabled:cursor-not-allowed";
+
+// Who changed which deliveries, groceries, payments, milk types, customers and bills, newest first
+export const AuditLog = ({ preSelectedCustomerId }: AuditLogProps) => {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [customers, setCustomers] = useState<{ id: string; name: string }[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [customerId, setCustomerId] = useState(preSelectedCustomerId || '');
+  const [tableName, setTableName] = useState('');
+  const [fromDate, setFromDate] = useState(format(subDays(new Date(), 30), 'yyyy-MM-dd'));
+  const [toDate, setToDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    loadNames();
+  }, []);
+
+  useEffect(() => {
+    if (preSelectedCustomerId) {
+      setCustomerId(preSelectedCustomerId);
+    }
+  }, [preSelectedCustomerId]);
+
+  useEffect(() => {
+    loadEntries(0);
+  }, [customerId, tableName]);
+
+  // Customer, milk type and staff names, so ids in the log read as names
+  const loadNames = async () => {
+    try {
+      const [customersResult, milkTypesResult, profilesResult] = await Promise.all([
+        supabase.from('customers').select('id, name').order('name'),
+        supabase.from('milk_types').select('id, name'),
+        supabase.from('profiles').select('id, full_name, email')
+      ]);
+
+      if (customersResult.error) throw customersResult.error;
+      if (milkTypesResult.error) throw milkTypesResult.error;
+      if (profilesResult.error) throw profilesResult.error;
+
+      setCustomers(customersResult.data || []);
+      setNames(Object.fromEntries([
+        ...(customersResult.data || []).map(c => [c.id, c.name]),
+        ...(milkTypesResult.data || []).map(m => [m.id, m.name]),
+        ...(profilesResult.data || []).map(p => [p.id, p.full_name || p.email || ''])
+      ]));
+    } catch (error) {
+      console.error('Error loading names for audit log:', error);
+    }
+  };
+
+  const loadEntries = async (offset: number) => {
+    if (!fromDate || !toDate) return;
+
+    try {
+      setIsLoading(true);
+      // Dates are picked in local time; the log is stored in UTC
+      let query = supabase
+        .from('audit_log')
+        .select('*')
+        .gte('changed_at', new Date(`${fromDate}T00:00:00`).toISOString())
+        .lte('changed_at', new Date(`${toDate}T23:59:59.999`).toISOString())
+        .order('changed_at', { ascending: false })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (customerId) {
+        query = query.eq('customer_id', customerId);
+      }
+      if (tableName) {
+        query = query.eq('table_name', tableName);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      setEntries(prev => offset === 0 ? (data || []) : [...prev, ...(data || [])]);
+      setHasMore((data || []).length === PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading audit log:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load audit log",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Audit Log</h2>
+
+      <Card className="p-4">
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
+          <div>
+            <Label htmlFor="auditCustomer">Customer</Label>
+            <select
+              id="auditCustomer"
+              value={customerId}
+              onChange={(e) => setCustomerId(e.target.value)}
+              className={selectClassName}
+              disabled={isLoading}
+            >
+              <option value="">All customers</option>
+              {customers.map(c => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <Label htmlFor="auditTable">Records</Label>
+            <select
+              id="auditTable"
+              value={tableName}
+              onChange={(e) => setTableName(e.target.value)}
+              className={selectClassName}
+              disabled={isLoading}
+            >
+              <option value="">Everything</option>
+              {(Object.keys(AUDITED_TABLE_LABELS) as AuditedTable[]).map(table => (
+                <option key={table} value={table}>{AUDITED_TABLE_LABELS[table]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <Label htmlFor="auditFrom">From</Label>
+            <Input
+              id="auditFrom"
+              type="date"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              disabled={isLoading}
+            />
+          </div>
+          <div>
+            <Label htmlFor="auditTo">To</Label>
+            <Input
+              id="auditTo"
+              type="date"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+              disabled={isLoading}
+            />
+          </div>
+        </div>
+        <div className="flex justify-end mt-3">
+          <Button onClick={() => loadEntries(0)} disabled={isLoading || !fromDate || !toDate}>
+            {isLoading ? 'Loading...' : 'Show Changes'}
+          </Button>
+        </div>
+      </Card>
+
+      <Card className="overflow-hidden">
+        {entries.length === 0 ? (
+          <p className="text-center py-8 text-gray-500">
+            {isLoading ? 'Loading...' : 'No changes match these filters'}
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {entries.map(entry => {
+              const action = entry.action as AuditAction;
+              const changes = describeAuditChanges(entry, names);
+              return (
+                <li key={entry.id} className="p-4">
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${ACTION_STYLES[action] || 'bg-gray-100 text-gray-800'}`}>
+                      {AUDIT_ACTION_LABELS[action] || entry.action}
+                    </span>
+                    <span className="font-medium text-gray-900">
+                      {AUDITED_TABLE_LABELS[entry.table_name as AuditedTable] || entry.table_name}
+                    </span>
+                    {entry.customer_id && (
+                      <span className="text-gray-700">· {names[entry.customer_id] || 'Deleted customer'}</span>
+                    )}
+                    <span className="ml-auto text-xs text-gray-500">
+                      {format(new Date(entry.changed_at), 'dd/MM/yyyy HH:mm:ss')} by {(entry.changed_by && names[entry.changed_by]) || 'system'}
+                    </span>
+                  </div>
+                  {changes.length > 0 && (
+                    <ul className="mt-2 space-y-0.5 text-xs text-gray-600 font-mono break-all">
+                      {changes.map(change => (
+                        <li key={change}>{change}</li>
+                      ))}
+                    </ul>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        {hasMore && (
+          <div className="p-4 border-t text-center">
+            <Button variant="outline" onClick={() => loadEntries(entries.length)} disabled={isLoading}>
+              {isLoading ? 'Loading...' : 'Load More'}
+            </Button>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
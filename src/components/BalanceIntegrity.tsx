@@ -0,0 +1,273 @@
+import React, { useState, useEffect } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { RefreshCw, Wrench, CheckCircle, AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+
+interface BalanceCheck {
+  customer_id: string;
+  customer_name: string;
+  recorded_balance: number | null;
+  computed_balance: number;
+  difference: number;
+}
+
+interface BalanceRebuild {
+  id: string;
+  customer_name: string;
+  previous_amount: number | null;
+  rebuilt_amount: number;
+  reason: string | null;
+  rebuilt_by: string | null;
+  rebuilt_at: string;
+}
+
+const HISTORY_LIMIT = 25;
+
+// Stored balances off by less than a paisa are rounding, not drift
+const BALANCE_TOLERANCE = 0.005;
+
+const isMismatched = (check: BalanceCheck) => Math.abs(check.difference) >= BALANCE_TOLERANCE;
+
+const formatAmount = (amount: number | null) => (amount === null ? '-' : `₹${Number(amount).toFixed(2)}`);
+
+// Compares the balances the triggers keep in customer_balances with the live sums of deliveries and payments,
+// and rebuilds the stored ones that have drifted. Every rebuild is kept in balance_rebuilds.
+export const BalanceIntegrity = () => {
+  const [checks, setChecks] = useState<BalanceCheck[]>([]);
+  const [history, setHistory] = useState<BalanceRebuild[]>([]);
+  const [staffNames, setStaffNames] = useState<Record<string, string>>({});
+  const [showAll, setShowAll] = useState(false);
+  const [reason, setReason] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [lastCheckedAt, setLastCheckedAt] = useState<Date | null>(null);
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const loadHistory = async () => {
+    const { data, error } = await supabase
+      .from('balance_rebuilds')
+      .select('id, customer_name, previous_amount, rebuilt_amount, reason, rebuilt_by, rebuilt_at')
+      .order('rebuilt_at', { ascending: false })
+      .limit(HISTORY_LIMIT);
+
+    if (error) throw error;
+    setHistory(data || []);
+
+    const staffIds = Array.from(new Set((data || []).map(row => row.rebuilt_by).filter((id): id is string => !!id)));
+    if (staffIds.length > 0) {
+      const { data: profiles, error: profilesError } = await supabase
+        .from('profiles')
+        .select('id, full_name, email')
+        .in('id', staffIds);
+
+      if (profilesError) throw profilesError;
+      setStaffNames(Object.fromEntries((profiles || []).map(p => [p.id, p.full_name || p.email || ''])));
+    }
+  };
+
+  const refresh = async () => {
+    try {
+      setIsLoading(true);
+      const { data, error } = await supabase.rpc('check_customer_balances');
+
+      if (error) throw error;
+      setChecks(data || []);
+      setLastCheckedAt(new Date());
+      await loadHistory();
+    } catch (error) {
+      console.error('Error checking balances:', error);
+      toast({
+        title: "Error",
+        description: "Failed to check balances",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRebuild = async (customerIds: string[]) => {
+    const target = customerIds.length === 1
+      ? checks.find(check => check.customer_id === customerIds[0])?.customer_name
+      : `${customerIds.length} customers`;
+    if (!confirm(`Rebuild the stored balance for ${target} from their deliveries and payments?`)) {
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      const { data, error } = await supabase.rpc('rebuild_customer_balances', {
+        _customer_ids: customerIds,
+        _reason: reason.trim() || undefined
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: data === 1 ? '1 balance rebuilt' : `${data || 0} balances rebuilt`
+      });
+      setReason('');
+    } catch (error) {
+      console.error('Error rebuilding balances:', error);
+      toast({
+        title: "Error",
+        description: "Failed to rebuild balances",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+    await refresh();
+  };
+
+  const mismatched = checks.filter(isMismatched);
+  const visibleChecks = showAll ? checks : mismatched;
+  const totalDrift = mismatched.reduce((sum, check) => sum + Number(check.difference), 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-2">
+        <div>
+          <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Balance Check</h2>
+          {lastCheckedAt && (
+            <p className="text-sm text-gray-500">Checked at {format(lastCheckedAt, 'dd/MM/yyyy HH:mm')}</p>
+          )}
+        </div>
+        <Button variant="outline" onClick={refresh} disabled={isLoading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+          Check Again
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 sm:gap-4 text-center">
+        <div className="bg-gray-50 p-3 rounded">
+          <p className="text-xs text-gray-600">Customers Checked</p>
+          <p className="text-lg font-bold text-gray-900">{checks.length}</p>
+        </div>
+        <div className={`p-3 rounded ${mismatched.length > 0 ? 'bg-red-50' : 'bg-green-50'}`}>
+          <p className="text-xs text-gray-600">Out of Step</p>
+          <p className={`text-lg font-bold ${mismatched.length > 0 ? 'text-red-600' : 'text-green-600'}`}>{mismatched.length}</p>
+        </div>
+        <div className="bg-yellow-50 p-3 rounded">
+          <p className="text-xs text-gray-600">Stored minus Live</p>
+          <p className="text-lg font-bold text-orange-600">₹{totalDrift.toFixed(2)}</p>
+        </div>
+      </div>
+
+      <Card className="p-4 space-y-3">
+        {mismatched.length === 0 ? (
+          <div className="flex items-center text-sm text-green-800">
+            <CheckCircle className="h-4 w-4 mr-2" />
+            {checks.length === 0 && isLoading ? 'Checking...' : 'Every stored balance matches its deliveries and payments'}
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center text-sm text-red-800">
+              <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />
+              {mismatched.length} stored {mismatched.length === 1 ? 'balance differs' : 'balances differ'} from the live total
+            </div>
+            <div className="flex flex-col sm:flex-row sm:items-end gap-2">
+              <div className="flex-1">
+                <Label htmlFor="rebuildReason">Reason (kept with the rebuild)</Label>
+                <Input
+                  id="rebuildReason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="e.g. payment edited after entry"
+                  disabled={isLoading}
+                />
+              </div>
+              <Button onClick={() => handleRebuild(mismatched.map(check => check.customer_id))} disabled={isLoading}>
+                <Wrench className="h-4 w-4 mr-2" />
+                Rebuild All ({mismatched.length})
+              </Button>
+            </div>
+          </>
+        )}
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} />
+          Show customers whose balances match
+        </label>
+      </Card>
+
+      {visibleChecks.length > 0 && (
+        <Card className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Customer</TableHead>
+                <TableHead className="text-right">Stored</TableHead>
+                <TableHead className="text-right">Live</TableHead>
+                <TableHead className="text-right">Difference</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleChecks.map(check => {
+                const outOfStep = isMismatched(check);
+                return (
+                  <TableRow key={check.customer_id} className={outOfStep ? 'bg-red-50' : ''}>
+                    <TableCell className="font-medium">{check.customer_name}</TableCell>
+                    <TableCell className="text-right">{check.recorded_balance === null ? 'Not recorded' : formatAmount(check.recorded_balance)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(check.computed_balance)}</TableCell>
+                    <TableCell className={`text-right ${outOfStep ? 'text-red-700 font-medium' : ''}`}>{formatAmount(check.difference)}</TableCell>
+                    <TableCell className="text-right">
+                      {outOfStep && (
+                        <Button size="sm" variant="outline" onClick={() => handleRebuild([check.customer_id])} disabled={isLoading}>
+                          Rebuild
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+
+      <Card className="p-4">
+        <h3 className="text-lg font-semibold text-gray-900 mb-2">Rebuild History</h3>
+        {history.length === 0 ? (
+          <p className="text-sm text-gray-500">No balances have been rebuilt</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead className="text-right">Was</TableHead>
+                  <TableHead className="text-right">Now</TableHead>
+                  <TableHead>By</TableHead>
+                  <TableHead>Reason</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {history.map(row => (
+                  <TableRow key={row.id}>
+                    <TableCell className="whitespace-nowrap">{format(new Date(row.rebuilt_at), 'dd/MM/yyyy HH:mm')}</TableCell>
+                    <TableCell>{row.customer_name}</TableCell>
+                    <TableCell className="text-right">{formatAmount(row.previous_amount)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(row.rebuilt_amount)}</TableCell>
+                    <TableCell>{(row.rebuilt_by && staffNames[row.rebuilt_by]) || '-'}</TableCell>
+                    <TableCell className="text-gray-600">{row.reason || '-'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
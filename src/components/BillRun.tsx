@@ -0,0 +1,274 @@
+import React, { useState, useEffect } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Play, RotateCcw, ExternalLink } from 'lucide-react';
+import { format, subMonths } from 'date-fns';
+import { toast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { BillCustomer } from '@/utils/pdfUtils';
+import { publishBillPdf, saveMonthlyBill } from '@/utils/monthlyBill';
+
+type BillRunStatus = 'pending' | 'running' | 'draft' | 'issued' | 'already_billed' | 'failed';
+
+interface BillRunItem {
+  customer: BillCustomer;
+  status: BillRunStatus;
+  // The customer's bill for the month, when one is already saved
+  billId?: string;
+  billStatus?: string;
+  billNumber?: string | null;
+  pdfUrl?: string | null;
+  error?: string;
+}
+
+const STATUS_LABELS: Record<BillRunStatus, string> = {
+  pending: 'Waiting',
+  running: 'Generating...',
+  draft: 'Draft saved',
+  issued: 'Issued',
+  already_billed: 'Already billed',
+  failed: 'Failed',
+};
+
+const STATUS_STYLES: Record<BillRunStatus, string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  running: 'bg-blue-100 text-blue-800',
+  draft: 'bg-amber-100 text-amber-800',
+  issued: 'bg-green-100 text-green-800',
+  already_billed: 'bg-gray-100 text-gray-700',
+  failed: 'bg-red-100 text-red-800',
+};
+
+// Postgres unique_violation: the customer got a bill for this month since the list was loaded
+const UNIQUE_VIOLATION = '23505';
+
+// Generates, uploads and records the month's bill for every customer who had deliveries or payments in it, or
+// saves them as drafts to check first. Customers already billed for the month are left alone, so a run can be
+// repeated to pick up failures; drafts are refreshed and issued, and issued bills missing a PDF get one.
+export const BillRun = () => {
+  const [month, setMonth] = useState(format(subMonths(new Date(), 1), 'yyyy-MM'));
+  const [items, setItems] = useState<BillRunItem[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [asDrafts, setAsDrafts] = useState(false);
+
+  useEffect(() => {
+    loadCustomers();
+  }, [month]);
+
+  const monthDate = new Date(`${month}-01T00:00:00`);
+
+  const loadCustomers = async () => {
+    if (!month) return;
+
+    try {
+      setIsLoading(true);
+      const monthStart = format(monthDate, 'yyyy-MM-dd');
+      const monthEnd = format(new Date(monthDate.getFullYear(), monthDate.getMonth() + 1, 0), 'yyyy-MM-dd');
+
+      const [totalsResult, customersResult, billsResult] = await Promise.all([
+        supabase.rpc('get_customer_monthly_totals', { _month_start: monthStart, _month_end: monthEnd }),
+        supabase.from('customers').select('id, name, address, phone_number'),
+        supabase.from('bills').select('id, customer_id, bill_number, status, pdf_url').eq('period_start', monthStart).neq('status', 'void')
+      ]);
+
+      if (totalsResult.error) throw totalsResult.error;
+      if (customersResult.error) throw customersResult.error;
+      if (billsResult.error) throw billsResult.error;
+
+      const customersById = new Map((customersResult.data || []).map(c => [c.id, c]));
+      const billsByCustomer = new Map((billsResult.data || []).map(b => [b.customer_id, b]));
+
+      setItems((totalsResult.data || [])
+        .filter(totals => Number(totals.delivery_amount) !== 0 || Number(totals.payment_amount) !== 0)
+        .map(totals => {
+          const customer = customersById.get(totals.customer_id);
+          const bill = billsByCustomer.get(totals.customer_id);
+          let status: BillRunStatus = 'pending';
+          if (bill?.status === 'draft') {
+            status = 'draft';
+          } else if (bill?.pdf_url) {
+            status = 'already_billed';
+          }
+          return {
+            customer: {
+              id: totals.customer_id,
+              name: totals.customer_name,
+              address: customer?.address || '',
+              phone_number: customer?.phone_number || undefined
+            },
+            status,
+            billId: bill?.id,
+            billStatus: bill?.status,
+            billNumber: bill?.bill_number,
+            pdfUrl: bill?.pdf_url
+          };
+        }));
+    } catch (error) {
+      console.error('Error loading customers for bill run:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load customers for this month",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateItem = (customerId: string, changes: Partial<BillRunItem>) => {
+    setItems(prev => prev.map(item => (item.customer.id === customerId ? { ...item, ...changes } : item)));
+  };
+
+  // One customer at a time, so a slow connection shows steady progress and a failure only affects that bill
+  const runBills = async (toRun: BillRunItem[]) => {
+    if (toRun.length === 0) return;
+
+    setIsRunning(true);
+    let issued = 0;
+    let failed = 0;
+    for (const item of toRun) {
+      updateItem(item.customer.id, { status: 'running', error: undefined });
+      try {
+        let billId = item.billId;
+        let billStatus = item.billStatus;
+        if (!billId || billStatus === 'draft') {
+          // Kept on the item straight away, so retrying a failed upload reuses this bill and its number
+          const bill = await saveMonthlyBill(item.customer, monthDate, { billId, status: asDrafts ? 'draft' : 'issued' });
+          billId = bill.id;
+          billStatus = bill.status;
+          updateItem(item.customer.id, { billId, billStatus, billNumber: bill.bill_number });
+        }
+        if (billStatus === 'draft') {
+          updateItem(item.customer.id, { status: 'draft' });
+        } else {
+          updateItem(item.customer.id, { status: 'issued', pdfUrl: await publishBillPdf(billId) });
+        }
+        issued++;
+      } catch (error) {
+        console.error(`Error issuing bill for ${item.customer.name}:`, error);
+        if ((error as { code?: string })?.code === UNIQUE_VIOLATION) {
+          updateItem(item.customer.id, { status: 'already_billed' });
+        } else {
+          updateItem(item.customer.id, {
+            status: 'failed',
+            error: (error as { message?: string })?.message || 'Could not generate the bill'
+          });
+          failed++;
+        }
+      }
+    }
+    setIsRunning(false);
+
+    toast({
+      title: failed > 0 ? "Bill run finished with errors" : "Bill run finished",
+      description: `${issued} ${issued === 1 ? 'bill' : 'bills'} ${asDrafts ? 'saved as drafts' : 'issued'}${failed > 0 ? `, ${failed} failed` : ''}`,
+      variant: failed > 0 ? "destructive" : undefined
+    });
+  };
+
+  const pendingItems = items.filter(item => item.status === 'pending' || (item.status === 'draft' && !asDrafts));
+  const failedItems = items.filter(item => item.status === 'failed');
+  const finishedCount = items.filter(item => item.status === 'issued' || item.status === 'already_billed').length;
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Bill Run</h2>
+
+      <Card className="p-4 space-y-3">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+          <div>
+            <Label htmlFor="billRunMonth">Month</Label>
+            <Input
+              id="billRunMonth"
+              type="month"
+              value={month}
+              onChange={(e) => setMonth(e.target.value)}
+              disabled={isLoading || isRunning}
+            />
+          </div>
+          <Button onClick={() => runBills(pendingItems)} disabled={isLoading || isRunning || pendingItems.length === 0}>
+            <Play className="h-4 w-4 mr-2" />
+            {isRunning
+              ? 'Generating...'
+              : `${asDrafts ? 'Save' : 'Issue'} ${pendingItems.length} ${pendingItems.length === 1 ? 'Bill' : 'Bills'}${asDrafts ? ' as Drafts' : ''}`}
+          </Button>
+          {failedItems.length > 0 && (
+            <Button variant="outline" onClick={() => runBills(failedItems)} disabled={isRunning}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Retry Failed ({failedItems.length})
+            </Button>
+          )}
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input type="checkbox" checked={asDrafts} onChange={(e) => setAsDrafts(e.target.checked)} disabled={isRunning} />
+          Save as drafts to check before issuing
+        </label>
+        {items.length > 0 && (
+          <div className="space-y-1">
+            <Progress value={(finishedCount / items.length) * 100} />
+            <p className="text-sm text-gray-600">
+              {finishedCount} of {items.length} customers billed for {format(monthDate, 'MMMM yyyy')}
+              {failedItems.length > 0 && <span className="text-red-600"> · {failedItems.length} failed</span>}
+            </p>
+          </div>
+        )}
+      </Card>
+
+      <Card className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Customer</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Bill No.</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {items.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center py-6 text-gray-500">
+                  {isLoading ? 'Loading...' : 'No customer had deliveries or payments this month'}
+                </TableCell>
+              </TableRow>
+            ) : items.map(item => (
+              <TableRow key={item.customer.id}>
+                <TableCell className="font-medium">{item.customer.name}</TableCell>
+                <TableCell>
+                  <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_STYLES[item.status]}`}>
+                    {STATUS_LABELS[item.status]}
+                  </span>
+                  {item.error && <p className="mt-1 text-xs text-red-600">{item.error}</p>}
+                </TableCell>
+                <TableCell>{item.billNumber || '-'}</TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  {item.pdfUrl && (
+                    <a
+                      href={item.pdfUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center text-sm text-blue-600 hover:text-blue-900 mr-2"
+                    >
+                      <ExternalLink className="h-4 w-4 mr-1" />
+                      PDF
+                    </a>
+                  )}
+                  {item.status === 'failed' && (
+                    <Button size="sm" variant="outline" onClick={() => runBills([item])} disabled={isRunning}>
+                      Retry
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,420 @@
+import React, { useState, useEffect } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ExternalLink } from 'lucide-react';
+import { format, subMonths } from 'date-fns';
+import { toast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/use-auth';
+import { hasPermission } from '@/utils/permissions';
+import { BillCustomer } from '@/utils/pdfUtils';
+import {
+  BILL_STATUS_LABELS,
+  BillFigures,
+  BillStatus,
+  prepareBill,
+  publishBillPdf,
+  reissueBill,
+  saveMonthlyBill
+} from '@/utils/monthlyBill';
+
+interface Bill {
+  id: string;
+  bill_number: string | null;
+  customer_id: string;
+  period_start: string;
+  milk_liters: number;
+  milk_amount: number;
+  grocery_amount: number;
+  previous_balance: number;
+  payments_received: number;
+  amount_due: number;
+  pdf_url: string | null;
+  status: string;
+  version: number;
+  supersedes_bill_id: string | null;
+  issued_at: string | null;
+  void_reason: string | null;
+  customers: { name: string; address: string | null; phone_number: string | null } | null;
+}
+
+const STATUS_STYLES: Record<BillStatus, string> = {
+  draft: 'bg-amber-100 text-amber-800',
+  issued: 'bg-blue-100 text-blue-800',
+  paid: 'bg-green-100 text-green-800',
+  void: 'bg-gray-100 text-gray-500 line-through',
+};
+
+// Figures compared side by side before a bill is reissued
+const COMPARED_FIGURES: { key: keyof BillFigures & keyof Bill; label: string; liters?: boolean }[] = [
+  { key: 'milk_liters', label: 'Milk', liters: true },
+  { key: 'milk_amount', label: 'Milk Amount' },
+  { key: 'grocery_amount', label: 'Grocery' },
+  { key: 'previous_balance', label: 'Previous Balance' },
+  { key: 'payments_received', label: 'Payments Received' },
+  { key: 'amount_due', label: 'Amount Due' },
+];
+
+const selectClassName = "w-full rounded-md border border-gray-200 px-3 py-2 shadow-sm focus:border-blue-500 focus:ring-blue-500 disabled:cursor-not-allowed";
+
+const billCustomer = (bill: Bill): BillCustomer => ({
+  id: bill.customer_id,
+  name: bill.customers?.name || '',
+  address: bill.customers?.address || '',
+  phone_number: bill.customers?.phone_number || undefined
+});
+
+const billMonth = (bill: Bill) => new Date(`${bill.period_start}T00:00:00`);
+
+// Saved bills for a month. Drafts can be checked and issued; issued bills can be marked paid, voided, or
+// reissued with corrections, which keeps the old bill as void alongside the new version.
+export const Bills = () => {
+  const { profile } = useAuth();
+  const canIssueBills = hasPermission(profile?.role, 'issue_bills');
+  const [month, setMonth] = useState(format(subMonths(new Date(), 1), 'yyyy-MM'));
+  const [status, setStatus] = useState('');
+  const [bills, setBills] = useState<Bill[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [reissuing, setReissuing] = useState<Bill | null>(null);
+  const [correctedFigures, setCorrectedFigures] = useState<BillFigures | null>(null);
+  const [reissueReason, setReissueReason] = useState('');
+
+  useEffect(() => {
+    loadBills();
+  }, [month, status]);
+
+  const loadBills = async () => {
+    if (!month) return;
+
+    try {
+      setIsLoading(true);
+      let query = supabase
+        .from('bills')
+        .select('id, bill_number, customer_id, period_start, milk_liters, milk_amount, grocery_amount, previous_balance, payments_received, amount_due, pdf_url, status, version, supersedes_bill_id, issued_at, void_reason, customers(name, address, phone_number)')
+        .eq('period_start', `${month}-01`)
+        .order('created_at');
+
+      if (status) {
+        query = query.eq('status', status);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      setBills((data || []).sort((a, b) => (a.customers?.name || '').localeCompare(b.customers?.name || '')));
+    } catch (error) {
+      console.error('Error loading bills:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load bills",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Runs one change to a bill, reports it and reloads the list
+  const changeBill = async (action: () => Promise<unknown>, success: string, failure: string) => {
+    try {
+      setIsLoading(true);
+      await action();
+      toast({
+        title: "Success",
+        description: success
+      });
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string })?.message || failure,
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+    await loadBills();
+  };
+
+  const setStatusOf = async (bill: Bill, newStatus: BillStatus) => {
+    const { error } = await supabase.from('bills').update({ status: newStatus }).eq('id', bill.id);
+    if (error) throw error;
+  };
+
+  const handleIssue = (bill: Bill) => {
+    if (!confirm(`Issue the draft bill for ${bill.customers?.name}? Its figures are refreshed, then fixed once issued.`)) {
+      return;
+    }
+    changeBill(async () => {
+      const issued = await saveMonthlyBill(billCustomer(bill), billMonth(bill), { billId: bill.id, status: 'issued' });
+      await publishBillPdf(issued.id);
+    }, 'Bill issued', 'Failed to issue bill');
+  };
+
+  const handleDeleteDraft = (bill: Bill) => {
+    if (!confirm(`Delete the draft bill for ${bill.customers?.name}?`)) {
+      return;
+    }
+    changeBill(async () => {
+      const { error } = await supabase.from('bills').delete().eq('id', bill.id);
+      if (error) throw error;
+    }, 'Draft deleted', 'Failed to delete draft');
+  };
+
+  const handleVoid = (bill: Bill) => {
+    if (!confirm(`Void bill ${bill.bill_number}? It stays on record but no longer counts as the customer's bill.`)) {
+      return;
+    }
+    changeBill(() => setStatusOf(bill, 'void'), `Bill ${bill.bill_number} voided`, 'Failed to void bill');
+  };
+
+  const openReissue = async (bill: Bill) => {
+    setReissuing(bill);
+    setCorrectedFigures(null);
+    setReissueReason('');
+    try {
+      setCorrectedFigures(await prepareBill(billCustomer(bill), billMonth(bill)));
+    } catch (error) {
+      console.error('Error working out corrected bill:', error);
+      toast({
+        title: "Error",
+        description: "Failed to work out the corrected bill",
+        variant: "destructive"
+      });
+      setReissuing(null);
+    }
+  };
+
+  const handleReissue = async () => {
+    if (!reissuing || !correctedFigures) return;
+    if (!reissueReason.trim()) {
+      toast({
+        title: "Error",
+        description: "Please say what was corrected",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const original = reissuing;
+    setReissuing(null);
+    await changeBill(
+      () => reissueBill(original.id, reissueReason.trim(), correctedFigures),
+      `Bill ${original.bill_number} reissued`,
+      'Failed to reissue bill'
+    );
+  };
+
+  const replacementOf = (bill: Bill) => bills.find(other => other.supersedes_bill_id === bill.id);
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Bills</h2>
+
+      <Card className="p-4">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-end">
+          <div>
+            <Label htmlFor="billsMonth">Month</Label>
+            <Input
+              id="billsMonth"
+              type="month"
+              value={month}
+              onChange={(e) => setMonth(e.target.value)}
+              disabled={isLoading}
+            />
+          </div>
+          <div>
+            <Label htmlFor="billsStatus">Status</Label>
+            <select
+              id="billsStatus"
+              value={status}
+              onChange={(e) => setStatus(e.target.value)}
+              className={selectClassName}
+              disabled={isLoading}
+            >
+              <option value="">All</option>
+              {(Object.keys(BILL_STATUS_LABELS) as BillStatus[]).map(value => (
+                <option key={value} value={value}>{BILL_STATUS_LABELS[value]}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </Card>
+
+      <Card className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Bill No.</TableHead>
+              <TableHead>Customer</TableHead>
+              <TableHead className="text-right">Amount Due</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Issued</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {bills.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-6 text-gray-500">
+                  {isLoading ? 'Loading...' : 'No bills for this month'}
+                </TableCell>
+              </TableRow>
+            ) : bills.map(bill => {
+              const billStatus = bill.status as BillStatus;
+              const replacement = billStatus === 'void' ? replacementOf(bill) : undefined;
+              return (
+                <TableRow key={bill.id} className={billStatus === 'void' ? 'text-gray-500' : ''}>
+                  <TableCell className="whitespace-nowrap font-medium">
+                    {bill.bill_number || '-'}
+                    {bill.version > 1 && <span className="ml-1 text-xs text-gray-500">v{bill.version}</span>}
+                  </TableCell>
+                  <TableCell>
+                    {bill.customers?.name || 'Deleted customer'}
+                    {billStatus === 'void' && (bill.void_reason || replacement) && (
+                      <p className="text-xs text-gray-500">
+                        {replacement ? `Replaced by ${replacement.bill_number}` : 'Voided'}
+                        {bill.void_reason && `: ${bill.void_reason}`}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">₹{Number(bill.amount_due).toFixed(2)}</TableCell>
+                  <TableCell>
+                    <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_STYLES[billStatus] || 'bg-gray-100 text-gray-800'}`}>
+                      {BILL_STATUS_LABELS[billStatus] || bill.status}
+                    </span>
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {bill.issued_at ? format(new Date(bill.issued_at), 'dd/MM/yyyy') : '-'}
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap space-x-1">
+                    {bill.pdf_url && (
+                      <a
+                        href={bill.pdf_url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center text-sm text-blue-600 hover:text-blue-900 mr-2"
+                      >
+                        <ExternalLink className="h-4 w-4 mr-1" />
+                        PDF
+                      </a>
+                    )}
+                    {canIssueBills && billStatus === 'draft' && (
+                      <>
+                        <Button size="sm" onClick={() => handleIssue(bill)} disabled={isLoading}>Issue</Button>
+                        <Button size="sm" variant="outline" className="text-red-600" onClick={() => handleDeleteDraft(bill)} disabled={isLoading}>
+                          Delete
+                        </Button>
+                      </>
+                    )}
+                    {canIssueBills && (billStatus === 'issued' || billStatus === 'paid') && (
+                      <>
+                        {!bill.pdf_url && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => changeBill(() => publishBillPdf(bill.id), 'PDF created', 'Failed to create PDF')}
+                            disabled={isLoading}
+                          >
+                            Make PDF
+                          </Button>
+                        )}
+                        {billStatus === 'issued' ? (
+                          <Button size="sm" variant="outline" onClick={() => changeBill(() => setStatusOf(bill, 'paid'), 'Bill marked paid', 'Failed to update bill')} disabled={isLoading}>
+                            Mark Paid
+                          </Button>
+                        ) : (
+                          <Button size="sm" variant="outline" onClick={() => changeBill(() => setStatusOf(bill, 'issued'), 'Bill marked unpaid', 'Failed to update bill')} disabled={isLoading}>
+                            Mark Unpaid
+                          </Button>
+                        )}
+                        <Button size="sm" variant="outline" onClick={() => openReissue(bill)} disabled={isLoading}>
+                          Reissue
+                        </Button>
+                        <Button size="sm" variant="outline" className="text-red-600" onClick={() => handleVoid(bill)} disabled={isLoading}>
+                          Void
+                        </Button>
+                      </>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </Card>
+
+      <Dialog
+        open={!!reissuing}
+        onOpenChange={(open) => {
+          if (!open) {
+            setReissuing(null);
+          }
+        }}
+      >
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Reissue Bill {reissuing?.bill_number}</DialogTitle>
+          </DialogHeader>
+          {reissuing && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                The bill for {reissuing.customers?.name} is voided and kept. A new bill with a new number is issued
+                with today's figures.
+              </p>
+              {!correctedFigures ? (
+                <p className="text-sm text-gray-500">Working out the corrected bill...</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-gray-600">
+                      <th className="text-left font-medium py-1" />
+                      <th className="text-right font-medium py-1">Issued</th>
+                      <th className="text-right font-medium py-1">Corrected</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {COMPARED_FIGURES.map(({ key, label, liters }) => {
+                      const before = Number(reissuing[key]);
+                      const after = Number(correctedFigures[key]);
+                      const show = (value: number) => (liters ? `${value}L` : `₹${value.toFixed(2)}`);
+                      return (
+                        <tr key={key} className={Math.abs(before - after) >= 0.005 ? 'font-medium text-orange-700' : ''}>
+                          <td className="py-1">{label}</td>
+                          <td className="text-right py-1">{show(before)}</td>
+                          <td className="text-right py-1">{show(after)}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+              <div>
+                <Label htmlFor="reissueReason">What was corrected</Label>
+                <Input
+                  id="reissueReason"
+                  value={reissueReason}
+                  onChange={(e) => setReissueReason(e.target.value)}
+                  placeholder="e.g. 2L on the 14th entered twice"
+                  disabled={isLoading}
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button className="flex-1" onClick={handleReissue} disabled={isLoading || !correctedFigures}>
+                  Reissue Bill
+                </Button>
+                <Button variant="outline" onClick={() => setReissuing(null)} disabled={isLoading}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
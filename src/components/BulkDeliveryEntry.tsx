@@ -12,6 +12,17 @@ import { format } from 'date-fns';
 import { CalendarIcon, ArrowRight, SkipForward, Plus, Trash2 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DeliveryShift } from '@/utils/shifts';
+import { CustomerPause, findPauseForDate } from '@/utils/pauses';
+import { createClientId } from '@/utils/offlineQueue';
+import { useOfflineSync } from '@/hooks/use-offline-sync';
+import { useAuth } from '@/hooks/use-auth';
+import { hasPermission } from '@/utils/permissions';
+import { DeliveryRoute, loadRoutes, orderCustomersByRoute } from '@/utils/routes';
+import { ExistingDelivery, findExistingDeliveries } from '@/utils/duplicateDeliveries';
+import { SyncQueuePanel } from './SyncQueuePanel';
+import { DeliveryRoundSummary } from './DeliveryRoundSummary';
+import { MilkTypePrice, CustomerRate, loadMilkTypePrices, loadCustomerRates, getCustomerPriceOn, getMilkPriceOn } from '@/utils/milkPrices';
 
 interface Customer {
   id: string;
@@ -39,20 +50,44 @@ interface DeliveryEntry {
   groceryItems: GroceryItem[];
 }
 
+// What happened to each customer in the round so far, for the summary at the bottom
+interface RoundLogEntry {
+  status: 'saved' | 'skipped';
+  milkTypeId?: string;
+  liters?: number;
+}
+
 interface BulkDeliveryEntryProps {
-  onClose: () => void;
+  onClose?: () => void;
 }
 
+// Value of the route picker for walking every customer alphabetically (office staff only)
+const ALL_CUSTOMERS = '';
+
 export const BulkDeliveryEntry = ({ onClose }: BulkDeliveryEntryProps) => {
+  const { queue, enqueueDelivery } = useOfflineSync();
+  const { profile } = useAuth();
+  // Delivery boys only walk their own routes; office staff can also go through everyone
+  const canUseAllCustomers = hasPermission(profile?.role, 'manage_routes');
+  const canEditDeliveries = hasPermission(profile?.role, 'manage_deliveries');
+  const [allCustomers, setAllCustomers] = useState<Customer[]>([]);
+  const [routes, setRoutes] = useState<DeliveryRoute[]>([]);
+  const [selectedRouteId, setSelectedRouteId] = useState(ALL_CUSTOMERS);
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [milkTypes, setMilkTypes] = useState<MilkType[]>([]);
+  const [milkPrices, setMilkPrices] = useState<MilkTypePrice[]>([]);
+  const [customerRates, setCustomerRates] = useState<CustomerRate[]>([]);
   const [selectedDate, setSelectedDate] = useState<Date | undefined>(new Date());
   const [currentEntryIndex, setCurrentEntryIndex] = useState(0);
   const [entries, setEntries] = useState<DeliveryEntry[]>([]);
   const [isSaving, setIsSaving] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
-  const [deliveryTime, setDeliveryTime] = useState<'morning' | 'evening'>('morning');
+  const [deliveryTime, setDeliveryTime] = useState<DeliveryShift>('morning');
   const [isGroceryOnly, setIsGroceryOnly] = useState(false);
+  const [pauses, setPauses] = useState<CustomerPause[]>([]);
+  // Milk already saved for the current customer in this date and shift, to catch double entries
+  const [existingDeliveries, setExistingDeliveries] = useState<ExistingDelivery[]>([]);
+  const [roundLog, setRoundLog] = useState<Record<string, RoundLogEntry>>({});
   const [newGroceryItem, setNewGroceryItem] = useState<GroceryItem>({
     name: '',
     price: 0
@@ -62,11 +97,24 @@ export const BulkDeliveryEntry = ({ onClose }: BulkDeliveryEntryProps) => {
     loadInitialData();
   }, []);
 
+  useEffect(() => {
+    loadPauses();
+  }, [selectedDate]);
+
   useEffect(() => {
     if (customers.length > 0 && currentEntryIndex < customers.length) {
       loadPreviousRecord(customers[currentEntryIndex].id);
     }
-  }, [currentEntryIndex, customers]);
+  }, [currentEntryIndex, customers, deliveryTime, pauses]);
+
+  useEffect(() => {
+    loadExistingDeliveries();
+  }, [currentEntryIndex, customers, deliveryTime, selectedDate]);
+
+  // The summary covers one shift at a time
+  useEffect(() => {
+    setRoundLog({});
+  }, [deliveryTime]);
 
   const loadInitialData = async () => {
     setIsLoading(true);
@@ -85,15 +133,16 @@ export const BulkDeliveryEntry = ({ onClose }: BulkDeliveryEntryProps) => {
 
       if (milkTypesError) throw milkTypesError;
 
-      setCustomers(customersData || []);
+      const routesData = await loadRoutes();
+
+      setAllCustomers(customersData || []);
+      setRoutes(routesData);
       setMilkTypes(milkTypesData || []);
-      setEntries(customersData ? customersData.map(c => ({
-        customerId: c.id,
-        customerName: c.name,
-        milkTypeId: milkTypesData?.[0]?.id || '',
-        quantityInMl: 0,
-        groceryItems: []
-      })) : []);
+      setMilkPrices(await loadMilkTypePrices());
+      setCustomerRates(await loadCustomerRates());
+
+      const initialRouteId = canUseAllCustomers ? ALL_CUSTOMERS : (routesData[0]?.id || ALL_CUSTOMERS);
+      startRound(initialRouteId, customersData || [], routesData, milkTypesData || []);
     } catch (error: any) {
       console.error("Error loading data:", error);
       toast({
@@ -106,13 +155,90 @@ export const BulkDeliveryEntry = ({ onClose }: BulkDeliveryEntryProps) => {
     }
   };
 
+  // Put the customers of the chosen route (or everyone, A-Z) in the order they will be walked and start at the top
+  const startRound = (routeId: string, customerList: Customer[], routeList: DeliveryRoute[], milkTypeList: MilkType[]) => {
+    const route = routeList.find(r => r.id === routeId);
+    const roundCustomers = route
+      ? orderCustomersByRoute(customerList, route)
+      : (canUseAllCustomers ? customerList : []);
+
+    setSelectedRouteId(route ? route.id : ALL_CUSTOMERS);
+    setCustomers(roundCustomers);
+    setEntries(roundCustomers.map(c => ({
+      customerId: c.id,
+      customerName: c.name,
+      milkTypeId: milkTypeList[0]?.id || '',
+      quantityInMl: 0,
+      groceryItems: []
+    })));
+    setCurrentEntryIndex(0);
+    setIsGroceryOnly(false);
+    setRoundLog({});
+  };
+
+  const handleRouteChange = (routeId: string) => {
+    startRound(routeId, allCustomers, routes, milkTypes);
+  };
+
+  const loadPauses = async () => {
+    if (!selectedDate) {
+      setPauses([]);
+      return;
+    }
+
+    try {
+      const date = format(selectedDate, 'yyyy-MM-dd');
+      const { data, error } = await supabase
+        .from('customer_pauses')
+        .select('id, customer_id, start_date, end_date, reason')
+        .lte('start_date', date)
+        .gte('end_date', date);
+
+      if (error) throw error;
+      setPauses(data || []);
+    } catch (error) {
+      console.error("Error loading pauses:", error);
+      setPauses([]);
+    }
+  };
+
+  const loadExistingDeliveries = async () => {
+    const customer = customers[currentEntryIndex];
+    if (!customer || !selectedDate) {
+      setExistingDeliveries([]);
+      return;
+    }
+
+    try {
+      const existing = await findExistingDeliveries(customer.id, format(selectedDate, 'yyyy-MM-dd'), deliveryTime);
+      setExistingDeliveries(existing.filter(record => record.quantity > 0));
+    } catch (error) {
+      // Offline: the queue below and the server check at sync time still catch duplicates
+      console.error("Error checking existing deliveries:", error);
+      setExistingDeliveries([]);
+    }
+  };
+
   const loadPreviousRecord = async (customerId: string) => {
+    // Paused customers get nothing pre-filled; staff can still enter an exception by hand
+    if (selectedDate && findPauseForDate(pauses.filter(p => p.customer_id === customerId), format(selectedDate, 'yyyy-MM-dd'))) {
+      setEntries(prevEntries => {
+        const newEntries = [...prevEntries];
+        if (newEntries[currentEntryIndex]) {
+          newEntries[currentEntryIndex].quantityInMl = 0;
+        }
+        return newEntries;
+      });
+      return;
+    }
+
     try {
-      // Get the most recent delivery record for this customer
+      // Get the most recent delivery record for this customer in the selected shift
       const { data: deliveryData, error: deliveryError } = await supabase
         .from('delivery_records')
-        .select('milk_type_id, quantity, notes')
+        .select('milk_type_id, quantity')
         .eq('customer_id', customerId)
+        .eq('shift', deliveryTime)
         .order('delivery_date', { ascending: false })
         .limit(1);
 
@@ -130,14 +256,6 @@ export const BulkDeliveryEntry = ({ onClose }: BulkDeliveryEntryProps) => {
           }
           return newEntries;
         });
-
-        // Extract delivery time from notes if available
-        if (lastDelivery.notes && lastDelivery.notes.includes('Delivery Time:')) {
-          const timeMatch = lastDelivery.notes.match(/Delivery Time: (morning|evening)/);
-          if (timeMatch) {
-            setDeliveryTime(timeMatch[1] as 'morning' | 'evening');
-          }
-        }
       }
     } catch (error: any) {
       console.error("Error loading previous record:", error);
@@ -232,86 +350,155 @@ export const BulkDeliveryEntry = ({ onClose }: BulkDeliveryEntryProps) => {
     }
   }
 
+  // The customer's rate for the selected delivery date, not today's list price
+  const getPriceForSelectedDate = (customerId: string, milkType: MilkType) =>
+    getCustomerPriceOn(customerRates, milkPrices, customerId, milkType, format(selectedDate || new Date(), 'yyyy-MM-dd'));
+
+  // Entries for the current customer, date and shift still waiting on this phone
+  const queuedForCurrent = queue.filter(item =>
+    item.customerId === customers[currentEntryIndex]?.id &&
+    !!selectedDate && item.deliveryDate === format(selectedDate, 'yyyy-MM-dd') &&
+    item.shift === deliveryTime &&
+    item.quantity > 0
+  );
+
+  // Only milk of the type being entered counts as already recorded, matching the server's duplicate rule;
+  // other milk types in the same shift are shown for information
+  const currentMilkTypeId = entries[currentEntryIndex]?.milkTypeId;
+  const sameTypeExisting = existingDeliveries.filter(record => record.milk_type_id === currentMilkTypeId);
+  const sameTypeQueued = queuedForCurrent.filter(item => item.milkTypeId === currentMilkTypeId);
+  const otherTypeExisting = existingDeliveries.filter(record => record.milk_type_id !== currentMilkTypeId);
+  const otherTypeQueued = queuedForCurrent.filter(item => item.milkTypeId !== currentMilkTypeId);
+
+  const logRound = (customerId: string, entry: RoundLogEntry) => {
+    setRoundLog(prev => ({ ...prev, [customerId]: entry }));
+  };
+
   const handleSkipCustomer = () => {
+    const customer = customers[currentEntryIndex];
+    if (customer) {
+      logRound(customer.id, { status: 'skipped' });
+    }
     goToNextCustomer();
   };
 
-  const handleSaveAndNext = async () => {
+  // Correct the delivery that is already saved instead of adding a second one. Groceries already on it are
+  // kept in its total; groceries added on this screen are attached to it.
+  const handleUpdateExisting = async () => {
+    const existing = sameTypeExisting[0];
+    const entry = entries[currentEntryIndex];
+    const milkType = milkTypes.find(mt => mt.id === entry?.milkTypeId);
+    if (!existing || !entry || !milkType || !selectedDate || entry.quantityInMl <= 0) {
+      toast({ title: "Error", description: "Enter the milk type and quantity to update.", variant: "destructive" });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const quantityInLiters = entry.quantityInMl / 1000;
+      const pricePerLiter = getPriceForSelectedDate(entry.customerId, milkType);
+
+      const { error } = await supabase.rpc('update_delivery_entry', {
+        _delivery_id: existing.id,
+        _milk_type_id: milkType.id,
+        _quantity: quantityInLiters,
+        _price_per_liter: pricePerLiter,
+        _grocery_items: entry.groceryItems.map(item => ({ name: item.name, price: item.price }))
+      });
+
+      if (error) throw error;
+      logRound(entry.customerId, { status: 'saved', milkTypeId: milkType.id, liters: quantityInLiters });
+
+      toast({
+        title: `Updated for ${entry.customerName}`,
+        description: "Moving to next customer.",
+        duration: 1500,
+      });
+      goToNextCustomer();
+    } catch (error) {
+      console.error("Error updating existing delivery:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: `Failed to update the delivery for ${entry.customerName}.`,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveAndNext = async (allowDuplicate = false) => {
     if (!selectedDate) {
       toast({ title: "Error", description: "Please select a date.", variant: "destructive" });
       return;
     }
 
-    setIsSaving(true);
     const entry = entries[currentEntryIndex];
+    const isMilkEntry = !isGroceryOnly && entry.quantityInMl > 0 && !!entry.milkTypeId;
+    if (isMilkEntry && !allowDuplicate && (sameTypeExisting.length > 0 || sameTypeQueued.length > 0)) {
+      toast({
+        title: "Already recorded",
+        description: canEditDeliveries
+          ? `${entry.customerName} already has this milk for this shift. Use Update Existing or Add Anyway.`
+          : `${entry.customerName} already has this milk for this shift. Use Add Anyway if this is an extra delivery.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSaving(true);
 
     try {
         const deliveryDate = format(selectedDate, 'yyyy-MM-dd');
-        let deliveryRecordId = null;
+        const baseEntry = {
+            clientId: createClientId(),
+            customerId: entry.customerId,
+            customerName: entry.customerName,
+            deliveryDate,
+            shift: deliveryTime,
+            allowDuplicate,
+            groceryItems: entry.groceryItems.map(item => ({ name: item.name, price: item.price }))
+        };
 
         // Calculate grocery total
         const groceryAmount = entry.groceryItems.reduce((sum, item) => sum + item.price, 0);
 
-        // Save milk delivery if not grocery only
-        if (!isGroceryOnly && entry.quantityInMl > 0 && entry.milkTypeId) {
+        // Entries go through the offline queue so nothing is lost without signal; it syncs straight away when online
+        if (isMilkEntry) {
             const milkType = milkTypes.find(mt => mt.id === entry.milkTypeId);
             if (milkType) {
                 const quantityInLiters = entry.quantityInMl / 1000;
-                const totalAmount = quantityInLiters * milkType.price_per_liter + groceryAmount;
-                
-                // Create notes with grocery info if there are grocery items
-                let notes = `Delivery Time: ${deliveryTime}`;
-                if (entry.groceryItems.length > 0) {
-                    const groceryNames = entry.groceryItems.map(item => `${item.name} (₹${item.price})`).join(', ');
-                    notes += ` | Grocery: ${groceryNames}`;
-                }
-                
-                const deliveryRecord = {
-                    customer_id: entry.customerId,
-                    delivery_date: deliveryDate,
-                    milk_type_id: entry.milkTypeId,
+                const pricePerLiter = getPriceForSelectedDate(entry.customerId, milkType);
+                const totalAmount = quantityInLiters * pricePerLiter + groceryAmount;
+
+                await enqueueDelivery({
+                    ...baseEntry,
+                    milkTypeId: entry.milkTypeId,
                     quantity: quantityInLiters,
-                    price_per_liter: milkType.price_per_liter,
-                    total_amount: totalAmount,
-                    notes: notes
-                };
-                
-                const { data, error } = await supabase
-                    .from('delivery_records')
-                    .insert([deliveryRecord])
-                    .select()
-                    .single();
-                
-                if (error) throw error;
-                deliveryRecordId = data.id;
+                    pricePerLiter,
+                    totalAmount,
+                    notes: null
+                });
+                logRound(entry.customerId, { status: 'saved', milkTypeId: entry.milkTypeId, liters: quantityInLiters });
             }
         } else if (entry.groceryItems.length > 0) {
             // If grocery only, create a delivery record for grocery items
-            const groceryNames = entry.groceryItems.map(item => `${item.name} (₹${item.price})`).join(', ');
-            
-            const deliveryRecord = {
-                customer_id: entry.customerId,
-                delivery_date: deliveryDate,
-                milk_type_id: milkTypes[0]?.id || '', // Use first milk type as placeholder
+            await enqueueDelivery({
+                ...baseEntry,
+                milkTypeId: milkTypes[0]?.id || '', // Use first milk type as placeholder
                 quantity: 0,
-                price_per_liter: 0,
-                total_amount: groceryAmount,
-                notes: `Grocery Only - Delivery Time: ${deliveryTime} | Grocery: ${groceryNames}`
-            };
-            
-            const { data, error } = await supabase
-                .from('delivery_records')
-                .insert([deliveryRecord])
-                .select()
-                .single();
-            
-            if (error) throw error;
-            deliveryRecordId = data.id;
+                pricePerLiter: 0,
+                totalAmount: groceryAmount,
+                notes: 'Grocery Only'
+            });
+            logRound(entry.customerId, { status: 'saved' });
+        } else {
+            logRound(entry.customerId, { status: 'skipped' });
         }
-        
+
         toast({
             title: `Saved for ${entry.customerName}`,
-            description: "Moving to next customer.",
+            description: navigator.onLine ? "Moving to next customer." : "Saved on this phone. It will sync when you are back online.",
             duration: 1500,
         });
 
@@ -336,7 +523,7 @@ export const BulkDeliveryEntry = ({ onClose }: BulkDeliveryEntryProps) => {
     return <div className="text-center py-8 text-gray-500">Loading customers...</div>;
   }
 
-  if (customers.length === 0) {
+  if (allCustomers.length === 0) {
     return (
       <div className="text-center py-8">
         <p className="text-gray-500">No customers found. Please add customers first.</p>
@@ -344,42 +531,103 @@ export const BulkDeliveryEntry = ({ onClose }: BulkDeliveryEntryProps) => {
     );
   }
 
+  if (!canUseAllCustomers && routes.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-gray-500">No route is assigned to you yet. Please ask the owner to assign your route.</p>
+      </div>
+    );
+  }
+
   const currentEntry = entries[currentEntryIndex];
   const selectedMilkType = milkTypes.find(mt => mt.id === currentEntry?.milkTypeId);
   const quantityInLiters = currentEntry?.quantityInMl / 1000 || 0;
-  const milkAmount = quantityInLiters * (selectedMilkType?.price_per_liter || 0);
+  const selectedPrice = selectedMilkType && currentEntry ? getPriceForSelectedDate(currentEntry.customerId, selectedMilkType) : 0;
+  const milkAmount = quantityInLiters * selectedPrice;
   const groceryAmount = currentEntry?.groceryItems.reduce((sum, item) => sum + item.price, 0) || 0;
   const totalAmount = milkAmount + groceryAmount;
+  const currentPause = currentEntry && selectedDate
+    ? findPauseForDate(pauses.filter(p => p.customer_id === currentEntry.customerId), format(selectedDate, 'yyyy-MM-dd'))
+    : undefined;
+
+  const roundTotals = milkTypes
+    .map(milkType => ({
+      milkTypeName: milkType.name,
+      liters: Object.values(roundLog)
+        .filter(log => log.status === 'saved' && log.milkTypeId === milkType.id)
+        .reduce((sum, log) => sum + (log.liters || 0), 0)
+    }))
+    .filter(total => total.liters > 0);
+  const roundSkipped = customers
+    .filter(customer => roundLog[customer.id]?.status === 'skipped')
+    .map(customer => ({
+      id: customer.id,
+      name: customer.name,
+      isPaused: !!selectedDate && !!findPauseForDate(pauses.filter(p => p.customer_id === customer.id), format(selectedDate, 'yyyy-MM-dd'))
+    }));
+
+  const roundCard = (
+    <Card className="p-4 space-y-3">
+      <div className="flex items-center gap-4">
+        <Label htmlFor="delivery-route" className="w-28 flex-shrink-0">Route:</Label>
+        <select
+          id="delivery-route"
+          className="w-[240px] rounded-md border border-gray-200 px-3 py-2 shadow-sm focus:border-blue-500 focus:ring-blue-500 disabled:cursor-not-allowed"
+          value={selectedRouteId}
+          onChange={(e) => handleRouteChange(e.target.value)}
+          disabled={isSaving}
+        >
+          {canUseAllCustomers && <option value={ALL_CUSTOMERS}>All customers (A-Z)</option>}
+          {routes.map(route => (
+            <option key={route.id} value={route.id}>{route.name}</option>
+          ))}
+        </select>
+      </div>
+      <div className="flex items-center gap-4">
+        <Label htmlFor="delivery-date" className="w-28 flex-shrink-0">Delivery Date:</Label>
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button
+              id="delivery-date"
+              variant={"outline"}
+              className={cn("w-[240px] justify-start text-left font-normal", !selectedDate && "text-muted-foreground")}
+            >
+              <CalendarIcon className="mr-2 h-4 w-4" />
+              {selectedDate ? format(selectedDate, "dd/MM/yyyy") : <span>Pick a date</span>}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar mode="single" selected={selectedDate} onSelect={handleDateSelect} disabled={isLoading} initialFocus />
+          </PopoverContent>
+        </Popover>
+      </div>
+    </Card>
+  );
+
+  if (customers.length === 0) {
+    return (
+      <div className="space-y-4">
+        <SyncQueuePanel />
+        {roundCard}
+        <Card className="p-8 text-center text-gray-500">No customers on this route yet.</Card>
+      </div>
+    );
+  }
 
   return (
     <div className="space-y-4 pb-20 md:pb-4">
-      <Card className="p-4">
-        <div className="flex items-center gap-4">
-          <Label htmlFor="delivery-date">Delivery Date:</Label>
-          <Popover>
-            <PopoverTrigger asChild>
-              <Button
-                id="delivery-date"
-                variant={"outline"}
-                className={cn("w-[240px] justify-start text-left font-normal", !selectedDate && "text-muted-foreground")}
-              >
-                <CalendarIcon className="mr-2 h-4 w-4" />
-                {selectedDate ? format(selectedDate, "dd/MM/yyyy") : <span>Pick a date</span>}
-              </Button>
-            </PopoverTrigger>
-            <PopoverContent className="w-auto p-0" align="start">
-              <Calendar mode="single" selected={selectedDate} onSelect={handleDateSelect} disabled={isLoading} initialFocus />
-            </PopoverContent>
-          </Popover>
-        </div>
-      </Card>
+      <SyncQueuePanel />
+
+      {roundCard}
       
       <Card className="p-4">
           <div className="flex items-center justify-between">
               <p className="text-sm text-purple-700 font-medium">
                   Current Customer: {currentEntry?.customerName} ({currentEntryIndex + 1}/{entries.length})
               </p>
-              <Button variant="outline" size="sm" onClick={onClose}>Switch to Manual</Button>
+              {onClose && (
+                <Button variant="outline" size="sm" onClick={onClose}>Switch to Manual</Button>
+              )}
           </div>
       </Card>
 
@@ -388,6 +636,62 @@ export const BulkDeliveryEntry = ({ onClose }: BulkDeliveryEntryProps) => {
           Entry Form - {currentEntry?.customerName}
         </h3>
         <div className="space-y-6">
+            {currentPause && (
+              <div className="bg-amber-50 border border-amber-300 p-3 rounded-md">
+                <p className="text-sm text-amber-800 font-medium">
+                  Paused from {format(new Date(`${currentPause.start_date}T00:00:00`), 'dd/MM/yyyy')} to {format(new Date(`${currentPause.end_date}T00:00:00`), 'dd/MM/yyyy')}
+                  {currentPause.reason && ` (${currentPause.reason})`}
+                </p>
+                <p className="text-xs text-amber-700">Skip this customer unless they asked for milk today.</p>
+              </div>
+            )}
+
+            {(sameTypeExisting.length > 0 || sameTypeQueued.length > 0) && !isGroceryOnly && (
+              <div className="bg-red-50 border border-red-300 p-3 rounded-md space-y-2">
+                <p className="text-sm text-red-800 font-medium">Already recorded for this shift</p>
+                <ul className="text-xs text-red-700 space-y-1">
+                  {sameTypeExisting.map(record => (
+                    <li key={record.id}>
+                      {record.quantity}L {record.milk_types?.name || ''} · ₹{Number(record.total_amount).toFixed(2)}
+                    </li>
+                  ))}
+                  {sameTypeQueued.map(item => (
+                    <li key={item.clientId}>
+                      {item.quantity}L {milkTypes.find(mt => mt.id === item.milkTypeId)?.name || ''} · saved on this phone, not synced yet
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex gap-2">
+                  {canEditDeliveries && sameTypeExisting.length > 0 && (
+                    <Button size="sm" variant="outline" onClick={handleUpdateExisting} disabled={isSaving}>
+                      Update Existing
+                    </Button>
+                  )}
+                  <Button size="sm" variant="outline" onClick={() => handleSaveAndNext(true)} disabled={isSaving}>
+                    Add Anyway
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {(otherTypeExisting.length > 0 || otherTypeQueued.length > 0) && !isGroceryOnly && (
+              <div className="bg-gray-50 border border-gray-200 p-3 rounded-md">
+                <p className="text-sm text-gray-700 font-medium">Other milk this shift</p>
+                <ul className="text-xs text-gray-600 space-y-1">
+                  {otherTypeExisting.map(record => (
+                    <li key={record.id}>
+                      {record.quantity}L {record.milk_types?.name || ''} · ₹{Number(record.total_amount).toFixed(2)}
+                    </li>
+                  ))}
+                  {otherTypeQueued.map(item => (
+                    <li key={item.clientId}>
+                      {item.quantity}L {milkTypes.find(mt => mt.id === item.milkTypeId)?.name || ''} · saved on this phone, not synced yet
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             <div>
               <Label>Delivery Time</Label>
               <div className="flex gap-2 mt-2">
@@ -411,7 +715,7 @@ export const BulkDeliveryEntry = ({ onClose }: BulkDeliveryEntryProps) => {
                           </SelectTrigger>
                           <SelectContent>
                             {milkTypes.map(mt => (
-                              <SelectItem key={mt.id} value={mt.id}>{mt.name} - ₹{mt.price_per_liter}/L</SelectItem>
+                              <SelectItem key={mt.id} value={mt.id}>{mt.name} - ₹{currentEntry ? getPriceForSelectedDate(currentEntry.customerId, mt) : getMilkPriceOn(milkPrices, mt, format(selectedDate || new Date(), 'yyyy-MM-dd'))}/L</SelectItem>
                             ))}
                           </SelectContent>
                         </Select>
@@ -422,7 +726,7 @@ export const BulkDeliveryEntry = ({ onClose }: BulkDeliveryEntryProps) => {
                     </div>
                     <div>
                         <Label>Price per Liter (₹)</Label>
-                        <Input value={selectedMilkType?.price_per_liter || ''} readOnly className="bg-gray-100" />
+                        <Input value={selectedPrice || ''} readOnly className="bg-gray-100" />
                     </div>
                 </div>
                 {milkAmount > 0 && (
@@ -511,18 +815,22 @@ export const BulkDeliveryEntry = ({ onClose }: BulkDeliveryEntryProps) => {
             <Button variant="outline" className="w-full" onClick={handleSkipCustomer} disabled={isSaving}>
                 <SkipForward className="mr-2" /> Skip Customer
             </Button>
-            <Button className="w-full bg-green-600 hover:bg-green-700" onClick={handleSaveAndNext} disabled={isSaving}>
+            <Button className="w-full bg-green-600 hover:bg-green-700" onClick={() => handleSaveAndNext()} disabled={isSaving}>
                 {isSaving ? 'Saving...' : <><ArrowRight className="mr-2" /> Save & Next</>}
             </Button>
         </div>
       </Card>
+
+      {Object.keys(roundLog).length > 0 && (
+        <DeliveryRoundSummary totals={roundTotals} skipped={roundSkipped} />
+      )}
       
       {/* Mobile fixed bottom buttons */}
       <div className="fixed bottom-0 left-0 right-0 bg-white border-t p-4 flex gap-4 md:hidden z-50">
           <Button variant="outline" className="w-full" onClick={handleSkipCustomer} disabled={isSaving}>
               <SkipForward className="mr-2" /> Skip Customer
           </Button>
-          <Button className="w-full bg-green-600 hover:bg-green-700" onClick={handleSaveAndNext} disabled={isSaving}>
+          <Button className="w-full bg-green-600 hover:bg-green-700" onClick={() => handleSaveAndNext()} disabled={isSaving}>
               {isSaving ? 'Saving...' : <><ArrowRight className="mr-2" /> Save & Next</>}
           </Button>
       </div>
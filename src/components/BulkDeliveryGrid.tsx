@@ -0,0 +1,439 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Save, RotateCcw } from 'lucide-react';
+import { format, subDays } from 'date-fns';
+import { toast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/use-auth';
+import { useOfflineSync } from '@/hooks/use-offline-sync';
+import { hasPermission } from '@/utils/permissions';
+import { DeliveryShift, DELIVERY_SHIFTS, SHIFT_LABELS } from '@/utils/shifts';
+import { CustomerPause, findPauseForDate } from '@/utils/pauses';
+import { MilkTypePrice, CustomerRate, loadMilkTypePrices, loadCustomerRates, getCustomerPriceOn } from '@/utils/milkPrices';
+import { DeliveryRoute, loadRoutes, orderCustomersByRoute } from '@/utils/routes';
+import { loadRecentDeliveries, getLastDeliveries } from '@/utils/deliveryHistory';
+import { isDuplicateDeliveryError } from '@/utils/duplicateDeliveries';
+import { createClientId, isNetworkError } from '@/utils/offlineQueue';
+import { DeliveryRoundSummary } from './DeliveryRoundSummary';
+
+interface Customer {
+  id: string;
+  name: string;
+}
+
+interface MilkType {
+  id: string;
+  name: string;
+  price_per_liter: number;
+}
+
+interface SavedDelivery {
+  customer_id: string;
+  milk_type_id: string;
+  quantity: number;
+}
+
+interface GridRow {
+  customerId: string;
+  customerName: string;
+  milkTypeId: string;
+  // Kept as typed so a half-entered number like "1." is not lost
+  liters: string;
+  isPaused: boolean;
+  saved: SavedDelivery[];
+}
+
+// How far back the previous delivery is looked for when pre-filling a row
+const PREFILL_LOOKBACK_DAYS = 30;
+const ALL_CUSTOMERS = '';
+
+// Spreadsheet-style entry for a whole round: one row per customer, pre-filled from their previous delivery
+// in the shift, saved together. Customers already entered for the date and shift are shown but not re-saved.
+export const BulkDeliveryGrid = () => {
+  const { profile } = useAuth();
+  const { enqueueDelivery } = useOfflineSync();
+  const canUseAllCustomers = hasPermission(profile?.role, 'manage_routes');
+  const [allCustomers, setAllCustomers] = useState<Customer[]>([]);
+  const [milkTypes, setMilkTypes] = useState<MilkType[]>([]);
+  const [milkPrices, setMilkPrices] = useState<MilkTypePrice[]>([]);
+  const [customerRates, setCustomerRates] = useState<CustomerRate[]>([]);
+  const [routes, setRoutes] = useState<DeliveryRoute[]>([]);
+  const [routeId, setRouteId] = useState<string | null>(null);
+  const [deliveryDate, setDeliveryDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [shift, setShift] = useState<DeliveryShift>('morning');
+  const [rows, setRows] = useState<GridRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const inputRefs = useRef<(HTMLInputElement | null)[]>([]);
+
+  useEffect(() => {
+    loadInitialData();
+  }, []);
+
+  useEffect(() => {
+    if (routeId !== null && milkTypes.length > 0) {
+      loadDay();
+    }
+  }, [routeId, deliveryDate, shift, allCustomers, milkTypes]);
+
+  const loadInitialData = async () => {
+    try {
+      setIsLoading(true);
+      const { data: customersData, error: customersError } = await supabase
+        .from('customers')
+        .select('id, name')
+        .order('name');
+
+      if (customersError) throw customersError;
+
+      const { data: milkTypesData, error: milkTypesError } = await supabase
+        .from('milk_types')
+        .select('id, name, price_per_liter')
+        .order('name');
+
+      if (milkTypesError) throw milkTypesError;
+
+      const routesData = await loadRoutes();
+
+      setAllCustomers(customersData || []);
+      setMilkTypes(milkTypesData || []);
+      setMilkPrices(await loadMilkTypePrices());
+      setCustomerRates(await loadCustomerRates());
+      setRoutes(routesData);
+      setRouteId(canUseAllCustomers ? ALL_CUSTOMERS : (routesData[0]?.id || ALL_CUSTOMERS));
+    } catch (error) {
+      console.error('Error loading data:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load customers and milk types",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Rebuild the grid for the chosen route, date and shift. Anything typed but not saved is discarded.
+  const loadDay = async () => {
+    const route = routes.find(r => r.id === routeId);
+    const roundCustomers = route ? orderCustomersByRoute(allCustomers, route) : (canUseAllCustomers ? allCustomers : []);
+
+    try {
+      setIsLoading(true);
+      const since = format(subDays(new Date(`${deliveryDate}T00:00:00`), PREFILL_LOOKBACK_DAYS), 'yyyy-MM-dd');
+      const lastDeliveries = getLastDeliveries(await loadRecentDeliveries(since, deliveryDate), shift);
+
+      const { data: savedData, error: savedError } = await supabase
+        .from('delivery_records')
+        .select('customer_id, milk_type_id, quantity')
+        .eq('delivery_date', deliveryDate)
+        .eq('shift', shift)
+        .gt('quantity', 0);
+
+      if (savedError) throw savedError;
+
+      const { data: pausesData, error: pausesError } = await supabase
+        .from('customer_pauses')
+        .select('id, customer_id, start_date, end_date, reason')
+        .lte('start_date', deliveryDate)
+        .gte('end_date', deliveryDate);
+
+      if (pausesError) throw pausesError;
+      const pauses: CustomerPause[] = pausesData || [];
+
+      setRows(roundCustomers.map(customer => {
+        const saved = (savedData || []).filter(record => record.customer_id === customer.id);
+        const isPaused = !!findPauseForDate(pauses.filter(p => p.customer_id === customer.id), deliveryDate);
+        const last = lastDeliveries[customer.id];
+        return {
+          customerId: customer.id,
+          customerName: customer.name,
+          milkTypeId: last?.milk_type_id || milkTypes[0]?.id || '',
+          liters: saved.length === 0 && !isPaused && last ? String(last.quantity) : '',
+          isPaused,
+          saved
+        };
+      }));
+    } catch (error) {
+      console.error('Error loading deliveries for the grid:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the day's deliveries",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateRow = (index: number, changes: Partial<GridRow>) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  // Enter and the arrow keys move between quantity cells like a spreadsheet
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, index: number) => {
+    const step = e.key === 'ArrowUp' ? -1 : (e.key === 'ArrowDown' || e.key === 'Enter') ? 1 : 0;
+    if (step === 0) return;
+    e.preventDefault();
+
+    for (let next = index + step; next >= 0 && next < rows.length; next += step) {
+      const input = inputRefs.current[next];
+      if (input && !input.disabled) {
+        input.focus();
+        input.select();
+        return;
+      }
+    }
+  };
+
+  const getRowLiters = (row: GridRow) => {
+    const liters = parseFloat(row.liters);
+    return isNaN(liters) || liters < 0 ? 0 : liters;
+  };
+
+  const rowsToSave = rows.filter(row => row.saved.length === 0 && getRowLiters(row) > 0 && row.milkTypeId);
+
+  const handleSaveAll = async () => {
+    if (rowsToSave.length === 0) {
+      toast({ title: "Nothing to save", description: "Enter a quantity for at least one customer." });
+      return;
+    }
+
+    const deliveries = rowsToSave.map(row => {
+      const milkType = milkTypes.find(mt => mt.id === row.milkTypeId)!;
+      const quantity = getRowLiters(row);
+      const pricePerLiter = getCustomerPriceOn(customerRates, milkPrices, row.customerId, milkType, deliveryDate);
+      return {
+        clientId: createClientId(),
+        customerId: row.customerId,
+        customerName: row.customerName,
+        deliveryDate,
+        shift,
+        milkTypeId: row.milkTypeId,
+        quantity,
+        pricePerLiter,
+        totalAmount: quantity * pricePerLiter,
+        notes: null,
+        groceryItems: []
+      };
+    });
+
+    try {
+      setIsSaving(true);
+
+      // One insert for the whole grid, so the day is either saved completely or not at all
+      const { error } = await supabase
+        .from('delivery_records')
+        .insert(deliveries.map(delivery => ({
+          client_id: delivery.clientId,
+          customer_id: delivery.customerId,
+          delivery_date: delivery.deliveryDate,
+          shift: delivery.shift,
+          milk_type_id: delivery.milkTypeId,
+          quantity: delivery.quantity,
+          price_per_liter: delivery.pricePerLiter,
+          total_amount: delivery.totalAmount,
+          notes: delivery.notes
+        })));
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `Saved ${deliveries.length} ${deliveries.length === 1 ? 'delivery' : 'deliveries'} for ${SHIFT_LABELS[shift].toLowerCase()}`
+      });
+      await loadDay();
+    } catch (error) {
+      if (isNetworkError(error)) {
+        // No signal: keep every row on this phone; the sync panel reports anything that clashes later
+        for (const delivery of deliveries) {
+          await enqueueDelivery(delivery);
+        }
+        toast({
+          title: "Saved on this phone",
+          description: `${deliveries.length} entries will sync when you are back online.`
+        });
+        setRows(prev => prev.map(row =>
+          rowsToSave.includes(row)
+            ? { ...row, liters: '', saved: [{ customer_id: row.customerId, milk_type_id: row.milkTypeId, quantity: getRowLiters(row) }] }
+            : row
+        ));
+      } else if (isDuplicateDeliveryError(error)) {
+        console.error('Duplicate delivery in grid:', error);
+        toast({
+          title: "Already recorded",
+          description: "Someone entered some of these customers meanwhile. The grid has been refreshed - check and save again.",
+          variant: "destructive"
+        });
+        await loadDay();
+      } else {
+        console.error('Error saving grid deliveries:', error);
+        toast({
+          title: "Error",
+          description: "Failed to save deliveries",
+          variant: "destructive"
+        });
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const totals = milkTypes
+    .map(milkType => ({
+      milkTypeName: milkType.name,
+      liters: rows.reduce((sum, row) =>
+        sum
+        + row.saved.filter(record => record.milk_type_id === milkType.id).reduce((s, record) => s + Number(record.quantity), 0)
+        + (row.saved.length === 0 && row.milkTypeId === milkType.id ? getRowLiters(row) : 0), 0)
+    }))
+    .filter(total => total.liters > 0);
+
+  const skipped = rows
+    .filter(row => row.saved.length === 0 && getRowLiters(row) === 0)
+    .map(row => ({ id: row.customerId, name: row.customerName, isPaused: row.isPaused }));
+
+  if (!isLoading && !canUseAllCustomers && routes.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-gray-500">No route is assigned to you yet. Please ask the owner to assign your route.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-4">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <div>
+            <Label htmlFor="gridRoute">Route</Label>
+            <select
+              id="gridRoute"
+              className="w-full rounded-md border border-gray-200 px-3 py-2 shadow-sm focus:border-blue-500 focus:ring-blue-500 disabled:cursor-not-allowed"
+              value={routeId || ALL_CUSTOMERS}
+              onChange={(e) => setRouteId(e.target.value)}
+              disabled={isLoading || isSaving}
+            >
+              {canUseAllCustomers && <option value={ALL_CUSTOMERS}>All customers (A-Z)</option>}
+              {routes.map(route => (
+                <option key={route.id} value={route.id}>{route.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <Label htmlFor="gridDate">Delivery Date</Label>
+            <Input
+              id="gridDate"
+              type="date"
+              value={deliveryDate}
+              onChange={(e) => setDeliveryDate(e.target.value)}
+              disabled={isLoading || isSaving}
+            />
+          </div>
+          <div>
+            <Label>Shift</Label>
+            <div className="flex gap-2">
+              {DELIVERY_SHIFTS.map(s => (
+                <Button
+                  key={s}
+                  variant={shift === s ? 'default' : 'outline'}
+                  className="flex-1"
+                  onClick={() => setShift(s)}
+                  disabled={isLoading || isSaving}
+                >
+                  {SHIFT_LABELS[s]}
+                </Button>
+              ))}
+            </div>
+          </div>
+        </div>
+      </Card>
+
+      <Card className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">#</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Customer</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Milk Type</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Qty (L)</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {isLoading ? (
+              <tr>
+                <td colSpan={5} className="px-3 py-8 text-center text-gray-500">Loading...</td>
+              </tr>
+            ) : rows.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="px-3 py-8 text-center text-gray-500">No customers on this route yet</td>
+              </tr>
+            ) : (
+              rows.map((row, index) => {
+                const isSaved = row.saved.length > 0;
+                return (
+                  <tr key={row.customerId} className={isSaved ? 'bg-green-50' : row.isPaused ? 'bg-gray-50' : ''}>
+                    <td className="px-3 py-1 text-sm text-gray-500">{index + 1}</td>
+                    <td className="px-3 py-1 text-sm font-medium text-gray-900">{row.customerName}</td>
+                    <td className="px-3 py-1">
+                      <select
+                        className="w-full rounded-md border border-gray-200 px-2 py-1 text-sm shadow-sm focus:border-blue-500 focus:ring-blue-500 disabled:cursor-not-allowed"
+                        value={row.milkTypeId}
+                        onChange={(e) => updateRow(index, { milkTypeId: e.target.value })}
+                        disabled={isSaved || isSaving}
+                      >
+                        {milkTypes.map(milkType => (
+                          <option key={milkType.id} value={milkType.id}>{milkType.name}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-3 py-1">
+                      <Input
+                        ref={(el) => { inputRefs.current[index] = el; }}
+                        type="number"
+                        step="0.25"
+                        min="0"
+                        className="h-8 w-24"
+                        value={isSaved ? row.saved.reduce((sum, record) => sum + Number(record.quantity), 0) : row.liters}
+                        onChange={(e) => updateRow(index, { liters: e.target.value })}
+                        onKeyDown={(e) => handleKeyDown(e, index)}
+                        onFocus={(e) => e.target.select()}
+                        disabled={isSaved || isSaving}
+                      />
+                    </td>
+                    <td className="px-3 py-1 text-xs">
+                      {isSaved ? (
+                        <span className="text-green-700">Already saved</span>
+                      ) : row.isPaused ? (
+                        <span className="text-gray-500 italic">Paused</span>
+                      ) : getRowLiters(row) === 0 ? (
+                        <span className="text-amber-700">Skipped</span>
+                      ) : null}
+                    </td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </Card>
+
+      <DeliveryRoundSummary totals={totals} skipped={skipped} />
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={loadDay} disabled={isLoading || isSaving}>
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Reset
+        </Button>
+        <Button className="bg-green-600 hover:bg-green-700" onClick={handleSaveAll} disabled={isLoading || isSaving || rowsToSave.length === 0}>
+          <Save className="h-4 w-4 mr-2" />
+          {isSaving ? 'Saving...' : `Save ${rowsToSave.length} ${rowsToSave.length === 1 ? 'Delivery' : 'Deliveries'}`}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -119,7 +119,7 @@ export const BulkPaymentEntry = ({ onClose, onPaymentsSaved }: BulkPaymentEntryP
       const paymentsToInsert = entries
         .filter(entry => entry.amount && parseFloat(entry.amount) > 0)
         .map(entry => ({
-          customer_name: entry.customerName,
+          customer_id: entry.customerId,
           amount: parseFloat(entry.amount),
           payment_date: paymentDate,
           payment_method: entry.paymentMethod,
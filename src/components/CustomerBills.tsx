@@ -6,11 +6,17 @@ import { toast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { format, getDaysInMonth, startOfMonth, addDays } from 'date-fns';
 import { generatePDFBlob, uploadPdfAndGetUrl } from "@/utils/pdfUtils";
+import { loadBillMonthlyData, loadBillBalances, summarizeBill } from "@/utils/monthlyBill";
 import { buildWhatsAppBillMessage } from "@/utils/whatsappMessage";
 import { saveAs } from "file-saver";
 import { CustomerBillsHeader } from "./CustomerBillsHeader";
-import { Download, MessageCircle, Trash2 } from "lucide-react";
+import { Download, MessageCircle, Trash2, AlertTriangle, FileCheck } from "lucide-react";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow, TableFooter } from '@/components/ui/table';
+import { useAuth } from '@/hooks/use-auth';
+import { verifyStaffRole } from '@/utils/staffAuth';
+import { DeliveryShift } from '@/utils/shifts';
+import { hasPermission } from '@/utils/permissions';
+import { CustomerPause, isDatePaused } from '@/utils/pauses';
 
 interface Customer {
   id: string;
@@ -21,9 +27,10 @@ interface Customer {
 
 interface DailyEntry {
   id: string;
-  time: string; // "Morning" or "Evening" or specific time
+  shift: DeliveryShift;
   milkQuantity: number;
   milkAmount: number;
+  pricePerLiter: number;
   milkType: string;
   grocery: { 
     items: Array<{name: string, price: number, description?: string}>;
@@ -41,12 +48,22 @@ interface MonthlyData {
   };
 }
 
+interface IssuedBill {
+  bill_number: string | null;
+  status: string;
+  month_total: number;
+  amount_due: number;
+  issued_at: string | null;
+}
+
 interface CustomerBillsProps {
   preSelectedCustomerId?: string;
   onViewRecords?: (customerId: string) => void;
 }
 
 const CustomerBills: React.FC<CustomerBillsProps> = ({ preSelectedCustomerId }) => {
+  const { user, profile } = useAuth();
+  const canClearBalance = hasPermission(profile?.role, 'clear_balances');
   const [customers, setCustomers] = useState<(Customer & { pendingAmount: number })[]>([]);
   const [selectedCustomer, setSelectedCustomer] = useState<string>(preSelectedCustomerId || '');
   const [selectedDate, setSelectedDate] = useState<Date>(() => {
@@ -60,6 +77,8 @@ const CustomerBills: React.FC<CustomerBillsProps> = ({ preSelectedCustomerId })
   const [pendingBalance, setPendingBalance] = useState(0);
   const [isUploadingPDF, setIsUploadingPDF] = useState(false);
   const [monthlyPayments, setMonthlyPayments] = useState(0);
+  const [pauses, setPauses] = useState<CustomerPause[]>([]);
+  const [issuedBill, setIssuedBill] = useState<IssuedBill | null>(null);
 
   const loadCustomerData = async () => {
     try {
@@ -94,103 +113,71 @@ const CustomerBills: React.FC<CustomerBillsProps> = ({ preSelectedCustomerId })
     }
   };
 
-  const loadMonthlyPayments = async () => {
+  // The balance brought forward into the selected month and what was paid during it, summed on the server
+  const loadMonthlyTotals = async () => {
     if (!selectedCustomer) {
+      setPendingBalance(0);
       setMonthlyPayments(0);
       return;
     }
     try {
-      const customer = customers.find(c => c.id === selectedCustomer);
-      if (!customer) {
-        setMonthlyPayments(0);
-        return;
-      }
-      const month = selectedDate.getMonth();
-      const year = selectedDate.getFullYear();
-      const startOfMonthStr = format(new Date(year, month, 1), 'yyyy-MM-dd');
-      const endOfMonthStr = format(new Date(year, month+1, 0), 'yyyy-MM-dd');
-
-      const { data: paymentsData, error: paymentsError } = await supabase
-        .from("payments")
-        .select("amount")
-        .eq("customer_name", customer.name)
-        .gte("payment_date", startOfMonthStr)
-        .lte("payment_date", endOfMonthStr);
-
-      if (paymentsError) throw paymentsError;
-      const total = paymentsData?.reduce((sum, p) => sum + Number(p.amount), 0) || 0;
-      setMonthlyPayments(total);
+      const balances = await loadBillBalances(selectedCustomer, selectedDate);
+      setPendingBalance(balances.pendingBalance);
+      setMonthlyPayments(balances.monthlyPayments);
     } catch (err) {
+      setPendingBalance(0);
       setMonthlyPayments(0);
-      console.error("Error loading payments for month:", err);
+      console.error("Error loading monthly totals:", err);
     }
   };
 
-  const loadPendingBalance = async () => {
+  // The bill already issued for this month, if any, so later edits to its figures don't go unnoticed
+  const loadIssuedBill = async () => {
     if (!selectedCustomer) {
-      setPendingBalance(0);
+      setIssuedBill(null);
       return;
     }
-    
     try {
-      const customer = customers.find(c => c.id === selectedCustomer);
-      if (!customer) {
-        setPendingBalance(0);
-        return;
-      }
+      const { data, error } = await supabase
+        .from("bills")
+        .select("bill_number, status, month_total, amount_due, issued_at")
+        .eq("customer_id", selectedCustomer)
+        .eq("period_start", format(startOfMonth(selectedDate), 'yyyy-MM-dd'))
+        .in("status", ["issued", "paid"])
+        .maybeSingle();
+
+      if (error) throw error;
+      setIssuedBill(data);
+    } catch (err) {
+      setIssuedBill(null);
+      console.error("Error loading issued bill:", err);
+    }
+  };
 
-      // Get the current balance from customer_balances table
-      const { data: balanceData, error: balanceError } = await supabase
-        .from('customer_balances')
-        .select('pending_amount')
-        .eq('customer_id', selectedCustomer)
-        .single();
-      
-      if (balanceError && balanceError.code !== 'PGRST116') {
-        console.error('Error loading balance:', balanceError);
-        setPendingBalance(0);
-        return;
-      }
-      
-      const currentBalance = balanceData?.pending_amount || 0;
-      
-      // Get current month's deliveries and payments to calculate previous balance
-      const currentMonthStart = format(startOfMonth(selectedDate), 'yyyy-MM-dd');
-      
-      const { data: currentMonthDeliveries, error: deliveryError } = await supabase
-        .from('delivery_records')
-        .select('total_amount')
-        .eq('customer_id', selectedCustomer)
-        .gte('delivery_date', currentMonthStart);
-      
-      if (deliveryError) {
-        console.error('Error loading deliveries:', deliveryError);
-        setPendingBalance(Math.max(0, currentBalance));
-        return;
-      }
-      
-      const { data: currentMonthPayments, error: paymentsError } = await supabase
-        .from('payments')
-        .select('amount')
-        .eq('customer_name', customer.name)
-        .gte('payment_date', currentMonthStart);
-      
-      if (paymentsError) {
-        console.error('Error loading payments:', paymentsError);
-        setPendingBalance(Math.max(0, currentBalance));
-        return;
-      }
-      
-      const currentMonthDeliveryTotal = currentMonthDeliveries?.reduce((sum, record) => sum + Number(record.total_amount), 0) || 0;
-      const currentMonthPaymentTotal = currentMonthPayments?.reduce((sum, payment) => sum + Number(payment.amount), 0) || 0;
-      
-      // Previous balance = Current balance - current month deliveries + current month payments
-      const previousBalance = Math.max(0, currentBalance - currentMonthDeliveryTotal + currentMonthPaymentTotal);
-      
-      setPendingBalance(previousBalance);
-    } catch (error) {
-      console.error('Error loading pending balance:', error);
-      setPendingBalance(0);
+  const loadMonthlyPauses = async () => {
+    if (!selectedCustomer) {
+      setPauses([]);
+      return;
+    }
+    try {
+      const month = selectedDate.getMonth();
+      const year = selectedDate.getFullYear();
+      const startOfMonthStr = format(new Date(year, month, 1), 'yyyy-MM-dd');
+      const endOfMonthStr = format(new Date(year, month+1, 0), 'yyyy-MM-dd');
+
+      // Any pause overlapping the month
+      const { data, error } = await supabase
+        .from("customer_pauses")
+        .select("id, customer_id, start_date, end_date, reason")
+        .eq("customer_id", selectedCustomer)
+        .lte("start_date", endOfMonthStr)
+        .gte("end_date", startOfMonthStr);
+
+      if (error) throw error;
+      setPauses(data || []);
+    } catch (err) {
+      setPauses([]);
+      console.error("Error loading pauses for month:", err);
     }
   };
 
@@ -203,113 +190,7 @@ const CustomerBills: React.FC<CustomerBillsProps> = ({ preSelectedCustomerId })
 
     try {
       setIsLoading(true);
-      
-      const year = selectedDate.getFullYear();
-      const month = selectedDate.getMonth();
-      const startDate = format(new Date(year, month, 1), 'yyyy-MM-dd');
-      const endDate = format(new Date(year, month + 1, 0), 'yyyy-MM-dd');
-
-      console.log('Loading data for:', { 
-        selectedCustomer, 
-        selectedDateFormatted: format(selectedDate, 'MMMM yyyy'),
-        startDate, 
-        endDate 
-      });
-
-      const { data: deliveryData, error: deliveryError } = await supabase
-        .from('delivery_records')
-        .select(`
-          id,
-          delivery_date,
-          notes,
-          quantity,
-          total_amount,
-          price_per_liter,
-          milk_types(name)
-        `)
-        .eq('customer_id', selectedCustomer)
-        .gte('delivery_date', startDate)
-        .lte('delivery_date', endDate)
-        .order('delivery_date');
-
-      if (deliveryError) throw deliveryError;
-
-      console.log('Delivery data loaded:', deliveryData);
-
-      const { data: groceryData, error: groceryError } = await supabase
-        .from('grocery_items')
-        .select(`
-          name,
-          price,
-          description,
-          delivery_records!inner(id, delivery_date, customer_id)
-        `)
-        .eq('delivery_records.customer_id', selectedCustomer)
-        .gte('delivery_records.delivery_date', startDate)
-        .lte('delivery_records.delivery_date', endDate);
-
-      if (groceryError) throw groceryError;
-
-      console.log('Grocery data loaded:', groceryData);
-
-      const monthData: MonthlyData = {};
-
-      deliveryData?.forEach(record => {
-        const date = record.delivery_date;
-        const entryTime = record.notes?.toLowerCase().includes('evening') ? 'Evening' : 'Morning';
-        const milkQuantity = record.quantity;
-        const milkAmount = record.quantity * record.price_per_liter;
-        
-        console.log('Processing delivery record:', { date, entryTime, milkQuantity, milkAmount });
-        
-        if (!monthData[date]) {
-          monthData[date] = {
-            entries: [],
-            totalMilkQuantity: 0,
-            totalMilkAmount: 0,
-            totalGroceryAmount: 0,
-            hasDelivery: true
-          };
-        }
-
-        monthData[date].entries.push({
-          id: record.id,
-          time: entryTime,
-          milkQuantity: milkQuantity,
-          milkAmount: milkAmount,
-          milkType: record.milk_types?.name || 'Unknown',
-          grocery: {
-            items: [],
-            total: 0
-          }
-        });
-
-        monthData[date].totalMilkQuantity += milkQuantity;
-        monthData[date].totalMilkAmount += milkAmount;
-      });
-
-      groceryData?.forEach(item => {
-        const deliveryId = (item as any).delivery_records.id;
-        const deliveryDate = (item as any).delivery_records.delivery_date;
-        
-        if (monthData[deliveryDate]) {
-          const entry = monthData[deliveryDate].entries.find(e => e.id === deliveryId);
-          
-          if (entry) {
-            entry.grocery.items.push({
-              name: item.name,
-              price: item.price,
-              description: item.description || ''
-            });
-            entry.grocery.total += item.price;
-            
-            monthData[deliveryDate].totalGroceryAmount += item.price;
-          }
-        }
-      });
-
-      console.log('Final monthly data:', monthData);
-      setMonthlyData(monthData);
+      setMonthlyData(await loadBillMonthlyData(selectedCustomer, selectedDate));
     } catch (error) {
       console.error('Error loading monthly data:', error);
       toast({
@@ -335,17 +216,19 @@ const CustomerBills: React.FC<CustomerBillsProps> = ({ preSelectedCustomerId })
   useEffect(() => {
     if (selectedCustomer) {
       console.log('Customer or date changed, reloading data for:', selectedCustomer);
-      loadPendingBalance();
-      loadMonthlyPayments();
+      loadMonthlyTotals();
+      loadMonthlyPauses();
+      loadIssuedBill();
       loadMonthlyData();
     }
   }, [selectedCustomer, selectedDate, customers]);
 
   const handleClearPayment = async () => {
-    if (password !== '123') {
+    const verification = await verifyStaffRole({ password, allowedRoles: ['owner'] });
+    if (verification.ok === false) {
       toast({
         title: "Error",
-        description: "Incorrect password",
+        description: verification.reason,
         variant: "destructive"
       });
       setPassword('');
@@ -360,11 +243,11 @@ const CustomerBills: React.FC<CustomerBillsProps> = ({ preSelectedCustomerId })
         const { error: paymentError } = await supabase
           .from('payments')
           .insert({
-            customer_name: customer.name,
+            customer_id: customer.id,
             amount: pendingBalance,
             payment_method: 'Balance Clear',
             payment_date: format(new Date(), 'yyyy-MM-dd'),
-            notes: 'Cleared through admin'
+            notes: `Cleared by ${profile?.full_name || user?.email}`
           });
 
         if (paymentError) throw paymentError;
@@ -386,8 +269,7 @@ const CustomerBills: React.FC<CustomerBillsProps> = ({ preSelectedCustomerId })
       setPassword('');
       
       // Reload data after clearing
-      loadPendingBalance();
-      loadMonthlyPayments();
+      loadMonthlyTotals();
     } catch (error) {
       console.error('Error clearing balance:', error);
       toast({
@@ -459,21 +341,6 @@ const CustomerBills: React.FC<CustomerBillsProps> = ({ preSelectedCustomerId })
     }
   };
 
-  const computeSummaryValues = () => {
-    let totalMilk = 0;
-    let totalGroceryAmount = 0;
-    let totalMilkAmount = 0;
-    Object.values(monthlyData).forEach(day => {
-      totalMilk += day.totalMilkQuantity;
-      totalGroceryAmount += day.totalGroceryAmount;
-      totalMilkAmount += day.totalMilkAmount;
-    });
-    const totalMonthlyAmount = totalMilkAmount + totalGroceryAmount;
-    const grandTotal = totalMonthlyAmount + pendingBalance;
-    const pendingAfterPayment = Math.max(0, grandTotal - monthlyPayments);
-    return { totalMilk, totalMilkAmount, totalGroceryAmount, totalMonthlyAmount, grandTotal, pendingAfterPayment };
-  };
-
   const {
     totalMilk,
     totalMilkAmount,
@@ -481,7 +348,7 @@ const CustomerBills: React.FC<CustomerBillsProps> = ({ preSelectedCustomerId })
     totalMonthlyAmount,
     grandTotal,
     pendingAfterPayment
-  } = computeSummaryValues();
+  } = summarizeBill(monthlyData, pendingBalance, monthlyPayments);
 
   const buildTableRows = () => {
     const daysInMonth = getDaysInMonth(selectedDate);
@@ -510,7 +377,7 @@ const CustomerBills: React.FC<CustomerBillsProps> = ({ preSelectedCustomerId })
       const rightDay = rightColumnDays[i];
       
       const getDataForDay = (day: number | undefined) => {
-        if (!day) return { morning: '', evening: '', grocery: '' };
+        if (!day) return { morning: '', evening: '', grocery: '', paused: false };
         
         const year = selectedDate.getFullYear();
         const month = selectedDate.getMonth();
@@ -521,7 +388,11 @@ const CustomerBills: React.FC<CustomerBillsProps> = ({ preSelectedCustomerId })
         console.log(`Day ${day} (${dateStr}):`, dayData ? 'has data' : 'no data');
         
         if (!dayData || !dayData.hasDelivery) {
-          return { morning: '', evening: '', grocery: '' };
+          // Paused days read differently from days that were simply missed
+          if (isDatePaused(pauses, dateStr)) {
+            return { morning: 'Paused', evening: 'Paused', grocery: '', paused: true };
+          }
+          return { morning: '', evening: '', grocery: '', paused: false };
         }
         
         let morningQty = 0;
@@ -529,9 +400,7 @@ const CustomerBills: React.FC<CustomerBillsProps> = ({ preSelectedCustomerId })
         let groceryTotal = 0;
         
         dayData.entries.forEach(entry => {
-          if (entry.time.toLowerCase().includes('morning')) {
-            morningQty += entry.milkQuantity;
-          } else if (entry.time.toLowerCase().includes('evening')) {
+          if (entry.shift === 'evening') {
             eveningQty += entry.milkQuantity;
           } else {
             morningQty += entry.milkQuantity;
@@ -543,7 +412,7 @@ const CustomerBills: React.FC<CustomerBillsProps> = ({ preSelectedCustomerId })
         const eveningDisplay = eveningQty > 0 ? `${eveningQty.toFixed(1)}L` : '';
         const groceryDisplay = groceryTotal > 0 ? `₹${groceryTotal.toFixed(0)}` : '';
         
-        return { morning: morningDisplay, evening: eveningDisplay, grocery: groceryDisplay };
+        return { morning: morningDisplay, evening: eveningDisplay, grocery: groceryDisplay, paused: false };
       };
 
       const leftData = getDataForDay(leftDay);
@@ -554,10 +423,10 @@ const CustomerBills: React.FC<CustomerBillsProps> = ({ preSelectedCustomerId })
           <TableCell className="text-center text-xs sm:text-sm font-medium p-1 sm:p-2 w-8 sm:w-12 border-r">
             {leftDay || ''}
           </TableCell>
-          <TableCell className="text-center text-xs p-1 w-12 sm:w-16 border-r text-blue-600">
+          <TableCell className={`text-center text-xs p-1 w-12 sm:w-16 border-r ${leftData.paused ? 'text-gray-400 italic bg-gray-50' : 'text-blue-600'}`}>
             {leftData.morning}
           </TableCell>
-          <TableCell className="text-center text-xs p-1 w-12 sm:w-16 border-r text-purple-600">
+          <TableCell className={`text-center text-xs p-1 w-12 sm:w-16 border-r ${leftData.paused ? 'text-gray-400 italic bg-gray-50' : 'text-purple-600'}`}>
             {leftData.evening}
           </TableCell>
           <TableCell className="text-center text-xs p-1 w-14 sm:w-20 border-r text-green-600">
@@ -566,10 +435,10 @@ const CustomerBills: React.FC<CustomerBillsProps> = ({ preSelectedCustomerId })
           <TableCell className="text-center text-xs sm:text-sm font-medium p-1 sm:p-2 w-8 sm:w-12 border-r">
             {rightDay || ''}
           </TableCell>
-          <TableCell className="text-center text-xs p-1 w-12 sm:w-16 border-r text-blue-600">
+          <TableCell className={`text-center text-xs p-1 w-12 sm:w-16 border-r ${rightData.paused ? 'text-gray-400 italic bg-gray-50' : 'text-blue-600'}`}>
             {rightData.morning}
           </TableCell>
-          <TableCell className="text-center text-xs p-1 w-12 sm:w-16 border-r text-purple-600">
+          <TableCell className={`text-center text-xs p-1 w-12 sm:w-16 border-r ${rightData.paused ? 'text-gray-400 italic bg-gray-50' : 'text-purple-600'}`}>
             {rightData.evening}
           </TableCell>
           <TableCell className="text-center text-xs p-1 w-14 sm:w-20 text-green-600">
@@ -636,9 +505,27 @@ const CustomerBills: React.FC<CustomerBillsProps> = ({ preSelectedCustomerId })
             setPassword={setPassword}
             pendingBalance={pendingBalance}
             handleClearPayment={handleClearPayment}
+            canClearBalance={canClearBalance}
           />
         </Card>
 
+        {selectedCustomer && issuedBill && (
+          Math.abs(Number(issuedBill.amount_due) - pendingAfterPayment) >= 0.005
+            || Math.abs(Number(issuedBill.month_total) - totalMonthlyAmount) >= 0.005 ? (
+            <div className="flex items-center rounded-md border border-amber-200 bg-amber-50 px-3 py-2 mb-2 sm:mb-4 text-sm text-amber-800">
+              <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />
+              Bill {issuedBill.bill_number} was issued with ₹{Number(issuedBill.amount_due).toFixed(2)} due. Deliveries or payments
+              have changed since; reissue it from Bills to send the corrected figures.
+            </div>
+          ) : (
+            <div className="flex items-center rounded-md border border-blue-200 bg-blue-50 px-3 py-2 mb-2 sm:mb-4 text-sm text-blue-800">
+              <FileCheck className="h-4 w-4 mr-2 flex-shrink-0" />
+              Bill {issuedBill.bill_number} issued{issuedBill.issued_at && ` on ${format(new Date(issuedBill.issued_at), 'dd/MM/yyyy')}`}
+              {issuedBill.status === 'paid' && ' and paid'}
+            </div>
+          )
+        )}
+
         {/* Main Bill Card */}
         {selectedCustomer && (
           <Card className="bg-white shadow-sm rounded-lg border border-gray-200 mb-4">
@@ -780,15 +667,17 @@ const CustomerBills: React.FC<CustomerBillsProps> = ({ preSelectedCustomerId })
               <MessageCircle className="w-5 h-5 mr-2" />
               WhatsApp
             </Button>
-            <Button
-              size="lg"
-              variant="destructive"
-              className="flex-1 rounded-lg text-sm h-12 font-medium"
-              onClick={() => setClearPasswordDialog(true)}
-            >
-              <Trash2 className="w-5 h-5 mr-2" />
-              Clear
-            </Button>
+            {canClearBalance && (
+              <Button
+                size="lg"
+                variant="destructive"
+                className="flex-1 rounded-lg text-sm h-12 font-medium"
+                onClick={() => setClearPasswordDialog(true)}
+              >
+                <Trash2 className="w-5 h-5 mr-2" />
+                Clear
+              </Button>
+            )}
           </div>
         </div>
       )}
@@ -13,6 +13,8 @@ import { generatePDFBlob, uploadPdfAndGetUrl, BillCustomer, BillMonthlyData } fr
 import { buildWhatsAppBillMessage } from "@/utils/whatsappMessage";
 import { saveAs } from "file-saver";
 import { Button } from '@/components/ui/button';
+import { DeliveryShift } from '@/utils/shifts';
+import { CustomerPause, isDatePaused } from '@/utils/pauses';
 
 // Ensure Customer includes address (as in DB/table)
 interface Customer {
@@ -41,7 +43,7 @@ interface DeliveryRecord {
 
 interface DailyEntry {
   id: string;
-  time: string; // "Morning" or "Evening" or specific time
+  shift: DeliveryShift;
   milkQuantity: number;
   milkAmount: number;
   milkType: string;
@@ -67,9 +69,10 @@ interface CustomerBillsCalendarGridProps {
   customers: Customer[];
   selectedCustomer: string;
   pendingBalance: number;
+  pauses?: Pick<CustomerPause, 'start_date' | 'end_date'>[];
 }
 
-export const CustomerBillsCalendarGrid = ({ selectedDate, monthlyData, customers, selectedCustomer, pendingBalance }: CustomerBillsCalendarGridProps) => {
+export const CustomerBillsCalendarGrid = ({ selectedDate, monthlyData, customers, selectedCustomer, pendingBalance, pauses = [] }: CustomerBillsCalendarGridProps) => {
   const daysInMonth = getDaysInMonth(selectedDate);
   const firstDayOfMonth = startOfMonth(selectedDate);
   const firstDayOfWeek = firstDayOfMonth.getDay(); // 0 (Sunday) to 6 (Saturday)
@@ -86,6 +89,11 @@ export const CustomerBillsCalendarGrid = ({ selectedDate, monthlyData, customers
     };
   };
 
+  const getShiftQuantity = (entries: DailyEntry[], shift: DeliveryShift) =>
+    entries.filter(entry => entry.shift === shift).reduce((sum, entry) => sum + entry.milkQuantity, 0);
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+
   const renderCalendarDays = () => {
     const totalCells = daysInMonth + monthStartPadding;
     const calendarDays = [];
@@ -94,17 +102,26 @@ export const CustomerBillsCalendarGrid = ({ selectedDate, monthlyData, customers
       const day = i - monthStartPadding;
       const date = format(addDays(firstDayOfMonth, day - 1), 'yyyy-MM-dd');
       const dayData = day > 0 && day <= daysInMonth ? getDayData(day) : null;
+      const isPaused = !!dayData && !dayData.hasDelivery && isDatePaused(pauses, date);
+      const isMissed = !!dayData && !dayData.hasDelivery && !isPaused && date < today;
 
       calendarDays.push(
-        <td key={i} className="px-2 py-2">
+        <td key={i} className={cn("px-2 py-2", isPaused && "bg-gray-100", isMissed && "bg-red-50")}>
           {day > 0 && day <= daysInMonth ? (
             <div className="flex flex-col items-center">
               <span className="text-sm font-medium">{day}</span>
-              {dayData?.hasDelivery && (
-                <span className="text-xs text-blue-500">
-                  {dayData.totalMilkQuantity} L
+              {dayData?.hasDelivery && getShiftQuantity(dayData.entries, 'morning') > 0 && (
+                <span className="text-xs text-blue-600">
+                  M {getShiftQuantity(dayData.entries, 'morning')} L
+                </span>
+              )}
+              {dayData?.hasDelivery && getShiftQuantity(dayData.entries, 'evening') > 0 && (
+                <span className="text-xs text-purple-600">
+                  E {getShiftQuantity(dayData.entries, 'evening')} L
                 </span>
               )}
+              {isPaused && <span className="text-xs italic text-gray-400">Paused</span>}
+              {isMissed && <span className="text-xs text-red-400">-</span>}
             </div>
           ) : null}
         </td>
@@ -33,6 +33,7 @@ interface Props {
   setPassword: (v: string) => void;
   pendingBalance: number;
   handleClearPayment: () => void;
+  canClearBalance: boolean;
 }
 
 export const CustomerBillsHeader: React.FC<Props> = ({
@@ -50,7 +51,8 @@ export const CustomerBillsHeader: React.FC<Props> = ({
   password,
   setPassword,
   pendingBalance,
-  handleClearPayment
+  handleClearPayment,
+  canClearBalance
 }) => {
   return (
     <div className="space-y-3 sm:space-y-4">
@@ -100,7 +102,7 @@ export const CustomerBillsHeader: React.FC<Props> = ({
       </div>
       
       {/* Action Buttons Row - Desktop only */}
-      <div className="hidden sm:grid sm:grid-cols-3 gap-3 sm:gap-4">
+      <div className={`hidden sm:grid ${canClearBalance ? 'sm:grid-cols-3' : 'sm:grid-cols-2'} gap-3 sm:gap-4`}>
         <Button
           onClick={generatePDF}
           disabled={!selectedCustomer || isLoading}
@@ -124,55 +126,57 @@ export const CustomerBillsHeader: React.FC<Props> = ({
           <MessageCircle className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
           <span className="hidden lg:inline">Send </span>WhatsApp
         </Button>
-        <Dialog open={clearPasswordDialog} onOpenChange={setClearPasswordDialog}>
-          <DialogTrigger asChild>
-            <Button
-              variant="destructive"
-              disabled={!selectedCustomer || isLoading || pendingBalance <= 0}
-              className="w-full flex items-center justify-center text-xs sm:text-sm h-10"
-            >
-              <Trash2 className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
-              <span className="hidden lg:inline">Clear </span>Balance
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="w-[90vw] sm:w-full max-w-md">
-            <DialogHeader>
-              <DialogTitle className="text-sm sm:text-base">Clear Outstanding Balance</DialogTitle>
-            </DialogHeader>
-            <div className="space-y-4">
-              <p className="text-xs sm:text-sm text-gray-600">
-                This will clear the outstanding balance of ₹{pendingBalance.toFixed(2)} for this customer by recording a payment. Enter password to confirm:
-              </p>
-              <Input
-                type="password"
-                placeholder="Enter password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                onKeyPress={(e) => {
-                  if (e.key === 'Enter') {
-                    handleClearPayment();
-                  }
-                }}
-                className="text-sm"
-              />
-              <div className="flex gap-2">
-                <Button onClick={handleClearPayment} variant="destructive" className="flex-1 text-sm h-10">
-                  Clear Balance
-                </Button>
-                <Button
-                  onClick={() => {
-                    setClearPasswordDialog(false);
-                    setPassword('');
+        {canClearBalance && (
+          <Dialog open={clearPasswordDialog} onOpenChange={setClearPasswordDialog}>
+            <DialogTrigger asChild>
+              <Button
+                variant="destructive"
+                disabled={!selectedCustomer || isLoading || pendingBalance <= 0}
+                className="w-full flex items-center justify-center text-xs sm:text-sm h-10"
+              >
+                <Trash2 className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
+                <span className="hidden lg:inline">Clear </span>Balance
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="w-[90vw] sm:w-full max-w-md">
+              <DialogHeader>
+                <DialogTitle className="text-sm sm:text-base">Clear Outstanding Balance</DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4">
+                <p className="text-xs sm:text-sm text-gray-600">
+                  This will clear the outstanding balance of ₹{pendingBalance.toFixed(2)} for this customer by recording a payment. Enter your account password to confirm:
+                </p>
+                <Input
+                  type="password"
+                  placeholder="Enter your password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  onKeyPress={(e) => {
+                    if (e.key === 'Enter') {
+                      handleClearPayment();
+                    }
                   }}
-                  variant="outline"
-                  className="flex-1 text-sm h-10"
-                >
-                  Cancel
-                </Button>
+                  className="text-sm"
+                />
+                <div className="flex gap-2">
+                  <Button onClick={handleClearPayment} variant="destructive" className="flex-1 text-sm h-10">
+                    Clear Balance
+                  </Button>
+                  <Button
+                    onClick={() => {
+                      setClearPasswordDialog(false);
+                      setPassword('');
+                    }}
+                    variant="outline"
+                    className="flex-1 text-sm h-10"
+                  >
+                    Cancel
+                  </Button>
+                </div>
               </div>
-            </div>
-          </DialogContent>
-        </Dialog>
+            </DialogContent>
+          </Dialog>
+        )}
       </div>
     </div>
   );
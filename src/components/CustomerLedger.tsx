@@ -0,0 +1,290 @@
+import React, { useState, useEffect } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow, TableFooter } from '@/components/ui/table';
+import { Download, FileText, CheckCircle, AlertTriangle } from 'lucide-react';
+import { format, startOfMonth, subMonths } from 'date-fns';
+import { toast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { loadCustomerLedger, LedgerStatement, LedgerEntryType } from '@/utils/customerLedger';
+import { generateCustomerLedgerPDF, generateCustomerLedgerCSV } from '@/utils/generate-customer-ledger';
+
+interface Customer {
+  id: string;
+  name: string;
+  address: string | null;
+  phone_number: string | null;
+}
+
+interface CustomerLedgerProps {
+  preSelectedCustomerId?: string;
+}
+
+const ENTRY_TYPE_STYLES: Record<LedgerEntryType, string> = {
+  delivery: 'bg-blue-50 text-blue-800',
+  grocery: 'bg-purple-50 text-purple-800',
+  payment: 'bg-green-50 text-green-800',
+};
+
+const formatDate = (date: string) => format(new Date(`${date}T00:00:00`), 'dd/MM/yyyy');
+
+// Differences below a paisa are rounding, not a missing entry
+const BALANCE_TOLERANCE = 0.005;
+
+// Statement of everything charged to and paid by one customer, oldest first, with the balance after each line
+export const CustomerLedger = ({ preSelectedCustomerId }: CustomerLedgerProps) => {
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [selectedCustomer, setSelectedCustomer] = useState(preSelectedCustomerId || '');
+  const [fromDate, setFromDate] = useState(format(startOfMonth(subMonths(new Date(), 2)), 'yyyy-MM-dd'));
+  const [toDate, setToDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [ledger, setLedger] = useState<LedgerStatement | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    loadCustomers();
+  }, []);
+
+  useEffect(() => {
+    if (preSelectedCustomerId) {
+      setSelectedCustomer(preSelectedCustomerId);
+    }
+  }, [preSelectedCustomerId]);
+
+  useEffect(() => {
+    if (selectedCustomer) {
+      loadLedger();
+    } else {
+      setLedger(null);
+    }
+  }, [selectedCustomer]);
+
+  const loadCustomers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('customers')
+        .select('id, name, address, phone_number')
+        .order('name');
+
+      if (error) throw error;
+      setCustomers(data || []);
+    } catch (error) {
+      console.error('Error loading customers:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load customers",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const loadLedger = async () => {
+    if (!selectedCustomer || !fromDate || !toDate) return;
+    if (fromDate > toDate) {
+      toast({
+        title: "Error",
+        description: "The start date must be on or before the end date",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setLedger(await loadCustomerLedger(selectedCustomer, fromDate, toDate));
+    } catch (error) {
+      console.error('Error loading customer ledger:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load ledger",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const customer = customers.find(c => c.id === selectedCustomer);
+
+  // The all-time balance from the ledger should be what the balance triggers have recorded for the customer
+  const renderReconciliation = () => {
+    if (!ledger) return null;
+
+    if (ledger.recordedBalance === null) {
+      return (
+        <div className="flex items-center rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+          <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />
+          No balance is recorded for this customer yet. Ledger balance today: ₹{ledger.ledgerBalance.toFixed(2)}
+        </div>
+      );
+    }
+
+    const difference = ledger.recordedBalance - ledger.ledgerBalance;
+    if (Math.abs(difference) < BALANCE_TOLERANCE) {
+      return (
+        <div className="flex items-center rounded-md border border-green-200 bg-green-50 px-3 py-2 text-sm text-green-800">
+          <CheckCircle className="h-4 w-4 mr-2 flex-shrink-0" />
+          Matches the recorded pending balance of ₹{ledger.recordedBalance.toFixed(2)}
+          {Math.abs(ledger.ledgerBalance - ledger.closingBalance) >= BALANCE_TOLERANCE && ' (includes entries after the end date)'}
+        </div>
+      );
+    }
+
+    return (
+      <div className="flex items-center rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-800">
+        <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />
+        Recorded pending balance ₹{ledger.recordedBalance.toFixed(2)} differs from the ledger's ₹{ledger.ledgerBalance.toFixed(2)} by ₹{Math.abs(difference).toFixed(2)}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-2">
+        <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Customer Ledger</h2>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => ledger && customer && generateCustomerLedgerPDF(ledger, customer, fromDate, toDate)}
+            disabled={!ledger || !customer || isLoading}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            PDF
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => ledger && customer && generateCustomerLedgerCSV(ledger, customer, fromDate, toDate)}
+            disabled={!ledger || !customer || isLoading}
+          >
+            <FileText className="h-4 w-4 mr-2" />
+            CSV
+          </Button>
+        </div>
+      </div>
+
+      <Card className="p-4">
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
+          <div className="sm:col-span-2">
+            <Label htmlFor="ledgerCustomer">Customer</Label>
+            <select
+              id="ledgerCustomer"
+              value={selectedCustomer}
+              onChange={(e) => setSelectedCustomer(e.target.value)}
+              className="w-full rounded-md border border-gray-200 px-3 py-2 shadow-sm focus:border-blue-500 focus:ring-blue-500 disabled:cursor-not-allowed"
+              disabled={isLoading}
+            >
+              <option value="">Select customer</option>
+              {customers.map(c => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <Label htmlFor="ledgerFrom">From</Label>
+            <Input
+              id="ledgerFrom"
+              type="date"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              disabled={isLoading}
+            />
+          </div>
+          <div>
+            <Label htmlFor="ledgerTo">To</Label>
+            <Input
+              id="ledgerTo"
+              type="date"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+              disabled={isLoading}
+            />
+          </div>
+        </div>
+        <div className="flex justify-end mt-3">
+          <Button onClick={loadLedger} disabled={isLoading || !selectedCustomer || !fromDate || !toDate}>
+            {isLoading ? 'Loading...' : 'Show Ledger'}
+          </Button>
+        </div>
+      </Card>
+
+      {!selectedCustomer ? (
+        <p className="text-center py-8 text-gray-500">Select a customer to see their ledger</p>
+      ) : ledger && (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 sm:gap-4 text-center">
+            <div className="bg-gray-50 p-2 sm:p-3 rounded">
+              <p className="text-xs text-gray-600">Opening Balance</p>
+              <p className="text-sm sm:text-lg font-bold text-gray-900">₹{ledger.openingBalance.toFixed(2)}</p>
+            </div>
+            <div className="bg-blue-50 p-2 sm:p-3 rounded">
+              <p className="text-xs text-gray-600">Charged</p>
+              <p className="text-sm sm:text-lg font-bold text-blue-600">₹{ledger.totalDebit.toFixed(2)}</p>
+            </div>
+            <div className="bg-green-50 p-2 sm:p-3 rounded">
+              <p className="text-xs text-gray-600">Paid</p>
+              <p className="text-sm sm:text-lg font-bold text-green-600">₹{ledger.totalCredit.toFixed(2)}</p>
+            </div>
+            <div className="bg-yellow-50 p-2 sm:p-3 rounded border-2 border-yellow-400">
+              <p className="text-xs text-gray-600">Closing Balance</p>
+              <p className="text-sm sm:text-lg font-bold text-orange-600">₹{ledger.closingBalance.toFixed(2)}</p>
+            </div>
+          </div>
+
+          {renderReconciliation()}
+
+          <Card className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Details</TableHead>
+                  <TableHead className="text-right">Debit</TableHead>
+                  <TableHead className="text-right">Credit</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                <TableRow className="bg-gray-50">
+                  <TableCell className="whitespace-nowrap">{formatDate(fromDate)}</TableCell>
+                  <TableCell className="font-medium">Opening balance</TableCell>
+                  <TableCell />
+                  <TableCell />
+                  <TableCell className="text-right font-medium">₹{ledger.openingBalance.toFixed(2)}</TableCell>
+                </TableRow>
+                {ledger.entries.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center py-6 text-gray-500">
+                      No deliveries or payments in this period
+                    </TableCell>
+                  </TableRow>
+                ) : ledger.entries.map(entry => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap">{formatDate(entry.date)}</TableCell>
+                    <TableCell>
+                      <span className={`inline-block rounded px-2 py-0.5 text-sm ${ENTRY_TYPE_STYLES[entry.type]}`}>
+                        {entry.description}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-right">{entry.debit ? `₹${entry.debit.toFixed(2)}` : ''}</TableCell>
+                    <TableCell className="text-right text-green-700">{entry.credit ? `₹${entry.credit.toFixed(2)}` : ''}</TableCell>
+                    <TableCell className="text-right font-medium">₹{entry.balance.toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell className="whitespace-nowrap">{formatDate(toDate)}</TableCell>
+                  <TableCell>Closing balance</TableCell>
+                  <TableCell className="text-right">₹{ledger.totalDebit.toFixed(2)}</TableCell>
+                  <TableCell className="text-right">₹{ledger.totalCredit.toFixed(2)}</TableCell>
+                  <TableCell className="text-right">₹{ledger.closingBalance.toFixed(2)}</TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
@@ -6,9 +6,12 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { Plus, Search, Edit, Trash2, Eye, MessageCircle } from 'lucide-react';
+import { Plus, Search, Edit, Trash2, Eye, History, MessageCircle, IndianRupee } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/use-auth';
+import { hasPermission } from '@/utils/permissions';
+import { CustomerRatesDialog } from './CustomerRatesDialog';
 
 interface Customer {
   id: string;
@@ -20,13 +23,19 @@ interface Customer {
 
 interface CustomerManagementProps {
   onViewRecords?: (customerId: string) => void;
+  onViewAuditLog?: (customerId: string) => void;
 }
 
-export const CustomerManagement = ({ onViewRecords }: CustomerManagementProps) => {
+export const CustomerManagement = ({ onViewRecords, onViewAuditLog }: CustomerManagementProps) => {
+  const { profile } = useAuth();
+  const canManageCustomers = hasPermission(profile?.role, 'manage_customers');
+  const canDeleteCustomers = hasPermission(profile?.role, 'delete_customers');
+  const canManageRates = hasPermission(profile?.role, 'manage_customer_rates');
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
+  const [ratesCustomer, setRatesCustomer] = useState<Customer | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [formData, setFormData] = useState({
     name: '',
@@ -170,6 +179,16 @@ export const CustomerManagement = ({ onViewRecords }: CustomerManagementProps) =
   };
 
   const handleDelete = async (customerId: string) => {
+    if (!canDeleteCustomers) {
+      toast({
+        title: "Error",
+        description: "Only the owner can delete customers",
+        variant: "destructive",
+        duration: 2000
+      });
+      return;
+    }
+
     if (!confirm('Are you sure you want to delete this customer? This will also delete all their delivery records and payments.')) {
       return;
     }
@@ -177,15 +196,6 @@ export const CustomerManagement = ({ onViewRecords }: CustomerManagementProps) =
     try {
       setIsLoading(true);
       
-      // First, get the customer name for deletion of related records
-      const { data: customerData, error: customerFetchError } = await supabase
-        .from('customers')
-        .select('name')
-        .eq('id', customerId)
-        .single();
-
-      if (customerFetchError) throw customerFetchError;
-
       // Delete related records in the correct order
       
       // 1. Delete grocery items for this customer's delivery records
@@ -210,11 +220,11 @@ export const CustomerManagement = ({ onViewRecords }: CustomerManagementProps) =
 
       if (deliveryError) console.error('Error deleting delivery records:', deliveryError);
 
-      // 3. Delete payments by customer name
+      // 3. Delete payments
       const { error: paymentsError } = await supabase
         .from('payments')
         .delete()
-        .eq('customer_name', customerData.name);
+        .eq('customer_id', customerId);
 
       if (paymentsError) console.error('Error deleting payments:', paymentsError);
 
@@ -289,12 +299,14 @@ export const CustomerManagement = ({ onViewRecords }: CustomerManagementProps) =
         <h2 className="text-xl sm:text-3xl font-bold text-gray-900">Customer Management</h2>
         
         <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
-          <DialogTrigger asChild>
-            <Button className="bg-blue-600 hover:bg-blue-700" disabled={isLoading}>
-              <Plus className="h-4 w-4 mr-2" />
-              Add Customer
-            </Button>
-          </DialogTrigger>
+          {canManageCustomers && (
+            <DialogTrigger asChild>
+              <Button className="bg-blue-600 hover:bg-blue-700" disabled={isLoading}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Customer
+              </Button>
+            </DialogTrigger>
+          )}
           <DialogContent className="sm:max-w-md">
             <DialogHeader>
               <DialogTitle>
@@ -430,11 +442,23 @@ export const CustomerManagement = ({ onViewRecords }: CustomerManagementProps) =
                             onClick={() => onViewRecords(customer.id)}
                             className="text-green-600 hover:text-green-900"
                             disabled={isLoading}
-                            title="View Records"
+                            title="View Ledger"
                           >
                             <Eye className="h-4 w-4" />
                           </Button>
                         )}
+                        {onViewAuditLog && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => onViewAuditLog(customer.id)}
+                            className="text-gray-600 hover:text-gray-900"
+                            disabled={isLoading}
+                            title="View Change History"
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
+                        )}
                         {customer.phone_number && (
                           <Button
                             variant="ghost"
@@ -447,26 +471,42 @@ export const CustomerManagement = ({ onViewRecords }: CustomerManagementProps) =
                             <MessageCircle className="h-4 w-4" />
                           </Button>
                         )}
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleEdit(customer)}
-                          className="text-blue-600 hover:text-blue-900"
-                          disabled={isLoading}
-                          title="Edit Customer"
-                        >
-                          <Edit className="h-4 w-4" />
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleDelete(customer.id)}
-                          className="text-red-600 hover:text-red-900"
-                          disabled={isLoading}
-                          title="Delete Customer"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
+                        {canManageCustomers && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleEdit(customer)}
+                            className="text-blue-600 hover:text-blue-900"
+                            disabled={isLoading}
+                            title="Edit Customer"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {canManageRates && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setRatesCustomer(customer)}
+                            className="text-orange-600 hover:text-orange-900"
+                            disabled={isLoading}
+                            title="Customer Rates"
+                          >
+                            <IndianRupee className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {canDeleteCustomers && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDelete(customer.id)}
+                            className="text-red-600 hover:text-red-900"
+                            disabled={isLoading}
+                            title="Delete Customer"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
                       </div>
                     </td>
                   </tr>
@@ -476,6 +516,8 @@ export const CustomerManagement = ({ onViewRecords }: CustomerManagementProps) =
           </table>
         </div>
       </Card>
+
+      <CustomerRatesDialog customer={ratesCustomer} onClose={() => setRatesCustomer(null)} />
     </div>
   );
 };
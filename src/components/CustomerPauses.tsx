@@ -0,0 +1,268 @@
+import React, { useState, useEffect } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Plus, Trash2, PauseCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { CustomerPause } from '@/utils/pauses';
+
+interface Customer {
+  id: string;
+  name: string;
+}
+
+interface CustomerPausesProps {
+  customers: Customer[];
+  canManage: boolean;
+}
+
+const formatDate = (date: string) => format(new Date(`${date}T00:00:00`), 'dd/MM/yyyy');
+
+export const CustomerPauses = ({ customers, canManage }: CustomerPausesProps) => {
+  const [pauses, setPauses] = useState<(CustomerPause & { customers?: { name: string } | null })[]>([]);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [formData, setFormData] = useState({
+    customerId: '',
+    startDate: format(new Date(), 'yyyy-MM-dd'),
+    endDate: format(new Date(), 'yyyy-MM-dd'),
+    reason: ''
+  });
+
+  useEffect(() => {
+    loadPauses();
+  }, []);
+
+  // Only current and upcoming pauses are interesting here; past ones still show on the bills
+  const loadPauses = async () => {
+    try {
+      setIsLoading(true);
+      const { data, error } = await supabase
+        .from('customer_pauses')
+        .select('id, customer_id, start_date, end_date, reason, customers(name)')
+        .gte('end_date', format(new Date(), 'yyyy-MM-dd'))
+        .order('start_date');
+
+      if (error) throw error;
+      setPauses(data || []);
+    } catch (error) {
+      console.error('Error loading pauses:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load pauses",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const resetForm = () => {
+    setFormData({
+      customerId: '',
+      startDate: format(new Date(), 'yyyy-MM-dd'),
+      endDate: format(new Date(), 'yyyy-MM-dd'),
+      reason: ''
+    });
+    setIsDialogOpen(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.customerId || !formData.startDate || !formData.endDate) {
+      toast({
+        title: "Error",
+        description: "Customer and both dates are required",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (formData.endDate < formData.startDate) {
+      toast({
+        title: "Error",
+        description: "End date cannot be before the start date",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      const { error } = await supabase
+        .from('customer_pauses')
+        .insert({
+          customer_id: formData.customerId,
+          start_date: formData.startDate,
+          end_date: formData.endDate,
+          reason: formData.reason.trim() || null
+        });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Pause added successfully"
+      });
+      resetForm();
+      await loadPauses();
+    } catch (error) {
+      console.error('Error adding pause:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add pause",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDelete = async (pauseId: string) => {
+    try {
+      setIsLoading(true);
+      const { error } = await supabase
+        .from('customer_pauses')
+        .delete()
+        .eq('id', pauseId);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Pause removed"
+      });
+      await loadPauses();
+    } catch (error) {
+      console.error('Error deleting pause:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove pause",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card className="p-4 sm:p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Pauses & Vacations</h3>
+
+        <Dialog open={isDialogOpen} onOpenChange={(open) => open ? setIsDialogOpen(true) : resetForm()}>
+          {canManage && (
+            <DialogTrigger asChild>
+              <Button variant="outline" size="sm" disabled={isLoading}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Pause
+              </Button>
+            </DialogTrigger>
+          )}
+          <DialogContent className="sm:max-w-md">
+            <DialogHeader>
+              <DialogTitle>Pause Deliveries</DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="pauseCustomerId">Customer *</Label>
+                <select
+                  id="pauseCustomerId"
+                  className="w-full rounded-md border border-gray-200 px-3 py-2 shadow-sm focus:border-blue-500 focus:ring-blue-500 disabled:cursor-not-allowed"
+                  value={formData.customerId}
+                  onChange={(e) => setFormData({ ...formData, customerId: e.target.value })}
+                  required
+                  disabled={isLoading}
+                >
+                  <option value="" disabled>Select a customer</option>
+                  {customers.map(customer => (
+                    <option key={customer.id} value={customer.id}>{customer.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor="pauseStartDate">From *</Label>
+                  <Input
+                    id="pauseStartDate"
+                    type="date"
+                    value={formData.startDate}
+                    onChange={(e) => setFormData({ ...formData, startDate: e.target.value })}
+                    required
+                    disabled={isLoading}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="pauseEndDate">To *</Label>
+                  <Input
+                    id="pauseEndDate"
+                    type="date"
+                    value={formData.endDate}
+                    onChange={(e) => setFormData({ ...formData, endDate: e.target.value })}
+                    required
+                    disabled={isLoading}
+                  />
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="pauseReason">Reason</Label>
+                <Input
+                  id="pauseReason"
+                  value={formData.reason}
+                  onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+                  placeholder="e.g., Out of town"
+                  disabled={isLoading}
+                />
+              </div>
+              <div className="flex gap-2 pt-4">
+                <Button type="submit" className="flex-1 bg-green-600 hover:bg-green-700" disabled={isLoading}>
+                  {isLoading ? 'Saving...' : 'Add Pause'}
+                </Button>
+                <Button type="button" variant="outline" onClick={resetForm} disabled={isLoading}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {pauses.length === 0 ? (
+        <div className="text-center text-gray-500 py-4">
+          <PauseCircle className="h-8 w-8 mx-auto mb-2 text-gray-300" />
+          <p className="text-sm">No current or upcoming pauses</p>
+        </div>
+      ) : (
+        <div className="divide-y">
+          {pauses.map(pause => (
+            <div key={pause.id} className="flex items-center justify-between py-2">
+              <div>
+                <p className="text-sm font-medium text-gray-900">{pause.customers?.name || 'Unknown'}</p>
+                <p className="text-xs text-gray-500">
+                  {formatDate(pause.start_date)} to {formatDate(pause.end_date)}
+                  {pause.reason && ` · ${pause.reason}`}
+                </p>
+              </div>
+              {canManage && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDelete(pause.id)}
+                  className="text-red-600 hover:text-red-900"
+                  disabled={isLoading}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,234 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { CustomerRate, MilkTypePrice, loadCustomerRates, loadMilkTypePrices, getMilkPriceOn } from '@/utils/milkPrices';
+
+interface MilkType {
+  id: string;
+  name: string;
+  price_per_liter: number;
+}
+
+interface CustomerRatesDialogProps {
+  customer: { id: string; name: string } | null;
+  onClose: () => void;
+}
+
+export const CustomerRatesDialog = ({ customer, onClose }: CustomerRatesDialogProps) => {
+  const [milkTypes, setMilkTypes] = useState<MilkType[]>([]);
+  const [prices, setPrices] = useState<MilkTypePrice[]>([]);
+  const [rates, setRates] = useState<CustomerRate[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [formData, setFormData] = useState({
+    milkTypeId: '',
+    pricePerLiter: '',
+    effectiveFrom: format(new Date(), 'yyyy-MM-dd')
+  });
+
+  useEffect(() => {
+    if (customer) {
+      loadData(customer.id);
+    }
+  }, [customer?.id]);
+
+  const loadData = async (customerId: string) => {
+    try {
+      setIsLoading(true);
+      const { data, error } = await supabase
+        .from('milk_types')
+        .select('id, name, price_per_liter')
+        .order('name');
+
+      if (error) throw error;
+
+      setMilkTypes(data || []);
+      setPrices(await loadMilkTypePrices());
+      setRates(await loadCustomerRates(customerId));
+    } catch (error) {
+      console.error('Error loading customer rates:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load customer rates",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!customer) return;
+
+    const price = parseFloat(formData.pricePerLiter);
+    if (!formData.milkTypeId || isNaN(price) || price <= 0 || !formData.effectiveFrom) {
+      toast({
+        title: "Error",
+        description: "Milk type, a valid rate and an effective date are required",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      const { error } = await supabase
+        .from('customer_rates')
+        .upsert({
+          customer_id: customer.id,
+          milk_type_id: formData.milkTypeId,
+          price_per_liter: price,
+          effective_from: formData.effectiveFrom
+        }, { onConflict: 'customer_id,milk_type_id,effective_from' });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `Rate saved for ${customer.name}`
+      });
+      setFormData({ milkTypeId: '', pricePerLiter: '', effectiveFrom: format(new Date(), 'yyyy-MM-dd') });
+      setRates(await loadCustomerRates(customer.id));
+    } catch (error) {
+      console.error('Error saving customer rate:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save customer rate",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDelete = async (rateId: string) => {
+    if (!customer) return;
+
+    try {
+      setIsLoading(true);
+      const { error } = await supabase
+        .from('customer_rates')
+        .delete()
+        .eq('id', rateId);
+
+      if (error) throw error;
+      setRates(await loadCustomerRates(customer.id));
+    } catch (error) {
+      console.error('Error deleting customer rate:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete customer rate",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const selectedMilkType = milkTypes.find(mt => mt.id === formData.milkTypeId);
+  const sortedRates = [...rates].sort((a, b) => b.effective_from.localeCompare(a.effective_from));
+
+  return (
+    <Dialog open={!!customer} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Rates for {customer?.name}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {sortedRates.length === 0 ? (
+            <p className="text-sm text-gray-500">No special rates. This customer pays the list price.</p>
+          ) : (
+            sortedRates.map(rate => {
+              const milkType = milkTypes.find(mt => mt.id === rate.milk_type_id);
+              return (
+                <div key={rate.id} className="flex items-center justify-between rounded-md bg-gray-50 px-3 py-2">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {milkType?.name || 'Unknown'}: ₹{Number(rate.price_per_liter).toFixed(2)}/L
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      From {format(new Date(`${rate.effective_from}T00:00:00`), 'dd/MM/yyyy')}
+                      {rate.effective_from > today && ' (upcoming)'}
+                      {milkType && ` · list ₹${getMilkPriceOn(prices, milkType, rate.effective_from).toFixed(2)}`}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(rate.id)}
+                    className="text-red-600 hover:text-red-900"
+                    disabled={isLoading}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4 border-t pt-4">
+          <div>
+            <Label htmlFor="rateMilkType">Milk Type *</Label>
+            <select
+              id="rateMilkType"
+              className="w-full rounded-md border border-gray-200 px-3 py-2 shadow-sm focus:border-blue-500 focus:ring-blue-500 disabled:cursor-not-allowed"
+              value={formData.milkTypeId}
+              onChange={(e) => setFormData({ ...formData, milkTypeId: e.target.value })}
+              required
+              disabled={isLoading}
+            >
+              <option value="" disabled>Select a milk type</option>
+              {milkTypes.map(milkType => (
+                <option key={milkType.id} value={milkType.id}>{milkType.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="ratePrice">Rate per Liter (₹) *</Label>
+              <Input
+                id="ratePrice"
+                type="number"
+                step="0.01"
+                min="0"
+                value={formData.pricePerLiter}
+                onChange={(e) => setFormData({ ...formData, pricePerLiter: e.target.value })}
+                placeholder={selectedMilkType ? getMilkPriceOn(prices, selectedMilkType, formData.effectiveFrom).toFixed(2) : ''}
+                required
+                disabled={isLoading}
+              />
+            </div>
+            <div>
+              <Label htmlFor="rateEffectiveFrom">Effective From *</Label>
+              <Input
+                id="rateEffectiveFrom"
+                type="date"
+                value={formData.effectiveFrom}
+                onChange={(e) => setFormData({ ...formData, effectiveFrom: e.target.value })}
+                required
+                disabled={isLoading}
+              />
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button type="submit" className="flex-1 bg-green-600 hover:bg-green-700" disabled={isLoading}>
+              {isLoading ? 'Saving...' : 'Save Rate'}
+            </Button>
+            <Button type="button" variant="outline" onClick={onClose} disabled={isLoading}>
+              Close
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
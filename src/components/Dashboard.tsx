@@ -1,8 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
 import { supabase } from '@/integrations/supabase/client';
-import { ArrowRight, Users, Milk, Calendar, CreditCard } from 'lucide-react';
+import { format, startOfMonth, endOfMonth, subDays } from 'date-fns';
+import { ArrowRight, Users, Milk, Calendar, CreditCard, IndianRupee, Wallet, AlertCircle } from 'lucide-react';
+import { SHIFT_LABELS, DELIVERY_SHIFTS } from '@/utils/shifts';
 
 interface DashboardProps {
   onNavigate: (tab: string) => void;
@@ -13,15 +17,54 @@ interface SummaryData {
   totalMilkTypes: number;
   totalDeliveries: number;
   totalPayments: number;
+  monthRevenue: number;
+  monthCollections: number;
+  totalOutstanding: number;
+  customersWithDues: number;
 }
 
+interface TodayMilkType {
+  milkTypeName: string;
+  morning: number;
+  evening: number;
+}
+
+interface TrendDay {
+  day: string;
+  liters: number;
+  revenue: number;
+  collections: number;
+}
+
+const TREND_DAYS = 30;
+
+const todayChartConfig: ChartConfig = {
+  morning: { label: SHIFT_LABELS.morning, color: '#f59e0b' },
+  evening: { label: SHIFT_LABELS.evening, color: '#6366f1' },
+};
+
+const trendChartConfig: ChartConfig = {
+  revenue: { label: 'Billed', color: '#2563eb' },
+  collections: { label: 'Collected', color: '#16a34a' },
+};
+
+const formatRupees = (amount: number) => `₹${Math.round(amount).toLocaleString('en-IN')}`;
+
+const formatLiters = (liters: number) => `${Number(liters.toFixed(1))}L`;
+
 export const Dashboard = ({ onNavigate }: DashboardProps) => {
   const [summary, setSummary] = useState<SummaryData>({
     totalCustomers: 0,
     totalMilkTypes: 0,
     totalDeliveries: 0,
-    totalPayments: 0
+    totalPayments: 0,
+    monthRevenue: 0,
+    monthCollections: 0,
+    totalOutstanding: 0,
+    customersWithDues: 0
   });
+  const [todayTotals, setTodayTotals] = useState<TodayMilkType[]>([]);
+  const [trend, setTrend] = useState<TrendDay[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
@@ -31,33 +74,54 @@ export const Dashboard = ({ onNavigate }: DashboardProps) => {
   const loadSummaryData = async () => {
     setIsLoading(true);
     try {
-      const { data: customers, error: customersError } = await supabase
-        .from('customers')
-        .select('id', { count: 'exact' });
-
-      const { data: milkTypes, error: milkTypesError } = await supabase
-        .from('milk_types')
-        .select('id', { count: 'exact' });
+      const now = new Date();
+      const today = format(now, 'yyyy-MM-dd');
 
-      const { data: deliveries, error: deliveriesError } = await supabase
-        .from('delivery_records')
-        .select('id', { count: 'exact' });
+      const [summaryResult, todayResult, trendResult] = await Promise.all([
+        supabase.rpc('get_dashboard_summary', {
+          _month_start: format(startOfMonth(now), 'yyyy-MM-dd'),
+          _month_end: format(endOfMonth(now), 'yyyy-MM-dd')
+        }),
+        supabase.rpc('get_daily_milk_type_totals', { _from: today, _to: today }),
+        supabase.rpc('get_daily_totals', {
+          _from: format(subDays(now, TREND_DAYS - 1), 'yyyy-MM-dd'),
+          _to: today
+        })
+      ]);
 
-      const { data: payments, error: paymentsError } = await supabase
-        .from('payments')
-        .select('id', { count: 'exact' });
-
-      if (customersError || milkTypesError || deliveriesError || paymentsError) {
-        console.error('Error fetching data:', customersError, milkTypesError, deliveriesError, paymentsError);
+      if (summaryResult.error || todayResult.error || trendResult.error) {
+        console.error('Error fetching data:', summaryResult.error, todayResult.error, trendResult.error);
         throw new Error('Failed to load summary data');
       }
 
+      const totals = summaryResult.data?.[0];
       setSummary({
-        totalCustomers: customers ? customers.length : 0,
-        totalMilkTypes: milkTypes ? milkTypes.length : 0,
-        totalDeliveries: deliveries ? deliveries.length : 0,
-        totalPayments: payments ? payments.length : 0
+        totalCustomers: totals?.total_customers || 0,
+        totalMilkTypes: totals?.total_milk_types || 0,
+        totalDeliveries: totals?.total_deliveries || 0,
+        totalPayments: totals?.total_payments || 0,
+        monthRevenue: Number(totals?.month_revenue || 0),
+        monthCollections: Number(totals?.month_collections || 0),
+        totalOutstanding: Number(totals?.total_outstanding || 0),
+        customersWithDues: totals?.customers_with_dues || 0
+      });
+
+      const byMilkType = new Map<string, TodayMilkType>();
+      (todayResult.data || []).forEach(row => {
+        const current = byMilkType.get(row.milk_type_id) || { milkTypeName: row.milk_type_name, morning: 0, evening: 0 };
+        if (row.shift === 'morning' || row.shift === 'evening') {
+          current[row.shift] += Number(row.liters);
+        }
+        byMilkType.set(row.milk_type_id, current);
       });
+      setTodayTotals(Array.from(byMilkType.values()).filter(row => row.morning + row.evening > 0));
+
+      setTrend((trendResult.data || []).map(row => ({
+        day: format(new Date(`${row.day}T00:00:00`), 'dd/MM'),
+        liters: Number(row.liters),
+        revenue: Number(row.revenue),
+        collections: Number(row.collections)
+      })));
     } catch (error) {
       console.error('Error loading summary data:', error);
     } finally {
@@ -65,6 +129,11 @@ export const Dashboard = ({ onNavigate }: DashboardProps) => {
     }
   };
 
+  const todayLiters = todayTotals.reduce((sum, row) => sum + row.morning + row.evening, 0);
+  const collectedShare = summary.monthRevenue > 0
+    ? Math.round((summary.monthCollections / summary.monthRevenue) * 100)
+    : 0;
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -76,59 +145,171 @@ export const Dashboard = ({ onNavigate }: DashboardProps) => {
           <p className="text-gray-500">Loading dashboard data...</p>
         </Card>
       ) : (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-          <Card className="p-6 hover:shadow-lg transition-shadow">
-            <div className="flex items-center justify-between mb-4">
-              <div>
-                <div className="text-2xl font-bold text-blue-600">{summary.totalCustomers}</div>
-                <div className="text-sm text-gray-500">Total Customers</div>
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+            <Card className="p-6">
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="text-2xl font-bold text-blue-600">{formatLiters(todayLiters)}</div>
+                  <div className="text-sm text-gray-500">Delivered Today</div>
+                </div>
+                <Milk className="h-8 w-8 text-blue-400" />
+              </div>
+            </Card>
+
+            <Card className="p-6">
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="text-2xl font-bold text-orange-600">{formatRupees(summary.monthRevenue)}</div>
+                  <div className="text-sm text-gray-500">Billed This Month</div>
+                </div>
+                <IndianRupee className="h-8 w-8 text-orange-400" />
               </div>
-              <Users className="h-8 w-8 text-blue-400" />
-            </div>
-            <Button variant="link" className="justify-start p-0" onClick={() => onNavigate('customers')}>
-              View Customers <ArrowRight className="h-4 w-4 ml-1" />
-            </Button>
-          </Card>
-
-          <Card className="p-6 hover:shadow-lg transition-shadow">
-            <div className="flex items-center justify-between mb-4">
-              <div>
-                <div className="text-2xl font-bold text-green-600">{summary.totalMilkTypes}</div>
-                <div className="text-sm text-gray-500">Milk Types</div>
+            </Card>
+
+            <Card className="p-6">
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="text-2xl font-bold text-green-600">{formatRupees(summary.monthCollections)}</div>
+                  <div className="text-sm text-gray-500">
+                    Collected This Month{summary.monthRevenue > 0 && ` (${collectedShare}% of billed)`}
+                  </div>
+                </div>
+                <Wallet className="h-8 w-8 text-green-400" />
               </div>
-              <Milk className="h-8 w-8 text-green-400" />
-            </div>
-            <Button variant="link" className="justify-start p-0" onClick={() => onNavigate('milk-types')}>
-              View Milk Types <ArrowRight className="h-4 w-4 ml-1" />
-            </Button>
-          </Card>
-
-          <Card className="p-6 hover:shadow-lg transition-shadow">
-            <div className="flex items-center justify-between mb-4">
-              <div>
-                <div className="text-2xl font-bold text-orange-600">{summary.totalDeliveries}</div>
-                <div className="text-sm text-gray-500">Deliveries</div>
+            </Card>
+
+            <Card className="p-6">
+              <div className="flex items-center justify-between mb-4">
+                <div>
+                  <div className="text-2xl font-bold text-red-600">{formatRupees(summary.totalOutstanding)}</div>
+                  <div className="text-sm text-gray-500">
+                    Outstanding from {summary.customersWithDues} {summary.customersWithDues === 1 ? 'customer' : 'customers'}
+                  </div>
+                </div>
+                <AlertCircle className="h-8 w-8 text-red-400" />
               </div>
-              <Calendar className="h-8 w-8 text-orange-400" />
-            </div>
-            <Button variant="link" className="justify-start p-0" onClick={() => onNavigate('delivery')}>
-              View Deliveries <ArrowRight className="h-4 w-4 ml-1" />
-            </Button>
-          </Card>
-
-          <Card className="p-6 hover:shadow-lg transition-shadow">
-            <div className="flex items-center justify-between mb-4">
-              <div>
-                <div className="text-2xl font-bold text-purple-600">{summary.totalPayments}</div>
-                <div className="text-sm text-gray-500">Payments</div>
+              <Button variant="link" className="justify-start p-0" onClick={() => onNavigate('payments')}>
+                View Pending Payments <ArrowRight className="h-4 w-4 ml-1" />
+              </Button>
+            </Card>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <Card className="p-6">
+              <h3 className="text-lg font-semibold text-gray-800 mb-4">Today's Litres by Milk Type</h3>
+              {todayTotals.length === 0 ? (
+                <p className="text-sm text-gray-500">No deliveries recorded today</p>
+              ) : (
+                <>
+                  <ChartContainer config={todayChartConfig} className="aspect-auto h-56 w-full">
+                    <BarChart data={todayTotals}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="milkTypeName" tickLine={false} axisLine={false} />
+                      <YAxis tickLine={false} axisLine={false} width={32} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <ChartLegend content={<ChartLegendContent />} />
+                      {DELIVERY_SHIFTS.map(shift => (
+                        <Bar key={shift} dataKey={shift} stackId="liters" fill={`var(--color-${shift})`} />
+                      ))}
+                    </BarChart>
+                  </ChartContainer>
+                  <table className="w-full mt-4 text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500">
+                        <th className="py-1 font-medium">Milk Type</th>
+                        {DELIVERY_SHIFTS.map(shift => (
+                          <th key={shift} className="py-1 font-medium text-right">{SHIFT_LABELS[shift]}</th>
+                        ))}
+                        <th className="py-1 font-medium text-right">Total</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {todayTotals.map(row => (
+                        <tr key={row.milkTypeName} className="border-t">
+                          <td className="py-1">{row.milkTypeName}</td>
+                          {DELIVERY_SHIFTS.map(shift => (
+                            <td key={shift} className="py-1 text-right">{formatLiters(row[shift])}</td>
+                          ))}
+                          <td className="py-1 text-right font-medium">{formatLiters(row.morning + row.evening)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </>
+              )}
+            </Card>
+
+            <Card className="p-6 lg:col-span-2">
+              <h3 className="text-lg font-semibold text-gray-800 mb-4">Last {TREND_DAYS} Days: Billed vs Collected</h3>
+              <ChartContainer config={trendChartConfig} className="aspect-auto h-72 w-full">
+                <LineChart data={trend}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="day" tickLine={false} axisLine={false} minTickGap={16} />
+                  <YAxis tickLine={false} axisLine={false} width={48} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Line type="monotone" dataKey="revenue" stroke="var(--color-revenue)" strokeWidth={2} dot={false} />
+                  <Line type="monotone" dataKey="collections" stroke="var(--color-collections)" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ChartContainer>
+            </Card>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+            <Card className="p-6 hover:shadow-lg transition-shadow">
+              <div className="flex items-center justify-between mb-4">
+                <div>
+                  <div className="text-2xl font-bold text-blue-600">{summary.totalCustomers}</div>
+                  <div className="text-sm text-gray-500">Total Customers</div>
+                </div>
+                <Users className="h-8 w-8 text-blue-400" />
+              </div>
+              <Button variant="link" className="justify-start p-0" onClick={() => onNavigate('customers')}>
+                View Customers <ArrowRight className="h-4 w-4 ml-1" />
+              </Button>
+            </Card>
+
+            <Card className="p-6 hover:shadow-lg transition-shadow">
+              <div className="flex items-center justify-between mb-4">
+                <div>
+                  <div className="text-2xl font-bold text-green-600">{summary.totalMilkTypes}</div>
+                  <div className="text-sm text-gray-500">Milk Types</div>
+                </div>
+                <Milk className="h-8 w-8 text-green-400" />
+              </div>
+              <Button variant="link" className="justify-start p-0" onClick={() => onNavigate('milk-types')}>
+                View Milk Types <ArrowRight className="h-4 w-4 ml-1" />
+              </Button>
+            </Card>
+
+            <Card className="p-6 hover:shadow-lg transition-shadow">
+              <div className="flex items-center justify-between mb-4">
+                <div>
+                  <div className="text-2xl font-bold text-orange-600">{summary.totalDeliveries}</div>
+                  <div className="text-sm text-gray-500">Deliveries</div>
+                </div>
+                <Calendar className="h-8 w-8 text-orange-400" />
+              </div>
+              <Button variant="link" className="justify-start p-0" onClick={() => onNavigate('delivery')}>
+                View Deliveries <ArrowRight className="h-4 w-4 ml-1" />
+              </Button>
+            </Card>
+
+            <Card className="p-6 hover:shadow-lg transition-shadow">
+              <div className="flex items-center justify-between mb-4">
+                <div>
+                  <div className="text-2xl font-bold text-purple-600">{summary.totalPayments}</div>
+                  <div className="text-sm text-gray-500">Payments</div>
+                </div>
+                <CreditCard className="h-8 w-8 text-purple-400" />
               </div>
-              <CreditCard className="h-8 w-8 text-purple-400" />
-            </div>
-            <Button variant="link" className="justify-start p-0" onClick={() => onNavigate('payments')}>
-              View Payments <ArrowRight className="h-4 w-4 ml-1" />
-            </Button>
-          </Card>
-        </div>
+              <Button variant="link" className="justify-start p-0" onClick={() => onNavigate('payments')}>
+                View Payments <ArrowRight className="h-4 w-4 ml-1" />
+              </Button>
+            </Card>
+          </div>
+        </>
       )}
     </div>
   );
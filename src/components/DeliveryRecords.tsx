@@ -26,6 +26,14 @@ import { supabase } from '@/integrations/supabase/client';
 import { DateRange } from 'react-day-picker';
 import { generateDeliveryReport } from '@/utils/generate-delivery-report';
 import { BulkDeliveryEntry } from './BulkDeliveryEntry';
+import { BulkDeliveryGrid } from './BulkDeliveryGrid';
+import { RouteSheetDialog } from './RouteSheetDialog';
+import { DuplicateDeliveriesDialog } from './DuplicateDeliveriesDialog';
+import { useAuth } from '@/hooks/use-auth';
+import { hasPermission } from '@/utils/permissions';
+import { DeliveryShift, DELIVERY_SHIFTS, SHIFT_LABELS } from '@/utils/shifts';
+import { MilkTypePrice, CustomerRate, loadMilkTypePrices, loadCustomerRates, getCustomerPriceOn } from '@/utils/milkPrices';
+import { isDuplicateDeliveryError } from '@/utils/duplicateDeliveries';
 
 interface DeliveryRecord {
   id: string;
@@ -35,6 +43,7 @@ interface DeliveryRecord {
   quantity: number;
   price_per_liter: number;
   total_amount: number;
+  shift: DeliveryShift;
   notes?: string;
   created_at: string;
   customers: { name: string } | null;
@@ -46,6 +55,9 @@ interface DeliveryRecordsProps {
 }
 
 export const DeliveryRecords = ({ highlightCustomerId }: DeliveryRecordsProps) => {
+  const { profile } = useAuth();
+  // Delivery boys only get the bulk entry screen
+  const canManageDeliveries = hasPermission(profile?.role, 'manage_deliveries');
   const [deliveryRecords, setDeliveryRecords] = useState<DeliveryRecord[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [dateRange, setDateRange] = useState<DateRange | undefined>(undefined);
@@ -54,15 +66,27 @@ export const DeliveryRecords = ({ highlightCustomerId }: DeliveryRecordsProps) =
   const [isLoading, setIsLoading] = useState(false);
   const [customers, setCustomers] = useState<{ id: string; name: string }[]>([]);
   const [milkTypes, setMilkTypes] = useState<{ id: string; name: string; price_per_liter: number }[]>([]);
-  const [formData, setFormData] = useState({
+  const [milkPrices, setMilkPrices] = useState<MilkTypePrice[]>([]);
+  const [customerRates, setCustomerRates] = useState<CustomerRate[]>([]);
+  const [formData, setFormData] = useState<{
+    customerId: string;
+    deliveryDate: Date;
+    milkType: string;
+    quantity: string;
+    shift: DeliveryShift;
+    notes: string;
+  }>({
     customerId: '',
     deliveryDate: new Date(),
     milkType: '',
     quantity: '',
+    shift: 'morning',
     notes: ''
   });
+  const [shiftFilter, setShiftFilter] = useState<DeliveryShift | 'all'>('all');
   const [isFilterOpen, setIsFilterOpen] = useState(false);
-  const [isBulkMode, setIsBulkMode] = useState(true); // Start with bulk mode
+  // Start with bulk entry; delivery boys can switch between the card-by-card and grid modes only
+  const [entryMode, setEntryMode] = useState<'single' | 'bulk' | 'grid'>('bulk');
 
   useEffect(() => {
     loadCustomers();
@@ -111,6 +135,8 @@ export const DeliveryRecords = ({ highlightCustomerId }: DeliveryRecordsProps) =
       }
 
       setMilkTypes(data || []);
+      setMilkPrices(await loadMilkTypePrices());
+      setCustomerRates(await loadCustomerRates());
     } catch (error) {
       console.error('Error loading milk types:', error);
       toast({
@@ -169,7 +195,9 @@ export const DeliveryRecords = ({ highlightCustomerId }: DeliveryRecordsProps) =
     const deliveryDate = new Date(record.delivery_date);
     const matchesDateRange = dateRange?.from ? (deliveryDate >= dateRange.from && (dateRange.to ? deliveryDate <= dateRange.to : true)) : true;
 
-    return matchesSearchTerm && matchesDateRange;
+    const matchesShift = shiftFilter === 'all' || record.shift === shiftFilter;
+
+    return matchesSearchTerm && matchesDateRange && matchesShift;
   });
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -213,55 +241,49 @@ export const DeliveryRecords = ({ highlightCustomerId }: DeliveryRecordsProps) =
       setIsLoading(true);
 
       const deliveryDate = format(formData.deliveryDate, 'yyyy-MM-dd');
-      const pricePerLiter = selectedMilkType.price_per_liter;
+      // Use the customer's rate on the delivery date, so back-dated entries get the old price
+      const pricePerLiter = getCustomerPriceOn(customerRates, milkPrices, formData.customerId, selectedMilkType, deliveryDate);
       const totalAmount = quantity * pricePerLiter;
 
-      if (editingRecord) {
-        const { error } = await supabase
-          .from('delivery_records')
-          .update({
-            customer_id: formData.customerId,
-            delivery_date: deliveryDate,
-            milk_type_id: formData.milkType,
-            quantity: quantity,
-            price_per_liter: pricePerLiter,
-            total_amount: totalAmount,
-            notes: formData.notes || null
-          })
-          .eq('id', editingRecord.id);
-
-        if (error) throw error;
-
-        toast({
-          title: "Success",
-          description: "Delivery record updated successfully",
-          duration: 2000
-        });
-      } else {
-        const { error } = await supabase
-          .from('delivery_records')
-          .insert({
-            customer_id: formData.customerId,
-            delivery_date: deliveryDate,
-            milk_type_id: formData.milkType,
-            quantity: quantity,
-            price_per_liter: pricePerLiter,
-            total_amount: totalAmount,
-            notes: formData.notes || null
-          });
-
-        if (error) throw error;
-
-        toast({
-          title: "Success",
-          description: "Delivery record added successfully",
-          duration: 2000
-        });
+      const record = {
+        customer_id: formData.customerId,
+        delivery_date: deliveryDate,
+        milk_type_id: formData.milkType,
+        quantity: quantity,
+        price_per_liter: pricePerLiter,
+        total_amount: totalAmount,
+        shift: formData.shift,
+        notes: formData.notes || null
+      };
+      const saveRecord = (allowDuplicate: boolean) => {
+        const payload = allowDuplicate ? { ...record, allow_duplicate: true } : record;
+        return editingRecord
+          ? supabase.from('delivery_records').update(payload).eq('id', editingRecord.id)
+          : supabase.from('delivery_records').insert(payload);
+      };
+
+      let { error } = await saveRecord(false);
+
+      // The database refuses a second delivery of the same milk in a shift unless it is confirmed as an extra
+      if (isDuplicateDeliveryError(error)) {
+        const shiftLabel = SHIFT_LABELS[formData.shift].toLowerCase();
+        if (!confirm(`${selectedCustomer.name} already has ${selectedMilkType.name} for the ${shiftLabel} shift on ${format(formData.deliveryDate, 'dd/MM/yyyy')}. Save this as an extra delivery anyway?`)) {
+          return;
+        }
+        ({ error } = await saveRecord(true));
       }
 
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: editingRecord ? "Delivery record updated successfully" : "Delivery record added successfully",
+        duration: 2000
+      });
+
       await loadDeliveryRecords();
 
-      setFormData({ customerId: '', deliveryDate: new Date(), milkType: '', quantity: '', notes: '' });
+      setFormData({ customerId: '', deliveryDate: new Date(), milkType: '', quantity: '', shift: 'morning', notes: '' });
       setIsAddDialogOpen(false);
       setEditingRecord(null);
     } catch (error) {
@@ -284,6 +306,7 @@ export const DeliveryRecords = ({ highlightCustomerId }: DeliveryRecordsProps) =
       deliveryDate: new Date(record.delivery_date),
       milkType: record.milk_type_id,
       quantity: record.quantity.toString(),
+      shift: record.shift,
       notes: record.notes || ''
     });
     setIsAddDialogOpen(true);
@@ -330,26 +353,37 @@ export const DeliveryRecords = ({ highlightCustomerId }: DeliveryRecordsProps) =
         <h2 className="text-xl sm:text-3xl font-bold text-gray-900">Delivery Records</h2>
         
         <div className="flex items-center space-x-2">
+          {canManageDeliveries && (
+            <Button
+              variant={entryMode === 'single' ? 'default' : 'outline'}
+              onClick={() => setEntryMode('single')}
+              disabled={isLoading}
+            >
+              Single Entry
+            </Button>
+          )}
           <Button
-            variant={!isBulkMode ? 'default' : 'outline'}
-            onClick={() => setIsBulkMode(false)}
+            variant={entryMode === 'bulk' ? 'default' : 'outline'}
+            onClick={() => setEntryMode('bulk')}
             disabled={isLoading}
           >
-            Single Entry
+            Bulk Entry
           </Button>
           <Button
-            variant={isBulkMode ? 'default' : 'outline'}
-            onClick={() => setIsBulkMode(true)}
+            variant={entryMode === 'grid' ? 'default' : 'outline'}
+            onClick={() => setEntryMode('grid')}
             disabled={isLoading}
           >
-            Bulk Entry
+            Grid
           </Button>
         </div>
       </div>
 
-      {isBulkMode ? (
+      {entryMode === 'grid' ? (
+        <BulkDeliveryGrid />
+      ) : entryMode === 'bulk' || !canManageDeliveries ? (
         <BulkDeliveryEntry 
-          onClose={() => setIsBulkMode(false)}
+          onClose={canManageDeliveries ? () => setEntryMode('single') : undefined}
         />
       ) : (
         <>
@@ -358,6 +392,8 @@ export const DeliveryRecords = ({ highlightCustomerId }: DeliveryRecordsProps) =
               <Download className="h-4 w-4 mr-2" />
               Download Report
             </Button>
+            <RouteSheetDialog />
+            <DuplicateDeliveriesDialog onChanged={loadDeliveryRecords} />
             <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
               <DialogTrigger asChild>
                 <Button className="bg-green-600 hover:bg-green-700" disabled={isLoading}>
@@ -433,6 +469,21 @@ export const DeliveryRecords = ({ highlightCustomerId }: DeliveryRecordsProps) =
                       ))}
                     </select>
                   </div>
+                  <div>
+                    <Label htmlFor="shift">Shift *</Label>
+                    <select
+                      id="shift"
+                      className="w-full rounded-md border border-gray-200 px-3 py-2 shadow-sm focus:border-blue-500 focus:ring-blue-500 disabled:cursor-not-allowed"
+                      value={formData.shift}
+                      onChange={(e) => setFormData({ ...formData, shift: e.target.value as DeliveryShift })}
+                      required
+                      disabled={isLoading}
+                    >
+                      {DELIVERY_SHIFTS.map(shift => (
+                        <option key={shift} value={shift}>{SHIFT_LABELS[shift]}</option>
+                      ))}
+                    </select>
+                  </div>
                   <div>
                     <Label htmlFor="quantity">Quantity (Liters) *</Label>
                     <Input
@@ -468,7 +519,7 @@ export const DeliveryRecords = ({ highlightCustomerId }: DeliveryRecordsProps) =
                       onClick={() => {
                         setIsAddDialogOpen(false);
                         setEditingRecord(null);
-                        setFormData({ customerId: '', deliveryDate: new Date(), milkType: '', quantity: '', notes: '' });
+                        setFormData({ customerId: '', deliveryDate: new Date(), milkType: '', quantity: '', shift: 'morning', notes: '' });
                       }}
                       disabled={isLoading}
                     >
@@ -481,7 +532,7 @@ export const DeliveryRecords = ({ highlightCustomerId }: DeliveryRecordsProps) =
           </div>
 
           {/* Search and Filter */}
-          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
             <Card className="p-4">
               <div className="relative">
                 <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
@@ -516,6 +567,20 @@ export const DeliveryRecords = ({ highlightCustomerId }: DeliveryRecordsProps) =
                 </PopoverContent>
               </Popover>
             </Card>
+            <Card className="p-4">
+              <select
+                aria-label="Filter by shift"
+                className="w-full rounded-md border border-gray-200 px-3 py-2 shadow-sm focus:border-blue-500 focus:ring-blue-500 disabled:cursor-not-allowed"
+                value={shiftFilter}
+                onChange={(e) => setShiftFilter(e.target.value as DeliveryShift | 'all')}
+                disabled={isLoading}
+              >
+                <option value="all">All Shifts</option>
+                {DELIVERY_SHIFTS.map(shift => (
+                  <option key={shift} value={shift}>{SHIFT_LABELS[shift]}</option>
+                ))}
+              </select>
+            </Card>
           </div>
 
           {/* Delivery Records List */}
@@ -527,6 +592,9 @@ export const DeliveryRecords = ({ highlightCustomerId }: DeliveryRecordsProps) =
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Date
                     </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Shift
+                    </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Customer
                     </th>
@@ -547,13 +615,13 @@ export const DeliveryRecords = ({ highlightCustomerId }: DeliveryRecordsProps) =
                 <tbody className="bg-white divide-y divide-gray-200">
                   {isLoading ? (
                     <tr>
-                      <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
+                      <td colSpan={7} className="px-6 py-8 text-center text-gray-500">
                         Loading delivery records...
                       </td>
                     </tr>
                   ) : filteredRecords.length === 0 ? (
                     <tr>
-                      <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
+                      <td colSpan={7} className="px-6 py-8 text-center text-gray-500">
                         No delivery records found. Add your first record to get started.
                       </td>
                     </tr>
@@ -563,6 +631,9 @@ export const DeliveryRecords = ({ highlightCustomerId }: DeliveryRecordsProps) =
                         <td className="px-6 py-4 whitespace-nowrap">
                           <div className="text-sm text-gray-900">{new Date(record.delivery_date).toLocaleDateString()}</div>
                         </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="text-sm text-gray-900">{SHIFT_LABELS[record.shift] || record.shift}</div>
+                        </td>
                         <td className="px-6 py-4 whitespace-nowrap">
                           <div className="font-medium text-gray-900">{record.customers?.name}</div>
                         </td>
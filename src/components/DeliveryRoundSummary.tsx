@@ -0,0 +1,31 @@
+import React from 'react';
+import { Card } from '@/components/ui/card';
+
+interface DeliveryRoundSummaryProps {
+  totals: { milkTypeName: string; liters: number }[];
+  skipped: { id: string; name: string; isPaused?: boolean }[];
+}
+
+// Litres per milk type and the customers left out, for the round being entered
+export const DeliveryRoundSummary = ({ totals, skipped }: DeliveryRoundSummaryProps) => (
+  <Card className="p-4">
+    <h4 className="text-sm font-semibold text-gray-900 mb-2">Round Summary</h4>
+    {totals.length === 0 ? (
+      <p className="text-sm text-gray-500">Nothing entered yet</p>
+    ) : (
+      <div className="flex flex-wrap gap-2">
+        {totals.map(total => (
+          <span key={total.milkTypeName} className="rounded-full bg-blue-50 px-3 py-1 text-sm text-blue-800">
+            {total.milkTypeName}: {Number(total.liters.toFixed(3))}L
+          </span>
+        ))}
+      </div>
+    )}
+    {skipped.length > 0 && (
+      <p className="text-sm text-gray-600 mt-2">
+        <span className="font-medium">Skipped ({skipped.length}):</span>{' '}
+        {skipped.map(customer => customer.isPaused ? `${customer.name} (paused)` : customer.name).join(', ')}
+      </p>
+    )}
+  </Card>
+);
@@ -0,0 +1,238 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Copy, Trash2, CheckCircle } from 'lucide-react';
+import { format, subDays } from 'date-fns';
+import { toast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { SHIFT_LABELS, DeliveryShift } from '@/utils/shifts';
+
+interface DuplicateRecord {
+  id: string;
+  customer_id: string;
+  customer_name: string;
+  delivery_date: string;
+  shift: string;
+  milk_type_id: string;
+  milk_type_name: string;
+  quantity: number;
+  total_amount: number;
+  allow_duplicate: boolean;
+  created_at: string;
+}
+
+interface DuplicateGroup {
+  key: string;
+  records: DuplicateRecord[];
+}
+
+interface DuplicateDeliveriesDialogProps {
+  onChanged?: () => void;
+}
+
+// Deliveries saved more than once for the same customer, date, shift and milk type. Each group can be cleaned
+// up by deleting the extra rows, or kept by marking the later rows as intended extra deliveries.
+export const DuplicateDeliveriesDialog = ({ onChanged }: DuplicateDeliveriesDialogProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [fromDate, setFromDate] = useState(format(subDays(new Date(), 30), 'yyyy-MM-dd'));
+  const [toDate, setToDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [groups, setGroups] = useState<DuplicateGroup[]>([]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadDuplicates();
+    }
+  }, [isOpen]);
+
+  const loadDuplicates = async () => {
+    if (!fromDate || !toDate) return;
+
+    try {
+      setIsLoading(true);
+      const { data, error } = await supabase.rpc('find_duplicate_deliveries', {
+        _from: fromDate,
+        _to: toDate
+      });
+
+      if (error) throw error;
+
+      const grouped: DuplicateGroup[] = [];
+      (data || []).forEach(record => {
+        const key = `${record.customer_id}|${record.delivery_date}|${record.shift}|${record.milk_type_id}`;
+        const group = grouped.find(g => g.key === key);
+        if (group) {
+          group.records.push(record);
+        } else {
+          grouped.push({ key, records: [record] });
+        }
+      });
+      setGroups(grouped);
+    } catch (error) {
+      console.error('Error finding duplicate deliveries:', error);
+      toast({
+        title: "Error",
+        description: "Failed to check for duplicate deliveries",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDelete = async (record: DuplicateRecord) => {
+    if (!confirm(`Delete ${record.quantity}L ${record.milk_type_name} for ${record.customer_name}? The balance will be adjusted.`)) {
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      const { error } = await supabase
+        .from('delivery_records')
+        .delete()
+        .eq('id', record.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Duplicate delivery deleted"
+      });
+      onChanged?.();
+      await loadDuplicates();
+    } catch (error) {
+      console.error('Error deleting duplicate delivery:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete delivery",
+        variant: "destructive"
+      });
+      setIsLoading(false);
+    }
+  };
+
+  // The first entry stays the regular delivery; the rest are flagged as deliberate extras
+  const handleMarkIntended = async (group: DuplicateGroup) => {
+    try {
+      setIsLoading(true);
+      const { error } = await supabase
+        .from('delivery_records')
+        .update({ allow_duplicate: true })
+        .in('id', group.records.slice(1).map(record => record.id));
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Marked as extra deliveries"
+      });
+      await loadDuplicates();
+    } catch (error) {
+      console.error('Error marking duplicate deliveries:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update deliveries",
+        variant: "destructive"
+      });
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Copy className="h-4 w-4 mr-2" />
+          Duplicates
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Suspected Duplicate Deliveries</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="flex flex-col sm:flex-row sm:items-end gap-2">
+            <div>
+              <Label htmlFor="duplicatesFrom">From</Label>
+              <Input
+                id="duplicatesFrom"
+                type="date"
+                value={fromDate}
+                onChange={(e) => setFromDate(e.target.value)}
+                disabled={isLoading}
+              />
+            </div>
+            <div>
+              <Label htmlFor="duplicatesTo">To</Label>
+              <Input
+                id="duplicatesTo"
+                type="date"
+                value={toDate}
+                onChange={(e) => setToDate(e.target.value)}
+                disabled={isLoading}
+              />
+            </div>
+            <Button onClick={loadDuplicates} disabled={isLoading || !fromDate || !toDate}>
+              {isLoading ? 'Checking...' : 'Check'}
+            </Button>
+          </div>
+
+          {groups.length === 0 ? (
+            <p className="text-center py-6 text-gray-500">
+              {isLoading ? 'Checking...' : 'No duplicate deliveries in this period'}
+            </p>
+          ) : (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-600">
+                {groups.length} {groups.length === 1 ? 'customer shift has' : 'customer shifts have'} the same milk entered more than once
+              </p>
+              {groups.map(group => {
+                const first = group.records[0];
+                return (
+                  <div key={group.key} className="rounded-md border border-red-200 bg-red-50 p-3">
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <p className="font-medium text-gray-900">{first.customer_name}</p>
+                        <p className="text-sm text-gray-600">
+                          {format(new Date(`${first.delivery_date}T00:00:00`), 'dd/MM/yyyy')} · {SHIFT_LABELS[first.shift as DeliveryShift] || first.shift} · {first.milk_type_name}
+                        </p>
+                      </div>
+                      <Button size="sm" variant="outline" onClick={() => handleMarkIntended(group)} disabled={isLoading}>
+                        <CheckCircle className="h-4 w-4 mr-1" />
+                        Keep All
+                      </Button>
+                    </div>
+                    <ul className="mt-2 space-y-1">
+                      {group.records.map(record => (
+                        <li key={record.id} className="flex items-center justify-between rounded bg-white px-2 py-1 text-sm">
+                          <span>
+                            {record.quantity}L · ₹{Number(record.total_amount).toFixed(2)}
+                            <span className="text-xs text-gray-500 ml-2">
+                              entered {format(new Date(record.created_at), 'dd/MM/yyyy HH:mm')}
+                              {record.allow_duplicate && ' · marked as extra'}
+                            </span>
+                          </span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-red-600 hover:text-red-900"
+                            onClick={() => handleDelete(record)}
+                            disabled={isLoading}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -4,9 +4,14 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { Plus, Edit, Trash2, Milk } from 'lucide-react';
+import { Plus, Edit, Trash2, Milk, History, TrendingUp } from 'lucide-react';
+import { format } from 'date-fns';
 import { toast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/use-auth';
+import { hasPermission } from '@/utils/permissions';
+import { MilkTypePrice, loadMilkTypePrices, getMilkPriceOn, withCurrentPrices } from '@/utils/milkPrices';
+import { PriceRevisionDialog } from './PriceRevisionDialog';
 
 interface MilkType {
   id: string;
@@ -17,13 +22,18 @@ interface MilkType {
 }
 
 export const MilkTypesManagement = () => {
+  const { profile } = useAuth();
+  const canManageMilkTypes = hasPermission(profile?.role, 'manage_milk_types');
   const [milkTypes, setMilkTypes] = useState<MilkType[]>([]);
+  const [prices, setPrices] = useState<MilkTypePrice[]>([]);
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [editingMilkType, setEditingMilkType] = useState<MilkType | null>(null);
+  const [revisingMilkType, setRevisingMilkType] = useState<MilkType | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [formData, setFormData] = useState({
     name: '',
     pricePerLiter: '',
+    effectiveFrom: format(new Date(), 'yyyy-MM-dd'),
     description: ''
   });
 
@@ -45,7 +55,9 @@ export const MilkTypesManagement = () => {
         throw error;
       }
       
-      setMilkTypes(data || []);
+      const priceHistory = await loadMilkTypePrices();
+      setMilkTypes(withCurrentPrices(data || [], priceHistory));
+      setPrices(priceHistory);
     } catch (error) {
       console.error('Error loading milk types:', error);
       toast({
@@ -60,6 +72,15 @@ export const MilkTypesManagement = () => {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (!canManageMilkTypes) {
+      toast({
+        title: "Error",
+        description: "Only the owner can change milk types and prices",
+        variant: "destructive"
+      });
+      return;
+    }
     
     if (!formData.name.trim() || !formData.pricePerLiter) {
       toast({
@@ -80,38 +101,71 @@ export const MilkTypesManagement = () => {
       return;
     }
 
+    if (!formData.effectiveFrom) {
+      toast({
+        title: "Error",
+        description: "Please pick the date the price applies from",
+        variant: "destructive"
+      });
+      return;
+    }
+
     try {
       setIsLoading(true);
 
       if (editingMilkType) {
-        // Update existing milk type
+        // Update name and description; the price goes into the history below
         const { error } = await supabase
           .from('milk_types')
           .update({
             name: formData.name.trim(),
-            price_per_liter: price,
             description: formData.description.trim() || null
           })
           .eq('id', editingMilkType.id);
 
         if (error) throw error;
 
+        // Only record a price change if the rate on that date actually differs
+        if (getMilkPriceOn(prices, editingMilkType, formData.effectiveFrom) !== price) {
+          const { error: priceError } = await supabase
+            .from('milk_type_prices')
+            .upsert({
+              milk_type_id: editingMilkType.id,
+              price_per_liter: price,
+              effective_from: formData.effectiveFrom
+            }, { onConflict: 'milk_type_id,effective_from' });
+
+          if (priceError) throw priceError;
+        }
+
         toast({
           title: "Success",
           description: "Milk type updated successfully"
         });
       } else {
         // Create new milk type
-        const { error } = await supabase
+        const { data, error } = await supabase
           .from('milk_types')
           .insert({
             name: formData.name.trim(),
             price_per_liter: price,
             description: formData.description.trim() || null
-          });
+          })
+          .select('id')
+          .single();
 
         if (error) throw error;
 
+        const { error: priceError } = await supabase
+          .from('milk_type_prices')
+          .insert({
+            milk_type_id: data.id,
+            price_per_liter: price,
+            effective_from: formData.effectiveFrom
+          });
+
+        if (priceError) throw priceError;
+
         toast({
           title: "Success",
           description: "Milk type added successfully"
@@ -122,7 +176,7 @@ export const MilkTypesManagement = () => {
       await loadMilkTypes();
       
       // Reset form
-      setFormData({ name: '', pricePerLiter: '', description: '' });
+      setFormData({ name: '', pricePerLiter: '', effectiveFrom: format(new Date(), 'yyyy-MM-dd'), description: '' });
       setIsAddDialogOpen(false);
       setEditingMilkType(null);
     } catch (error) {
@@ -142,12 +196,22 @@ export const MilkTypesManagement = () => {
     setFormData({
       name: milkType.name,
       pricePerLiter: milkType.price_per_liter.toString(),
+      effectiveFrom: format(new Date(), 'yyyy-MM-dd'),
       description: milkType.description || ''
     });
     setIsAddDialogOpen(true);
   };
 
   const handleDelete = async (milkTypeId: string) => {
+    if (!canManageMilkTypes) {
+      toast({
+        title: "Error",
+        description: "Only the owner can delete milk types",
+        variant: "destructive"
+      });
+      return;
+    }
+
     try {
       setIsLoading(true);
       
@@ -177,18 +241,50 @@ export const MilkTypesManagement = () => {
     }
   };
 
+  // Newest first; rates that start after today are marked as upcoming
+  const renderPriceTimeline = (milkTypeId: string) => {
+    const history = prices
+      .filter(price => price.milk_type_id === milkTypeId)
+      .sort((a, b) => b.effective_from.localeCompare(a.effective_from));
+    const today = format(new Date(), 'yyyy-MM-dd');
+
+    if (history.length === 0) return null;
+
+    return (
+      <div className="border-t pt-3 mb-3">
+        <p className="flex items-center text-xs font-medium text-gray-500 mb-2">
+          <History className="h-3 w-3 mr-1" />
+          Price History
+        </p>
+        <ul className="space-y-1">
+          {history.map(price => (
+            <li key={price.id} className="flex justify-between text-xs text-gray-600">
+              <span>
+                From {format(new Date(`${price.effective_from}T00:00:00`), 'dd/MM/yyyy')}
+                {price.effective_from > today && <span className="ml-1 text-orange-600">(upcoming)</span>}
+              </span>
+              <span className="font-medium">₹{Number(price.price_per_liter).toFixed(2)}/L</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <h2 className="text-xl sm:text-3xl font-bold text-gray-900">Milk Types & Rates</h2>
         
         <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
-          <DialogTrigger asChild>
-            <Button className="bg-green-600 hover:bg-green-700" disabled={isLoading}>
-              <Plus className="h-4 w-4 mr-2" />
-              Add Milk Type
-            </Button>
-          </DialogTrigger>
+          {canManageMilkTypes && (
+            <DialogTrigger asChild>
+              <Button className="bg-green-600 hover:bg-green-700" disabled={isLoading}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Milk Type
+              </Button>
+            </DialogTrigger>
+          )}
           <DialogContent className="sm:max-w-md">
             <DialogHeader>
               <DialogTitle>
@@ -221,6 +317,22 @@ export const MilkTypesManagement = () => {
                   disabled={isLoading}
                 />
               </div>
+              <div>
+                <Label htmlFor="effectiveFrom">Price Effective From *</Label>
+                <Input
+                  id="effectiveFrom"
+                  type="date"
+                  value={formData.effectiveFrom}
+                  onChange={(e) => setFormData({ ...formData, effectiveFrom: e.target.value })}
+                  required
+                  disabled={isLoading}
+                />
+                {editingMilkType && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Deliveries on or after this date use the new price. Earlier deliveries keep their old rate.
+                  </p>
+                )}
+              </div>
               <div>
                 <Label htmlFor="description">Description</Label>
                 <Input
@@ -241,7 +353,7 @@ export const MilkTypesManagement = () => {
                   onClick={() => {
                     setIsAddDialogOpen(false);
                     setEditingMilkType(null);
-                    setFormData({ name: '', pricePerLiter: '', description: '' });
+                    setFormData({ name: '', pricePerLiter: '', effectiveFrom: format(new Date(), 'yyyy-MM-dd'), description: '' });
                   }}
                   disabled={isLoading}
                 >
@@ -277,31 +389,45 @@ export const MilkTypesManagement = () => {
                   <h3 className="text-lg font-semibold text-gray-900">{milkType.name}</h3>
                   <p className="text-2xl font-bold text-green-600">₹{milkType.price_per_liter.toFixed(2)}/L</p>
                 </div>
-                <div className="flex space-x-1">
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => handleEdit(milkType)}
-                    className="text-blue-600 hover:text-blue-900"
-                    disabled={isLoading}
-                  >
-                    <Edit className="h-4 w-4" />
-                  </Button>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => handleDelete(milkType.id)}
-                    className="text-red-600 hover:text-red-900"
-                    disabled={isLoading}
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
-                </div>
+                {canManageMilkTypes && (
+                  <div className="flex space-x-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setRevisingMilkType(milkType)}
+                      className="text-orange-600 hover:text-orange-900"
+                      disabled={isLoading}
+                      title="Revise Price"
+                    >
+                      <TrendingUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleEdit(milkType)}
+                      className="text-blue-600 hover:text-blue-900"
+                      disabled={isLoading}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(milkType.id)}
+                      className="text-red-600 hover:text-red-900"
+                      disabled={isLoading}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
               </div>
               
               {milkType.description && (
                 <p className="text-sm text-gray-600 mb-3">{milkType.description}</p>
               )}
+
+              {renderPriceTimeline(milkType.id)}
               
               <div className="text-xs text-gray-400">
                 Added on {new Date(milkType.created_at).toLocaleDateString()}
@@ -335,6 +461,12 @@ export const MilkTypesManagement = () => {
           </div>
         </Card>
       )}
+
+      <PriceRevisionDialog
+        milkType={revisingMilkType}
+        onClose={() => setRevisingMilkType(null)}
+        onApplied={loadMilkTypes}
+      />
     </div>
   );
 };
@@ -25,19 +25,23 @@ import {
 } from "@/components/ui/popover"
 import { format } from 'date-fns';
 import { cn } from "@/lib/utils"
-import { CalendarIcon, Plus } from 'lucide-react';
+import { CalendarIcon, Plus, Edit, Trash2, Undo2 } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { PendingPayments } from './PendingPayments';
+import { useAuth } from '@/hooks/use-auth';
+import { hasPermission } from '@/utils/permissions';
 
 interface Payment {
   id: string;
-  customer_name: string;
+  customer_id: string;
   amount: number;
   payment_date: string;
   payment_method: string;
   notes?: string;
   created_at: string;
+  reverses_payment_id: string | null;
+  customers: { name: string } | null;
 }
 
 interface Customer {
@@ -50,7 +54,7 @@ interface PaymentTrackingProps {
 }
 
 const getInitialFormData = () => ({
-  customer_name: '',
+  customer_id: '',
   amount: '',
   payment_date: new Date().toISOString(),
   payment_method: 'Cash',
@@ -58,6 +62,9 @@ const getInitialFormData = () => ({
 });
 
 export const PaymentTracking = ({ onNavigateToDelivery }: PaymentTrackingProps) => {
+  const { profile } = useAuth();
+  const canEditPayments = hasPermission(profile?.role, 'edit_payments');
+  const canReverseBalanceClear = hasPermission(profile?.role, 'clear_balances');
   const [payments, setPayments] = useState<Payment[]>([]);
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
@@ -65,6 +72,9 @@ export const PaymentTracking = ({ onNavigateToDelivery }: PaymentTrackingProps)
   const [formData, setFormData] = useState(getInitialFormData());
   const [date, setDate] = useState<Date | undefined>(new Date());
   const [refreshKey, setRefreshKey] = useState(0);
+  const [editingPaymentId, setEditingPaymentId] = useState<string | null>(null);
+  const [reversingPayment, setReversingPayment] = useState<Payment | null>(null);
+  const [reversalReason, setReversalReason] = useState('');
 
   useEffect(() => {
     loadPayments();
@@ -100,7 +110,7 @@ export const PaymentTracking = ({ onNavigateToDelivery }: PaymentTrackingProps)
       setIsLoading(true);
       const { data, error } = await supabase
         .from('payments')
-        .select('*')
+        .select('*, customers(name)')
         .order('payment_date', { ascending: false });
       
       if (error) {
@@ -125,6 +135,21 @@ export const PaymentTracking = ({ onNavigateToDelivery }: PaymentTrackingProps)
   const handleResetForm = () => {
     setFormData(getInitialFormData());
     setDate(new Date());
+    setEditingPaymentId(null);
+  };
+
+  const handleEdit = (payment: Payment) => {
+    const paymentDate = new Date(`${payment.payment_date}T00:00:00`);
+    setFormData({
+      customer_id: payment.customer_id,
+      amount: payment.amount.toString(),
+      payment_date: format(paymentDate, 'yyyy-MM-dd'),
+      payment_method: payment.payment_method,
+      notes: payment.notes || ''
+    });
+    setDate(paymentDate);
+    setEditingPaymentId(payment.id);
+    setIsAddDialogOpen(true);
   };
 
   const handleOpenChange = (open: boolean) => {
@@ -137,7 +162,7 @@ export const PaymentTracking = ({ onNavigateToDelivery }: PaymentTrackingProps)
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!formData.customer_name.trim() || !formData.amount || !formData.payment_date || !formData.payment_method) {
+    if (!formData.customer_id || !formData.amount || !formData.payment_date || !formData.payment_method) {
       toast({
         title: "Error",
         description: "All fields are required",
@@ -163,18 +188,26 @@ export const PaymentTracking = ({ onNavigateToDelivery }: PaymentTrackingProps)
       payment_date_iso = payment_date_iso.split("T")[0];
     }
 
+    const paymentData = {
+      customer_id: formData.customer_id,
+      amount: parseFloat(formData.amount),
+      payment_date: payment_date_iso,
+      payment_method: formData.payment_method,
+      notes: formData.notes.trim() || null
+    };
+
     try {
       setIsLoading(true);
 
-      const { error } = await supabase
-        .from('payments')
-        .insert({
-          customer_name: formData.customer_name.trim(),
-          amount: parseFloat(formData.amount),
-          payment_date: payment_date_iso,
-          payment_method: formData.payment_method,
-          notes: formData.notes.trim() || null
-        });
+      // The balance trigger follows both inserts and updates
+      const { error } = editingPaymentId
+        ? await supabase
+            .from('payments')
+            .update(paymentData)
+            .eq('id', editingPaymentId)
+        : await supabase
+            .from('payments')
+            .insert(paymentData);
 
       if (error) {
         console.error('Error saving payment:', error);
@@ -189,7 +222,7 @@ export const PaymentTracking = ({ onNavigateToDelivery }: PaymentTrackingProps)
 
       toast({
         title: "Success",
-        description: "Payment added successfully",
+        description: editingPaymentId ? "Payment updated successfully" : "Payment added successfully",
         duration: 2000
       });
 
@@ -211,15 +244,86 @@ export const PaymentTracking = ({ onNavigateToDelivery }: PaymentTrackingProps)
     }
   };
 
+  const handleDelete = async (payment: Payment) => {
+    const reversedNote = reversedPaymentIds.has(payment.id) ? ' Its reversal will be deleted too.' : '';
+    if (!confirm(`Delete the payment of ₹${Math.abs(payment.amount).toFixed(2)} from ${payment.customers?.name || 'this customer'}? The balance will be adjusted.${reversedNote}`)) {
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      const { error } = await supabase
+        .from('payments')
+        .delete()
+        .eq('id', payment.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Payment deleted successfully",
+        duration: 2000
+      });
+      setRefreshKey(prev => prev + 1);
+    } catch (error) {
+      console.error('Error deleting payment:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete payment",
+        variant: "destructive",
+        duration: 2000
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReverse = async () => {
+    if (!reversingPayment) return;
+
+    try {
+      setIsLoading(true);
+      const { error } = await supabase.rpc('reverse_payment', {
+        _payment_id: reversingPayment.id,
+        _reason: reversalReason.trim() || undefined
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `Payment of ₹${reversingPayment.amount.toFixed(2)} reversed`,
+        duration: 2000
+      });
+      setReversingPayment(null);
+      setReversalReason('');
+      setRefreshKey(prev => prev + 1);
+    } catch (error) {
+      console.error('Error reversing payment:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string })?.message || "Failed to reverse payment",
+        variant: "destructive",
+        duration: 2000
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handlePaymentsCleared = () => {
     // Refresh data when payments are cleared
     setRefreshKey(prev => prev + 1);
   };
 
-  const findCustomerIdByName = (customerName: string) => {
-    const customer = customers.find(c => c.name === customerName);
-    return customer?.id || customerName;
-  };
+  // Payments that have been undone, and the payments each reversal undid
+  const reversedPaymentIds = new Set(payments.map(p => p.reverses_payment_id).filter((id): id is string => !!id));
+  const paymentsById = new Map(payments.map(p => [p.id, p]));
+
+  const canReverse = (payment: Payment) =>
+    !payment.reverses_payment_id
+    && !reversedPaymentIds.has(payment.id)
+    && (payment.payment_method !== 'Balance Clear' || canReverseBalanceClear);
 
   return (
     <div className="space-y-6 pb-20 sm:pb-6">
@@ -235,14 +339,14 @@ export const PaymentTracking = ({ onNavigateToDelivery }: PaymentTrackingProps)
           </DialogTrigger>
           <DialogContent className="sm:max-w-md">
             <DialogHeader>
-              <DialogTitle>Add New Payment</DialogTitle>
+              <DialogTitle>{editingPaymentId ? 'Edit Payment' : 'Add New Payment'}</DialogTitle>
             </DialogHeader>
             <form onSubmit={handleSubmit} className="space-y-4">
               <div>
-                <Label htmlFor="customer_name">Customer Name *</Label>
+                <Label htmlFor="customer_id">Customer Name *</Label>
                 <Select
-                  value={formData.customer_name}
-                  onValueChange={(value) => setFormData({ ...formData, customer_name: value })}
+                  value={formData.customer_id}
+                  onValueChange={(value) => setFormData({ ...formData, customer_id: value })}
                   disabled={isLoading}
                 >
                   <SelectTrigger>
@@ -250,7 +354,7 @@ export const PaymentTracking = ({ onNavigateToDelivery }: PaymentTrackingProps)
                   </SelectTrigger>
                   <SelectContent>
                     {customers.map((customer) => (
-                      <SelectItem key={customer.id} value={customer.name}>
+                      <SelectItem key={customer.id} value={customer.id}>
                         {customer.name}
                       </SelectItem>
                     ))}
@@ -323,7 +427,7 @@ export const PaymentTracking = ({ onNavigateToDelivery }: PaymentTrackingProps)
               </div>
               <div className="flex gap-2 pt-4">
                 <Button type="submit" className="flex-1 bg-green-600 hover:bg-green-700" disabled={isLoading}>
-                  {isLoading ? 'Saving...' : 'Add Payment'}
+                  {isLoading ? 'Saving...' : editingPaymentId ? 'Update Payment' : 'Add Payment'}
                 </Button>
                 <Button 
                   type="button" 
@@ -387,45 +491,143 @@ export const PaymentTracking = ({ onNavigateToDelivery }: PaymentTrackingProps)
                   </td>
                 </tr>
               ) : (
-                payments.map((payment) => (
-                  <tr key={payment.id} className="hover:bg-gray-50">
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm font-medium text-gray-900">{payment.customer_name}</div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm text-gray-900">₹{payment.amount.toFixed(2)}</div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm text-gray-900">
-                        {payment.payment_date
-                          ? new Date(payment.payment_date).toLocaleDateString()
-                          : "-"}
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm text-gray-900">{payment.payment_method}</div>
-                    </td>
-                    <td className="px-6 py-4 text-sm text-gray-900 max-w-xs truncate">
-                      {payment.notes || '-'}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => onNavigateToDelivery ? onNavigateToDelivery(findCustomerIdByName(payment.customer_name)) : null}
-                        className="text-blue-600 hover:text-blue-900"
-                        disabled={isLoading}
-                      >
-                        Delivery
-                      </Button>
-                    </td>
-                  </tr>
-                ))
+                payments.map((payment) => {
+                  const isReversed = reversedPaymentIds.has(payment.id);
+                  const reversedPayment = payment.reverses_payment_id ? paymentsById.get(payment.reverses_payment_id) : undefined;
+                  return (
+                    <tr key={payment.id} className={payment.reverses_payment_id ? 'bg-red-50' : 'hover:bg-gray-50'}>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">{payment.customers?.name || '-'}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        {payment.reverses_payment_id ? (
+                          <div className="text-sm text-red-700">-₹{Math.abs(payment.amount).toFixed(2)}</div>
+                        ) : (
+                          <div className="text-sm text-gray-900">
+                            <span className={isReversed ? 'line-through text-gray-500' : ''}>₹{payment.amount.toFixed(2)}</span>
+                            {isReversed && (
+                              <span className="ml-2 rounded-full bg-red-100 px-2 py-0.5 text-xs text-red-700">Reversed</span>
+                            )}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm text-gray-900">
+                          {payment.payment_date
+                            ? new Date(payment.payment_date).toLocaleDateString()
+                            : "-"}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm text-gray-900">{payment.payment_method}</div>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900 max-w-xs truncate">
+                        {payment.reverses_payment_id
+                          ? [
+                              `Reverses ${reversedPayment ? `${reversedPayment.payment_method} payment of ${new Date(reversedPayment.payment_date).toLocaleDateString()}` : 'an earlier payment'}`,
+                              payment.notes
+                            ].filter(Boolean).join(' - ')
+                          : payment.notes || '-'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                        <div className="flex justify-end space-x-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => onNavigateToDelivery ? onNavigateToDelivery(payment.customer_id) : null}
+                            className="text-blue-600 hover:text-blue-900"
+                            disabled={isLoading}
+                          >
+                            Delivery
+                          </Button>
+                          {canReverse(payment) && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setReversingPayment(payment)}
+                              className="text-orange-600 hover:text-orange-900"
+                              disabled={isLoading}
+                              title="Reverse Payment"
+                            >
+                              <Undo2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {canEditPayments && !payment.reverses_payment_id && !isReversed && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleEdit(payment)}
+                              className="text-blue-600 hover:text-blue-900"
+                              disabled={isLoading}
+                              title="Edit Payment"
+                            >
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {canEditPayments && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDelete(payment)}
+                              className="text-red-600 hover:text-red-900"
+                              disabled={isLoading}
+                              title="Delete Payment"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })
               )}
             </tbody>
           </table>
         </div>
       </Card>
+
+      <Dialog
+        open={!!reversingPayment}
+        onOpenChange={(open) => {
+          if (!open) {
+            setReversingPayment(null);
+            setReversalReason('');
+          }
+        }}
+      >
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Reverse Payment</DialogTitle>
+          </DialogHeader>
+          {reversingPayment && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                The {reversingPayment.payment_method} payment of ₹{reversingPayment.amount.toFixed(2)} from {reversingPayment.customers?.name || 'this customer'} will
+                be cancelled by a matching reversal, and the amount added back to their balance. Both stay in the payment history.
+              </p>
+              <div>
+                <Label htmlFor="reversalReason">Reason</Label>
+                <Input
+                  id="reversalReason"
+                  value={reversalReason}
+                  onChange={(e) => setReversalReason(e.target.value)}
+                  placeholder="e.g. cleared by mistake"
+                  disabled={isLoading}
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button className="flex-1 bg-orange-600 hover:bg-orange-700" onClick={handleReverse} disabled={isLoading}>
+                  {isLoading ? 'Reversing...' : 'Reverse Payment'}
+                </Button>
+                <Button variant="outline" onClick={() => setReversingPayment(null)} disabled={isLoading}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -18,6 +18,9 @@ import {
 import { AlertCircle, Eye, Trash2 } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/use-auth';
+import { verifyStaffRole } from '@/utils/staffAuth';
+import { hasPermission } from '@/utils/permissions';
 
 interface PendingPayment {
   customer_id: string;
@@ -31,6 +34,8 @@ interface PendingPaymentsProps {
 }
 
 export const PendingPayments = ({ onViewCustomer, onPaymentsCleared }: PendingPaymentsProps) => {
+  const { user, profile } = useAuth();
+  const canClearBalances = hasPermission(profile?.role, 'clear_balances');
   const [pendingPayments, setPendingPayments] = useState<PendingPayment[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [clearingCustomerId, setClearingCustomerId] = useState<string | null>(null);
@@ -86,18 +91,21 @@ export const PendingPayments = ({ onViewCustomer, onPaymentsCleared }: PendingPa
       return;
     }
     
-    if (password !== '123') {
-      toast({
-        title: "Error",
-        description: "Incorrect password",
-        variant: "destructive",
-        duration: 2000
-      });
-      return;
-    }
-
     try {
       setIsLoading(true);
+
+      // Only owners may clear a balance; re-check against the server rather than trusting the UI
+      const verification = await verifyStaffRole({ password, allowedRoles: ['owner'] });
+      if (verification.ok === false) {
+        toast({
+          title: "Error",
+          description: verification.reason,
+          variant: "destructive",
+          duration: 2000
+        });
+        setPassword('');
+        return;
+      }
       
       // Get customer details for payment record
       const customer = pendingPayments.find(p => p.customer_id === clearingCustomerId);
@@ -107,11 +115,11 @@ export const PendingPayments = ({ onViewCustomer, onPaymentsCleared }: PendingPa
       const { error: paymentError } = await supabase
         .from('payments')
         .insert({
-          customer_name: customer.customer_name,
+          customer_id: customer.customer_id,
           amount: customer.pending_amount,
           payment_date: new Date().toISOString().split('T')[0],
           payment_method: 'Balance Clear',
-          notes: 'Cleared through admin'
+          notes: `Cleared by ${profile?.full_name || user?.email}`
         });
 
       if (paymentError) {
@@ -204,59 +212,61 @@ export const PendingPayments = ({ onViewCustomer, onPaymentsCleared }: PendingPa
                   </Button>
                 )}
                 
-                <AlertDialog 
-                  open={clearingCustomerId === payment.customer_id} 
-                  onOpenChange={(open) => handleDialogOpenChange(open, payment.customer_id)}
-                >
-                  <AlertDialogTrigger asChild>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      className="text-red-600 hover:text-red-900"
-                      disabled={isLoading}
-                    >
-                      <Trash2 className="h-4 w-4 mr-1" />
-                      Clear
-                    </Button>
-                  </AlertDialogTrigger>
-                  <AlertDialogContent>
-                    <AlertDialogHeader>
-                      <AlertDialogTitle>Clear Payment</AlertDialogTitle>
-                      <AlertDialogDescription>
-                        Are you sure you want to clear the pending payment for {currentPayment?.customer_name}? 
-                        This will add a payment record for ₹{currentPayment?.pending_amount.toFixed(2)} and clear their balance.
-                      </AlertDialogDescription>
-                    </AlertDialogHeader>
-                    <div className="my-4">
-                      <Label htmlFor="password">Enter Password</Label>
-                      <Input
-                        id="password"
-                        type="password"
-                        value={password}
-                        onChange={(e) => setPassword(e.target.value)}
-                        placeholder="Enter password to confirm"
-                        className="mt-2"
-                        onKeyPress={(e) => {
-                          if (e.key === 'Enter') {
-                            handleClearPayment();
-                          }
-                        }}
-                      />
-                    </div>
-                    <AlertDialogFooter>
-                      <AlertDialogCancel onClick={() => handleDialogOpenChange(false)}>
-                        Cancel
-                      </AlertDialogCancel>
-                      <AlertDialogAction
-                        onClick={handleClearPayment}
+                {canClearBalances && (
+                  <AlertDialog 
+                    open={clearingCustomerId === payment.customer_id} 
+                    onOpenChange={(open) => handleDialogOpenChange(open, payment.customer_id)}
+                  >
+                    <AlertDialogTrigger asChild>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="text-red-600 hover:text-red-900"
                         disabled={isLoading}
-                        className="bg-red-600 hover:bg-red-700"
                       >
-                        {isLoading ? 'Clearing...' : 'Clear Payment'}
-                      </AlertDialogAction>
-                    </AlertDialogFooter>
-                  </AlertDialogContent>
-                </AlertDialog>
+                        <Trash2 className="h-4 w-4 mr-1" />
+                        Clear
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Clear Payment</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Are you sure you want to clear the pending payment for {currentPayment?.customer_name}? 
+                          This will add a payment record for ₹{currentPayment?.pending_amount.toFixed(2)} and clear their balance.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <div className="my-4">
+                        <Label htmlFor="password">Enter Your Password</Label>
+                        <Input
+                          id="password"
+                          type="password"
+                          value={password}
+                          onChange={(e) => setPassword(e.target.value)}
+                          placeholder="Enter your account password to confirm"
+                          className="mt-2"
+                          onKeyPress={(e) => {
+                            if (e.key === 'Enter') {
+                              handleClearPayment();
+                            }
+                          }}
+                        />
+                      </div>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel onClick={() => handleDialogOpenChange(false)}>
+                          Cancel
+                        </AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={handleClearPayment}
+                          disabled={isLoading}
+                          className="bg-red-600 hover:bg-red-700"
+                        >
+                          {isLoading ? 'Clearing...' : 'Clear Payment'}
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                )}
               </div>
             </div>
           ))}
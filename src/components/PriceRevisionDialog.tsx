@@ -0,0 +1,218 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { format } from 'date-fns';
+import { toast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+
+interface PriceRevisionDialogProps {
+  milkType: { id: string; name: string; price_per_liter: number } | null;
+  onClose: () => void;
+  onApplied: () => void;
+}
+
+interface RevisionPreviewRow {
+  customer_id: string;
+  customer_name: string;
+  delivery_count: number;
+  current_amount: number;
+  revised_amount: number;
+  difference: number;
+}
+
+export const PriceRevisionDialog = ({ milkType, onClose, onApplied }: PriceRevisionDialogProps) => {
+  const [price, setPrice] = useState('');
+  const [effectiveFrom, setEffectiveFrom] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [recalculate, setRecalculate] = useState(false);
+  const [preview, setPreview] = useState<RevisionPreviewRow[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (milkType) {
+      setPrice(milkType.price_per_liter.toString());
+      setEffectiveFrom(format(new Date(), 'yyyy-MM-dd'));
+      setRecalculate(false);
+      setPreview(null);
+    }
+  }, [milkType?.id]);
+
+  // Any change to the inputs makes an earlier preview stale
+  useEffect(() => {
+    setPreview(null);
+  }, [price, effectiveFrom, recalculate]);
+
+  const parsedPrice = parseFloat(price);
+  const isValid = !isNaN(parsedPrice) && parsedPrice > 0 && !!effectiveFrom;
+
+  const handlePreview = async () => {
+    if (!milkType || !isValid) return;
+
+    try {
+      setIsLoading(true);
+      const { data, error } = await supabase.rpc('preview_price_revision', {
+        _milk_type_id: milkType.id,
+        _effective_from: effectiveFrom,
+        _price: parsedPrice
+      });
+
+      if (error) throw error;
+      setPreview(data || []);
+    } catch (error) {
+      console.error('Error previewing price revision:', error);
+      toast({
+        title: "Error",
+        description: "Failed to preview price revision",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!milkType || !isValid) return;
+
+    try {
+      setIsLoading(true);
+      const { data, error } = await supabase.rpc('apply_price_revision', {
+        _milk_type_id: milkType.id,
+        _effective_from: effectiveFrom,
+        _price: parsedPrice,
+        _recalculate: recalculate
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: recalculate
+          ? `${milkType.name} price updated and ${data || 0} deliveries recalculated`
+          : `${milkType.name} price updated`
+      });
+      onApplied();
+      onClose();
+    } catch (error) {
+      console.error('Error applying price revision:', error);
+      toast({
+        title: "Error",
+        description: "Failed to apply price revision",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const totalDifference = preview?.reduce((sum, row) => sum + Number(row.difference), 0) || 0;
+
+  return (
+    <Dialog open={!!milkType} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Revise {milkType?.name} Price</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="revisionPrice">New Price per Liter (₹) *</Label>
+              <Input
+                id="revisionPrice"
+                type="number"
+                step="0.01"
+                min="0"
+                value={price}
+                onChange={(e) => setPrice(e.target.value)}
+                disabled={isLoading}
+              />
+            </div>
+            <div>
+              <Label htmlFor="revisionEffectiveFrom">Effective From *</Label>
+              <Input
+                id="revisionEffectiveFrom"
+                type="date"
+                value={effectiveFrom}
+                onChange={(e) => setEffectiveFrom(e.target.value)}
+                disabled={isLoading}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-start space-x-2">
+            <Checkbox
+              id="revisionRecalculate"
+              checked={recalculate}
+              onCheckedChange={(checked) => setRecalculate(checked as boolean)}
+              disabled={isLoading}
+            />
+            <Label htmlFor="revisionRecalculate" className="leading-snug">
+              Recalculate deliveries already recorded from this date
+              <span className="block text-xs font-normal text-gray-500">
+                Customers with their own rate are not changed. Balances update automatically.
+              </span>
+            </Label>
+          </div>
+
+          {recalculate && preview && (
+            preview.length === 0 ? (
+              <p className="text-sm text-gray-500">No recorded deliveries change with this price.</p>
+            ) : (
+              <div className="overflow-x-auto border rounded-md">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">Customer</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500">Deliveries</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500">Current</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500">Revised</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500">Change</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {preview.map(row => (
+                      <tr key={row.customer_id}>
+                        <td className="px-3 py-2">{row.customer_name}</td>
+                        <td className="px-3 py-2 text-right">{row.delivery_count}</td>
+                        <td className="px-3 py-2 text-right">₹{Number(row.current_amount).toFixed(2)}</td>
+                        <td className="px-3 py-2 text-right">₹{Number(row.revised_amount).toFixed(2)}</td>
+                        <td className={`px-3 py-2 text-right font-medium ${Number(row.difference) >= 0 ? 'text-red-600' : 'text-green-600'}`}>
+                          {Number(row.difference) >= 0 ? '+' : ''}₹{Number(row.difference).toFixed(2)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                  <tfoot className="bg-gray-50">
+                    <tr>
+                      <td className="px-3 py-2 font-medium" colSpan={4}>Total change in balances</td>
+                      <td className="px-3 py-2 text-right font-bold">
+                        {totalDifference >= 0 ? '+' : ''}₹{totalDifference.toFixed(2)}
+                      </td>
+                    </tr>
+                  </tfoot>
+                </table>
+              </div>
+            )
+          )}
+
+          <div className="flex gap-2 pt-2">
+            {recalculate && !preview ? (
+              <Button className="flex-1 bg-blue-600 hover:bg-blue-700" onClick={handlePreview} disabled={isLoading || !isValid}>
+                {isLoading ? 'Loading...' : 'Preview Changes'}
+              </Button>
+            ) : (
+              <Button className="flex-1 bg-green-600 hover:bg-green-700" onClick={handleApply} disabled={isLoading || !isValid}>
+                {isLoading ? 'Saving...' : 'Apply Price'}
+              </Button>
+            )}
+            <Button variant="outline" onClick={onClose} disabled={isLoading}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,297 @@
+import React, { useState, useEffect } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow, TableFooter } from '@/components/ui/table';
+import { Download, FileText, ChevronDown, ChevronRight, ArrowUp, ArrowDown, BookOpen } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from '@/hooks/use-toast';
+import {
+  AGING_BUCKETS,
+  AGING_BUCKET_LABELS,
+  AgingBucket,
+  ReceivablesAgingRow,
+  UnpaidMonth,
+  loadReceivablesAging,
+  loadUnpaidMonths
+} from '@/utils/receivablesAging';
+import { generateReceivablesAgingPDF, generateReceivablesAgingCSV } from '@/utils/generate-receivables-aging';
+
+interface ReceivablesAgingProps {
+  onViewLedger?: (customerId: string) => void;
+}
+
+type SortColumn = 'customer_name' | 'total_outstanding' | 'oldest_unpaid_date' | AgingBucket;
+
+const formatDate = (date: string) => format(new Date(`${date}T00:00:00`), 'dd/MM/yyyy');
+
+const formatAmount = (amount: number) => (Number(amount) ? `₹${Number(amount).toFixed(2)}` : '-');
+
+// Older buckets are shaded darker so long-standing dues stand out
+const BUCKET_STYLES: Record<AgingBucket, string> = {
+  current_month: '',
+  days_1_30: '',
+  days_31_60: 'text-orange-600',
+  days_61_90: 'text-orange-700',
+  days_over_90: 'text-red-700 font-medium',
+};
+
+// How long each customer's unpaid amount has been owed, with payments set against the oldest deliveries first
+export const ReceivablesAging = ({ onViewLedger }: ReceivablesAgingProps) => {
+  const [asOf, setAsOf] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [loadedAsOf, setLoadedAsOf] = useState('');
+  const [rows, setRows] = useState<ReceivablesAgingRow[]>([]);
+  const [sortColumn, setSortColumn] = useState<SortColumn>('total_outstanding');
+  const [sortAscending, setSortAscending] = useState(false);
+  const [expandedCustomerId, setExpandedCustomerId] = useState<string | null>(null);
+  const [unpaidMonths, setUnpaidMonths] = useState<UnpaidMonth[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMonths, setIsLoadingMonths] = useState(false);
+
+  useEffect(() => {
+    loadAging();
+  }, []);
+
+  const loadAging = async () => {
+    if (!asOf) return;
+
+    try {
+      setIsLoading(true);
+      setRows(await loadReceivablesAging(asOf));
+      setLoadedAsOf(asOf);
+      setExpandedCustomerId(null);
+    } catch (error) {
+      console.error('Error loading receivables aging:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load receivables aging",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleCustomer = async (customerId: string) => {
+    if (expandedCustomerId === customerId) {
+      setExpandedCustomerId(null);
+      return;
+    }
+
+    setExpandedCustomerId(customerId);
+    setUnpaidMonths([]);
+    try {
+      setIsLoadingMonths(true);
+      setUnpaidMonths(await loadUnpaidMonths(customerId, loadedAsOf));
+    } catch (error) {
+      console.error('Error loading unpaid months:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load unpaid months",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoadingMonths(false);
+    }
+  };
+
+  const handleSort = (column: SortColumn) => {
+    if (column === sortColumn) {
+      setSortAscending(!sortAscending);
+    } else {
+      setSortColumn(column);
+      // Names and dates read naturally A-Z and oldest first; amounts largest first
+      setSortAscending(column === 'customer_name' || column === 'oldest_unpaid_date');
+    }
+  };
+
+  const sortedRows = [...rows].sort((a, b) => {
+    let comparison: number;
+    if (sortColumn === 'customer_name') {
+      comparison = a.customer_name.localeCompare(b.customer_name);
+    } else if (sortColumn === 'oldest_unpaid_date') {
+      // Customers with nothing unpaid go last either way
+      if (!a.oldest_unpaid_date || !b.oldest_unpaid_date) {
+        return (a.oldest_unpaid_date ? 0 : 1) - (b.oldest_unpaid_date ? 0 : 1);
+      }
+      comparison = a.oldest_unpaid_date.localeCompare(b.oldest_unpaid_date);
+    } else {
+      comparison = Number(a[sortColumn]) - Number(b[sortColumn]);
+    }
+    return sortAscending ? comparison : -comparison;
+  });
+
+  const columnTotal = (column: keyof ReceivablesAgingRow) =>
+    rows.reduce((sum, row) => sum + Number(row[column] || 0), 0);
+
+  const renderSortableHead = (column: SortColumn, label: string, className = 'text-right') => (
+    <TableHead className={className}>
+      <button type="button" className="inline-flex items-center gap-1 hover:text-gray-900" onClick={() => handleSort(column)}>
+        {label}
+        {sortColumn === column && (sortAscending ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />)}
+      </button>
+    </TableHead>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-2">
+        <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Receivables Aging</h2>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => generateReceivablesAgingPDF(sortedRows, loadedAsOf)}
+            disabled={rows.length === 0 || isLoading}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            PDF
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => generateReceivablesAgingCSV(sortedRows, loadedAsOf)}
+            disabled={rows.length === 0 || isLoading}
+          >
+            <FileText className="h-4 w-4 mr-2" />
+            CSV
+          </Button>
+        </div>
+      </div>
+
+      <Card className="p-4">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+          <div>
+            <Label htmlFor="agingAsOf">As of</Label>
+            <Input
+              id="agingAsOf"
+              type="date"
+              value={asOf}
+              onChange={(e) => setAsOf(e.target.value)}
+              disabled={isLoading}
+            />
+          </div>
+          <Button onClick={loadAging} disabled={isLoading || !asOf}>
+            {isLoading ? 'Loading...' : 'Show Aging'}
+          </Button>
+        </div>
+      </Card>
+
+      <div className="grid grid-cols-2 sm:grid-cols-6 gap-2 sm:gap-4 text-center">
+        {AGING_BUCKETS.map(bucket => (
+          <div key={bucket} className="bg-gray-50 p-2 sm:p-3 rounded">
+            <p className="text-xs text-gray-600">{AGING_BUCKET_LABELS[bucket]}</p>
+            <p className={`text-sm sm:text-lg font-bold ${BUCKET_STYLES[bucket] || 'text-gray-900'}`}>₹{columnTotal(bucket).toFixed(2)}</p>
+          </div>
+        ))}
+        <div className="bg-yellow-50 p-2 sm:p-3 rounded border-2 border-yellow-400">
+          <p className="text-xs text-gray-600">Total Outstanding</p>
+          <p className="text-sm sm:text-lg font-bold text-orange-600">₹{columnTotal('total_outstanding').toFixed(2)}</p>
+        </div>
+      </div>
+
+      <Card className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {renderSortableHead('customer_name', 'Customer', '')}
+              {AGING_BUCKETS.map(bucket => (
+                <React.Fragment key={bucket}>{renderSortableHead(bucket, AGING_BUCKET_LABELS[bucket])}</React.Fragment>
+              ))}
+              {renderSortableHead('total_outstanding', 'Total')}
+              <TableHead className="text-right">Advance</TableHead>
+              {renderSortableHead('oldest_unpaid_date', 'Oldest Unpaid')}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sortedRows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={9} className="text-center py-6 text-gray-500">
+                  {isLoading ? 'Loading...' : 'No customer owes anything on this date'}
+                </TableCell>
+              </TableRow>
+            ) : sortedRows.map(row => (
+              <React.Fragment key={row.customer_id}>
+                <TableRow className="cursor-pointer" onClick={() => toggleCustomer(row.customer_id)}>
+                  <TableCell className="font-medium">
+                    <span className="inline-flex items-center">
+                      {expandedCustomerId === row.customer_id
+                        ? <ChevronDown className="h-4 w-4 mr-1" />
+                        : <ChevronRight className="h-4 w-4 mr-1" />}
+                      {row.customer_name}
+                    </span>
+                  </TableCell>
+                  {AGING_BUCKETS.map(bucket => (
+                    <TableCell key={bucket} className={`text-right ${BUCKET_STYLES[bucket]}`}>{formatAmount(row[bucket])}</TableCell>
+                  ))}
+                  <TableCell className="text-right font-medium">{formatAmount(row.total_outstanding)}</TableCell>
+                  <TableCell className="text-right text-green-700">{formatAmount(row.advance)}</TableCell>
+                  <TableCell className="text-right whitespace-nowrap">{row.oldest_unpaid_date ? formatDate(row.oldest_unpaid_date) : '-'}</TableCell>
+                </TableRow>
+                {expandedCustomerId === row.customer_id && (
+                  <TableRow className="bg-gray-50 hover:bg-gray-50">
+                    <TableCell colSpan={9}>
+                      {isLoadingMonths ? (
+                        <p className="text-sm text-gray-500">Loading...</p>
+                      ) : unpaidMonths.length === 0 ? (
+                        <p className="text-sm text-gray-500">Nothing unpaid; payments cover every delivery</p>
+                      ) : (
+                        <div className="space-y-2">
+                          <table className="w-full max-w-xl text-sm">
+                            <thead>
+                              <tr className="text-gray-600">
+                                <th className="text-left font-medium py-1">Month</th>
+                                <th className="text-right font-medium py-1">Unpaid Days</th>
+                                <th className="text-right font-medium py-1">From</th>
+                                <th className="text-right font-medium py-1">Unpaid</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {unpaidMonths.map(month => (
+                                <tr key={month.month}>
+                                  <td className="py-1">{format(new Date(`${month.month}T00:00:00`), 'MMMM yyyy')}</td>
+                                  <td className="text-right py-1">{month.days}</td>
+                                  <td className="text-right py-1">{formatDate(month.oldestDate)}</td>
+                                  <td className="text-right py-1 font-medium">₹{month.unpaidAmount.toFixed(2)}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                          {onViewLedger && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                onViewLedger(row.customer_id);
+                              }}
+                            >
+                              <BookOpen className="h-4 w-4 mr-1" />
+                              View Ledger
+                            </Button>
+                          )}
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </React.Fragment>
+            ))}
+          </TableBody>
+          {sortedRows.length > 0 && (
+            <TableFooter>
+              <TableRow>
+                <TableCell>Total</TableCell>
+                {AGING_BUCKETS.map(bucket => (
+                  <TableCell key={bucket} className="text-right">₹{columnTotal(bucket).toFixed(2)}</TableCell>
+                ))}
+                <TableCell className="text-right">₹{columnTotal('total_outstanding').toFixed(2)}</TableCell>
+                <TableCell className="text-right">₹{columnTotal('advance').toFixed(2)}</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableFooter>
+          )}
+        </Table>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,537 @@
+import React, { useState, useEffect } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Plus, Edit, Trash2, Route, GripVertical, ArrowUp, ArrowDown, X, Save } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/use-auth';
+import { hasPermission } from '@/utils/permissions';
+import { DeliveryRoute, loadRoutes } from '@/utils/routes';
+
+interface Customer {
+  id: string;
+  name: string;
+  address: string | null;
+}
+
+interface DeliveryBoy {
+  id: string;
+  full_name: string | null;
+  email: string | null;
+}
+
+const emptyForm = () => ({
+  name: '',
+  assignedTo: '',
+  notes: ''
+});
+
+export const RouteManagement = () => {
+  const { profile } = useAuth();
+  const canManageRoutes = hasPermission(profile?.role, 'manage_routes');
+  const [routes, setRoutes] = useState<DeliveryRoute[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [deliveryBoys, setDeliveryBoys] = useState<DeliveryBoy[]>([]);
+  const [selectedRouteId, setSelectedRouteId] = useState<string>('');
+  // Working copy of the selected route's order; saved in one go with set_route_customers
+  const [stopIds, setStopIds] = useState<string[]>([]);
+  const [isDirty, setIsDirty] = useState(false);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [customerToAdd, setCustomerToAdd] = useState('');
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingRoute, setEditingRoute] = useState<DeliveryRoute | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [formData, setFormData] = useState(emptyForm());
+
+  useEffect(() => {
+    loadCustomers();
+    loadDeliveryBoys();
+    refreshRoutes();
+  }, []);
+
+  const selectedRoute = routes.find(route => route.id === selectedRouteId);
+
+  useEffect(() => {
+    setStopIds(selectedRoute ? selectedRoute.customerIds : []);
+    setIsDirty(false);
+    setCustomerToAdd('');
+  }, [selectedRouteId, routes]);
+
+  const loadCustomers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('customers')
+        .select('id, name, address')
+        .order('name');
+
+      if (error) throw error;
+      setCustomers(data || []);
+    } catch (error) {
+      console.error('Error loading customers:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load customers",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const loadDeliveryBoys = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, full_name, email')
+        .eq('role', 'delivery_boy')
+        .order('full_name');
+
+      if (error) throw error;
+      setDeliveryBoys(data || []);
+    } catch (error) {
+      console.error('Error loading delivery boys:', error);
+    }
+  };
+
+  const refreshRoutes = async () => {
+    try {
+      setIsLoading(true);
+      const data = await loadRoutes();
+      setRoutes(data);
+      setSelectedRouteId(prev => data.some(route => route.id === prev) ? prev : (data[0]?.id || ''));
+    } catch (error) {
+      console.error('Error loading routes:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load routes",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const getDeliveryBoyName = (profileId: string | null) => {
+    if (!profileId) return 'Not assigned';
+    const deliveryBoy = deliveryBoys.find(boy => boy.id === profileId);
+    return deliveryBoy ? (deliveryBoy.full_name || deliveryBoy.email || 'Unnamed') : 'Unknown staff member';
+  };
+
+  const resetForm = () => {
+    setFormData(emptyForm());
+    setEditingRoute(null);
+    setIsDialogOpen(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!canManageRoutes) {
+      toast({
+        title: "Error",
+        description: "You do not have permission to change routes",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (!formData.name.trim()) {
+      toast({
+        title: "Error",
+        description: "Route name is required",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const payload = {
+      name: formData.name.trim(),
+      assigned_to: formData.assignedTo || null,
+      notes: formData.notes.trim() || null
+    };
+
+    try {
+      setIsLoading(true);
+
+      if (editingRoute) {
+        const { error } = await supabase
+          .from('routes')
+          .update(payload)
+          .eq('id', editingRoute.id);
+
+        if (error) throw error;
+
+        toast({
+          title: "Success",
+          description: "Route updated successfully"
+        });
+      } else {
+        const { data, error } = await supabase
+          .from('routes')
+          .insert(payload)
+          .select('id')
+          .single();
+
+        if (error) throw error;
+        setSelectedRouteId(data.id);
+
+        toast({
+          title: "Success",
+          description: "Route added successfully"
+        });
+      }
+
+      resetForm();
+      await refreshRoutes();
+    } catch (error) {
+      console.error('Error saving route:', error);
+      toast({
+        title: "Error",
+        description: (error as { code?: string })?.code === '23505'
+          ? "A route with this name already exists"
+          : "Failed to save route",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleEdit = (route: DeliveryRoute) => {
+    setEditingRoute(route);
+    setFormData({
+      name: route.name,
+      assignedTo: route.assigned_to || '',
+      notes: route.notes || ''
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = async (route: DeliveryRoute) => {
+    if (!canManageRoutes) return;
+
+    if (!confirm(`Delete the route "${route.name}"? Its customers are kept and can be added to another route.`)) {
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      const { error } = await supabase
+        .from('routes')
+        .delete()
+        .eq('id', route.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Route deleted successfully"
+      });
+      await refreshRoutes();
+    } catch (error) {
+      console.error('Error deleting route:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete route",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const moveStop = (fromIndex: number, toIndex: number) => {
+    if (fromIndex === toIndex || toIndex < 0 || toIndex >= stopIds.length) return;
+    setStopIds(prev => {
+      const next = [...prev];
+      const [moved] = next.splice(fromIndex, 1);
+      next.splice(toIndex, 0, moved);
+      return next;
+    });
+    setIsDirty(true);
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null) {
+      moveStop(dragIndex, index);
+    }
+    setDragIndex(null);
+  };
+
+  const handleAddStop = () => {
+    if (!customerToAdd) return;
+    setStopIds(prev => [...prev, customerToAdd]);
+    setCustomerToAdd('');
+    setIsDirty(true);
+  };
+
+  const handleRemoveStop = (customerId: string) => {
+    setStopIds(prev => prev.filter(id => id !== customerId));
+    setIsDirty(true);
+  };
+
+  const handleSaveOrder = async () => {
+    if (!selectedRoute) return;
+
+    try {
+      setIsLoading(true);
+      const { error } = await supabase.rpc('set_route_customers', {
+        _route_id: selectedRoute.id,
+        _customer_ids: stopIds
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `Saved the order for ${selectedRoute.name}`
+      });
+      await refreshRoutes();
+    } catch (error) {
+      console.error('Error saving route order:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save route order",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Which other route a customer is on, so adding them here is shown as a move
+  const getOtherRouteName = (customerId: string) =>
+    routes.find(route => route.id !== selectedRouteId && route.customerIds.includes(customerId))?.name;
+
+  const availableCustomers = customers.filter(customer => !stopIds.includes(customer.id));
+  const unroutedCount = customers.filter(customer => !routes.some(route => route.customerIds.includes(customer.id))).length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl sm:text-3xl font-bold text-gray-900">Routes</h2>
+
+        <Dialog open={isDialogOpen} onOpenChange={(open) => open ? setIsDialogOpen(true) : resetForm()}>
+          {canManageRoutes && (
+            <DialogTrigger asChild>
+              <Button className="bg-green-600 hover:bg-green-700" disabled={isLoading}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Route
+              </Button>
+            </DialogTrigger>
+          )}
+          <DialogContent className="sm:max-w-md">
+            <DialogHeader>
+              <DialogTitle>
+                {editingRoute ? 'Edit Route' : 'Add New Route'}
+              </DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="routeName">Route Name *</Label>
+                <Input
+                  id="routeName"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="e.g., Station Road"
+                  required
+                  disabled={isLoading}
+                />
+              </div>
+              <div>
+                <Label htmlFor="assignedTo">Delivery Boy</Label>
+                <select
+                  id="assignedTo"
+                  className="w-full rounded-md border border-gray-200 px-3 py-2 shadow-sm focus:border-blue-500 focus:ring-blue-500 disabled:cursor-not-allowed"
+                  value={formData.assignedTo}
+                  onChange={(e) => setFormData({ ...formData, assignedTo: e.target.value })}
+                  disabled={isLoading}
+                >
+                  <option value="">Not assigned</option>
+                  {deliveryBoys.map(deliveryBoy => (
+                    <option key={deliveryBoy.id} value={deliveryBoy.id}>
+                      {deliveryBoy.full_name || deliveryBoy.email}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="routeNotes">Notes</Label>
+                <Input
+                  id="routeNotes"
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                  placeholder="Optional notes"
+                  disabled={isLoading}
+                />
+              </div>
+              <div className="flex gap-2 pt-4">
+                <Button type="submit" className="flex-1 bg-green-600 hover:bg-green-700" disabled={isLoading}>
+                  {isLoading ? 'Saving...' : (editingRoute ? 'Update Route' : 'Add Route')}
+                </Button>
+                <Button type="button" variant="outline" onClick={resetForm} disabled={isLoading}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {routes.length === 0 ? (
+        <Card className="p-8 text-center">
+          <div className="text-gray-500">
+            <Route className="h-12 w-12 mx-auto mb-3 text-gray-300" />
+            <p className="text-lg font-medium">{isLoading ? 'Loading routes...' : 'No routes yet'}</p>
+            {!isLoading && <p className="text-sm">Add a route for each delivery round, then put its customers in street order</p>}
+          </div>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Route list */}
+          <div className="space-y-3">
+            {routes.map(route => (
+              <Card
+                key={route.id}
+                className={`p-4 cursor-pointer transition-shadow hover:shadow-lg ${route.id === selectedRouteId ? 'ring-2 ring-blue-500' : ''}`}
+                onClick={() => setSelectedRouteId(route.id)}
+              >
+                <div className="flex justify-between items-start">
+                  <div>
+                    <h3 className="font-semibold text-gray-900">{route.name}</h3>
+                    <p className="text-sm text-gray-600">{getDeliveryBoyName(route.assigned_to)}</p>
+                    <p className="text-xs text-gray-500">
+                      {route.customerIds.length} {route.customerIds.length === 1 ? 'customer' : 'customers'}
+                    </p>
+                  </div>
+                  {canManageRoutes && (
+                    <div className="flex space-x-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={(e) => { e.stopPropagation(); handleEdit(route); }}
+                        className="text-blue-600 hover:text-blue-900"
+                        disabled={isLoading}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={(e) => { e.stopPropagation(); handleDelete(route); }}
+                        className="text-red-600 hover:text-red-900"
+                        disabled={isLoading}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </Card>
+            ))}
+            {unroutedCount > 0 && (
+              <p className="text-sm text-amber-700">
+                {unroutedCount} {unroutedCount === 1 ? 'customer is' : 'customers are'} not on any route
+              </p>
+            )}
+          </div>
+
+          {/* Customers of the selected route in round order */}
+          {selectedRoute && (
+            <Card className="p-4 lg:col-span-2">
+              <div className="flex items-center justify-between gap-2 mb-3">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900">{selectedRoute.name}</h3>
+                  <p className="text-sm text-gray-500">Drag customers into the order of the round</p>
+                </div>
+                {canManageRoutes && (
+                  <Button
+                    onClick={handleSaveOrder}
+                    className="bg-blue-600 hover:bg-blue-700"
+                    disabled={isLoading || !isDirty}
+                  >
+                    <Save className="h-4 w-4 mr-2" />
+                    {isLoading ? 'Saving...' : 'Save Order'}
+                  </Button>
+                )}
+              </div>
+
+              {canManageRoutes && (
+                <div className="flex gap-2 mb-4">
+                  <select
+                    className="w-full rounded-md border border-gray-200 px-3 py-2 shadow-sm focus:border-blue-500 focus:ring-blue-500 disabled:cursor-not-allowed"
+                    value={customerToAdd}
+                    onChange={(e) => setCustomerToAdd(e.target.value)}
+                    disabled={isLoading}
+                  >
+                    <option value="">Add a customer to this route</option>
+                    {availableCustomers.map(customer => {
+                      const otherRoute = getOtherRouteName(customer.id);
+                      return (
+                        <option key={customer.id} value={customer.id}>
+                          {customer.name}{otherRoute ? ` (move from ${otherRoute})` : ''}
+                        </option>
+                      );
+                    })}
+                  </select>
+                  <Button variant="outline" onClick={handleAddStop} disabled={isLoading || !customerToAdd}>
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+
+              {stopIds.length === 0 ? (
+                <p className="text-center py-6 text-gray-500">No customers on this route yet</p>
+              ) : (
+                <ol className="space-y-2">
+                  {stopIds.map((customerId, index) => {
+                    const customer = customers.find(c => c.id === customerId);
+                    return (
+                      <li
+                        key={customerId}
+                        draggable={canManageRoutes && !isLoading}
+                        onDragStart={() => setDragIndex(index)}
+                        onDragOver={(e) => e.preventDefault()}
+                        onDrop={() => handleDrop(index)}
+                        onDragEnd={() => setDragIndex(null)}
+                        className={`flex items-center gap-2 rounded-md border bg-white p-2 ${dragIndex === index ? 'opacity-50' : ''}`}
+                      >
+                        {canManageRoutes && <GripVertical className="h-4 w-4 text-gray-400 cursor-move flex-shrink-0" />}
+                        <span className="w-6 text-sm text-gray-500 text-right">{index + 1}.</span>
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-medium text-gray-900 truncate">{customer?.name || 'Unknown customer'}</p>
+                          {customer?.address && <p className="text-xs text-gray-500 truncate">{customer.address}</p>}
+                        </div>
+                        {/* Buttons as well as dragging, since drag and drop does not work on phone screens */}
+                        {canManageRoutes && (
+                          <div className="flex">
+                            <Button variant="ghost" size="sm" onClick={() => moveStop(index, index - 1)} disabled={isLoading || index === 0}>
+                              <ArrowUp className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => moveStop(index, index + 1)} disabled={isLoading || index === stopIds.length - 1}>
+                              <ArrowDown className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-red-600 hover:text-red-900"
+                              onClick={() => handleRemoveStop(customerId)}
+                              disabled={isLoading}
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ol>
+              )}
+            </Card>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { FileText } from 'lucide-react';
+import { format, subDays } from 'date-fns';
+import { toast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { DeliveryShift, DELIVERY_SHIFTS, SHIFT_LABELS } from '@/utils/shifts';
+import { DeliveryRoute, loadRoutes } from '@/utils/routes';
+import { ROUTE_SHEET_LOOKBACK_DAYS, buildRouteSheet, generateRouteSheet } from '@/utils/generate-route-sheet';
+import { loadRecentDeliveries } from '@/utils/deliveryHistory';
+
+const BOTH_SHIFTS = 'both';
+const ALL_ROUTES = '';
+
+// Printable sheet for the morning load: each route's customers in round order with their usual quantities
+export const RouteSheetDialog = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [routes, setRoutes] = useState<DeliveryRoute[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [deliveryDate, setDeliveryDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [shift, setShift] = useState<DeliveryShift | typeof BOTH_SHIFTS>(BOTH_SHIFTS);
+  const [routeId, setRouteId] = useState(ALL_ROUTES);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadRoutes()
+        .then(setRoutes)
+        .catch(error => console.error('Error loading routes:', error));
+    }
+  }, [isOpen]);
+
+  const handleGenerate = async () => {
+    if (!deliveryDate) return;
+
+    try {
+      setIsLoading(true);
+      const since = format(subDays(new Date(`${deliveryDate}T00:00:00`), ROUTE_SHEET_LOOKBACK_DAYS), 'yyyy-MM-dd');
+
+      const { data: customersData, error: customersError } = await supabase
+        .from('customers')
+        .select('id, name, address, phone_number')
+        .order('name');
+
+      if (customersError) throw customersError;
+
+      const { data: milkTypesData, error: milkTypesError } = await supabase
+        .from('milk_types')
+        .select('id, name')
+        .order('name');
+
+      if (milkTypesError) throw milkTypesError;
+
+      const recordsData = await loadRecentDeliveries(since, deliveryDate);
+
+      const { data: pausesData, error: pausesError } = await supabase
+        .from('customer_pauses')
+        .select('customer_id')
+        .lte('start_date', deliveryDate)
+        .gte('end_date', deliveryDate);
+
+      if (pausesError) throw pausesError;
+
+      const selectedRoute = routes.find(route => route.id === routeId);
+      const sheet = buildRouteSheet(
+        selectedRoute
+          ? (customersData || []).filter(customer => selectedRoute.customerIds.includes(customer.id))
+          : customersData || [],
+        selectedRoute ? [selectedRoute] : routes,
+        recordsData,
+        shift === BOTH_SHIFTS ? DELIVERY_SHIFTS : [shift],
+        (pausesData || []).map(pause => pause.customer_id)
+      );
+
+      generateRouteSheet(sheet, milkTypesData || [], deliveryDate);
+    } catch (error) {
+      console.error('Error generating route sheet:', error);
+      toast({
+        title: "Error",
+        description: "Failed to generate route sheet",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <FileText className="h-4 w-4 mr-2" />
+          Route Sheet
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Route Sheet</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="routeSheetDate">Delivery Date</Label>
+            <Input
+              id="routeSheetDate"
+              type="date"
+              value={deliveryDate}
+              onChange={(e) => setDeliveryDate(e.target.value)}
+              disabled={isLoading}
+            />
+          </div>
+          <div>
+            <Label htmlFor="routeSheetShift">Shift</Label>
+            <select
+              id="routeSheetShift"
+              className="w-full rounded-md border border-gray-200 px-3 py-2 shadow-sm focus:border-blue-500 focus:ring-blue-500 disabled:cursor-not-allowed"
+              value={shift}
+              onChange={(e) => setShift(e.target.value as DeliveryShift | typeof BOTH_SHIFTS)}
+              disabled={isLoading}
+            >
+              <option value={BOTH_SHIFTS}>Both shifts</option>
+              {DELIVERY_SHIFTS.map(s => (
+                <option key={s} value={s}>{SHIFT_LABELS[s]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <Label htmlFor="routeSheetRoute">Route</Label>
+            <select
+              id="routeSheetRoute"
+              className="w-full rounded-md border border-gray-200 px-3 py-2 shadow-sm focus:border-blue-500 focus:ring-blue-500 disabled:cursor-not-allowed"
+              value={routeId}
+              onChange={(e) => setRouteId(e.target.value)}
+              disabled={isLoading}
+            >
+              <option value={ALL_ROUTES}>All routes</option>
+              {routes.map(route => (
+                <option key={route.id} value={route.id}>{route.name}</option>
+              ))}
+            </select>
+          </div>
+          <p className="text-sm text-gray-500">
+            Quantities are each customer's usual order over the last {ROUTE_SHEET_LOOKBACK_DAYS} days. Customers paused on this date are left out.
+          </p>
+          <div className="flex gap-2 pt-2">
+            <Button onClick={handleGenerate} className="flex-1 bg-blue-600 hover:bg-blue-700" disabled={isLoading || !deliveryDate}>
+              {isLoading ? 'Generating...' : 'Download PDF'}
+            </Button>
+            <Button type="button" variant="outline" onClick={() => setIsOpen(false)} disabled={isLoading}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,647 @@
+import React, { useState, useEffect } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Plus, Edit, Trash2, Repeat, PlayCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/use-auth';
+import { hasPermission } from '@/utils/permissions';
+import { DeliveryShift, DELIVERY_SHIFTS, SHIFT_LABELS } from '@/utils/shifts';
+import { CustomerPauses } from './CustomerPauses';
+
+interface Subscription {
+  id: string;
+  customer_id: string;
+  milk_type_id: string;
+  quantity: number;
+  shifts: string[];
+  weekdays: number[];
+  start_date: string;
+  end_date: string | null;
+  is_active: boolean;
+  notes: string | null;
+  customers?: { name: string } | null;
+  milk_types?: { name: string; price_per_liter: number } | null;
+}
+
+interface Customer {
+  id: string;
+  name: string;
+}
+
+interface MilkType {
+  id: string;
+  name: string;
+  price_per_liter: number;
+}
+
+// Same numbering as Date.getDay() and Postgres EXTRACT(DOW)
+const WEEKDAYS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 0, label: 'Sun' }
+];
+
+const ALL_WEEKDAYS = WEEKDAYS.map(day => day.value);
+
+// Raised by the database when another active subscription covers the same milk type, shift and days
+const OVERLAPPING_SUBSCRIPTION_CODE = 'SB001';
+const OVERLAPPING_SUBSCRIPTION_MESSAGE = 'This customer already has this milk type for that shift on some of these days. End the other subscription first.';
+
+const isOverlappingSubscriptionError = (error: unknown) =>
+  (error as { code?: string })?.code === OVERLAPPING_SUBSCRIPTION_CODE;
+
+const emptyForm = () => ({
+  customerId: '',
+  milkTypeId: '',
+  quantity: '',
+  shifts: ['morning'] as DeliveryShift[],
+  weekdays: ALL_WEEKDAYS,
+  startDate: format(new Date(), 'yyyy-MM-dd'),
+  endDate: '',
+  notes: ''
+});
+
+const formatWeekdays = (weekdays: number[]) => {
+  if (weekdays.length === 7) return 'Every day';
+  return WEEKDAYS.filter(day => weekdays.includes(day.value)).map(day => day.label).join(', ');
+};
+
+export const SubscriptionManagement = () => {
+  const { profile } = useAuth();
+  const canManageSubscriptions = hasPermission(profile?.role, 'manage_subscriptions');
+  const [subscriptions, setSubscriptions] = useState<Subscription[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [milkTypes, setMilkTypes] = useState<MilkType[]>([]);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingSubscription, setEditingSubscription] = useState<Subscription | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [generateDate, setGenerateDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [formData, setFormData] = useState(emptyForm());
+
+  useEffect(() => {
+    loadCustomers();
+    loadMilkTypes();
+    loadSubscriptions();
+  }, []);
+
+  const loadCustomers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('customers')
+        .select('id, name')
+        .order('name');
+
+      if (error) throw error;
+      setCustomers(data || []);
+    } catch (error) {
+      console.error('Error loading customers:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load customers",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const loadMilkTypes = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('milk_types')
+        .select('id, name, price_per_liter')
+        .order('name');
+
+      if (error) throw error;
+      setMilkTypes(data || []);
+    } catch (error) {
+      console.error('Error loading milk types:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load milk types",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const loadSubscriptions = async () => {
+    try {
+      setIsLoading(true);
+      const { data, error } = await supabase
+        .from('subscriptions')
+        .select('*, customers(name), milk_types(name, price_per_liter)')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      const sorted = (data || []).sort((a, b) =>
+        (a.customers?.name || '').localeCompare(b.customers?.name || '')
+      );
+      setSubscriptions(sorted);
+    } catch (error) {
+      console.error('Error loading subscriptions:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load subscriptions",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const resetForm = () => {
+    setFormData(emptyForm());
+    setEditingSubscription(null);
+    setIsDialogOpen(false);
+  };
+
+  const toggleShift = (shift: DeliveryShift, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      shifts: checked
+        ? DELIVERY_SHIFTS.filter(s => s === shift || prev.shifts.includes(s))
+        : prev.shifts.filter(s => s !== shift)
+    }));
+  };
+
+  const toggleWeekday = (weekday: number, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      weekdays: checked
+        ? ALL_WEEKDAYS.filter(d => d === weekday || prev.weekdays.includes(d))
+        : prev.weekdays.filter(d => d !== weekday)
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!canManageSubscriptions) {
+      toast({
+        title: "Error",
+        description: "You do not have permission to change subscriptions",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (!formData.customerId || !formData.milkTypeId || !formData.quantity) {
+      toast({
+        title: "Error",
+        description: "Customer, milk type and quantity are required",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const quantity = parseFloat(formData.quantity);
+    if (isNaN(quantity) || quantity <= 0) {
+      toast({
+        title: "Error",
+        description: "Please enter a valid quantity",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (formData.shifts.length === 0 || formData.weekdays.length === 0) {
+      toast({
+        title: "Error",
+        description: "Pick at least one shift and one weekday",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (formData.endDate && formData.endDate < formData.startDate) {
+      toast({
+        title: "Error",
+        description: "End date cannot be before the start date",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const payload = {
+      customer_id: formData.customerId,
+      milk_type_id: formData.milkTypeId,
+      quantity,
+      shifts: formData.shifts,
+      weekdays: formData.weekdays,
+      start_date: formData.startDate,
+      end_date: formData.endDate || null,
+      notes: formData.notes.trim() || null
+    };
+
+    try {
+      setIsLoading(true);
+
+      if (editingSubscription) {
+        const { error } = await supabase
+          .from('subscriptions')
+          .update(payload)
+          .eq('id', editingSubscription.id);
+
+        if (error) throw error;
+
+        toast({
+          title: "Success",
+          description: "Subscription updated successfully"
+        });
+      } else {
+        const { error } = await supabase
+          .from('subscriptions')
+          .insert(payload);
+
+        if (error) throw error;
+
+        toast({
+          title: "Success",
+          description: "Subscription added successfully"
+        });
+      }
+
+      resetForm();
+      await loadSubscriptions();
+    } catch (error) {
+      console.error('Error saving subscription:', error);
+      toast({
+        title: "Error",
+        description: isOverlappingSubscriptionError(error) ? OVERLAPPING_SUBSCRIPTION_MESSAGE : "Failed to save subscription",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleEdit = (subscription: Subscription) => {
+    setEditingSubscription(subscription);
+    setFormData({
+      customerId: subscription.customer_id,
+      milkTypeId: subscription.milk_type_id,
+      quantity: subscription.quantity.toString(),
+      shifts: DELIVERY_SHIFTS.filter(shift => subscription.shifts.includes(shift)),
+      weekdays: subscription.weekdays,
+      startDate: subscription.start_date,
+      endDate: subscription.end_date || '',
+      notes: subscription.notes || ''
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleToggleActive = async (subscription: Subscription) => {
+    try {
+      setIsLoading(true);
+      const { error } = await supabase
+        .from('subscriptions')
+        .update({ is_active: !subscription.is_active })
+        .eq('id', subscription.id);
+
+      if (error) throw error;
+      await loadSubscriptions();
+    } catch (error) {
+      console.error('Error updating subscription:', error);
+      toast({
+        title: "Error",
+        description: isOverlappingSubscriptionError(error) ? OVERLAPPING_SUBSCRIPTION_MESSAGE : "Failed to update subscription",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDelete = async (subscription: Subscription) => {
+    if (!canManageSubscriptions) return;
+
+    if (!confirm(`Delete the subscription for ${subscription.customers?.name || 'this customer'}? Deliveries already generated are kept.`)) {
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      const { error } = await supabase
+        .from('subscriptions')
+        .delete()
+        .eq('id', subscription.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Subscription deleted successfully"
+      });
+      await loadSubscriptions();
+    } catch (error) {
+      console.error('Error deleting subscription:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete subscription",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleGenerateDeliveries = async () => {
+    if (!generateDate) return;
+
+    try {
+      setIsGenerating(true);
+      const { data, error } = await supabase.rpc('generate_subscription_deliveries', {
+        _delivery_date: generateDate
+      });
+
+      if (error) throw error;
+
+      const count = data || 0;
+      toast({
+        title: "Deliveries Generated",
+        description: count > 0
+          ? `Created ${count} deliveries for ${format(new Date(`${generateDate}T00:00:00`), 'dd/MM/yyyy')}. Edit any exceptions in Delivery Records.`
+          : "No new deliveries - everything for this date is already recorded."
+      });
+    } catch (error) {
+      console.error('Error generating deliveries:', error);
+      toast({
+        title: "Error",
+        description: "Failed to generate deliveries",
+        variant: "destructive"
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl sm:text-3xl font-bold text-gray-900">Subscriptions</h2>
+
+        <Dialog open={isDialogOpen} onOpenChange={(open) => open ? setIsDialogOpen(true) : resetForm()}>
+          {canManageSubscriptions && (
+            <DialogTrigger asChild>
+              <Button className="bg-green-600 hover:bg-green-700" disabled={isLoading}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Subscription
+              </Button>
+            </DialogTrigger>
+          )}
+          <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>
+                {editingSubscription ? 'Edit Subscription' : 'Add New Subscription'}
+              </DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="customerId">Customer *</Label>
+                <select
+                  id="customerId"
+                  className="w-full rounded-md border border-gray-200 px-3 py-2 shadow-sm focus:border-blue-500 focus:ring-blue-500 disabled:cursor-not-allowed"
+                  value={formData.customerId}
+                  onChange={(e) => setFormData({ ...formData, customerId: e.target.value })}
+                  required
+                  disabled={isLoading}
+                >
+                  <option value="" disabled>Select a customer</option>
+                  {customers.map(customer => (
+                    <option key={customer.id} value={customer.id}>{customer.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="milkTypeId">Milk Type *</Label>
+                <select
+                  id="milkTypeId"
+                  className="w-full rounded-md border border-gray-200 px-3 py-2 shadow-sm focus:border-blue-500 focus:ring-blue-500 disabled:cursor-not-allowed"
+                  value={formData.milkTypeId}
+                  onChange={(e) => setFormData({ ...formData, milkTypeId: e.target.value })}
+                  required
+                  disabled={isLoading}
+                >
+                  <option value="" disabled>Select a milk type</option>
+                  {milkTypes.map(milkType => (
+                    <option key={milkType.id} value={milkType.id}>{milkType.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="quantity">Quantity per Shift (Liters) *</Label>
+                <Input
+                  id="quantity"
+                  type="number"
+                  step="0.25"
+                  min="0"
+                  value={formData.quantity}
+                  onChange={(e) => setFormData({ ...formData, quantity: e.target.value })}
+                  placeholder="e.g., 1.5"
+                  required
+                  disabled={isLoading}
+                />
+              </div>
+              <div>
+                <Label>Shifts *</Label>
+                <div className="flex gap-4 mt-2">
+                  {DELIVERY_SHIFTS.map(shift => (
+                    <div key={shift} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`shift-${shift}`}
+                        checked={formData.shifts.includes(shift)}
+                        onCheckedChange={(checked) => toggleShift(shift, checked as boolean)}
+                        disabled={isLoading}
+                      />
+                      <Label htmlFor={`shift-${shift}`}>{SHIFT_LABELS[shift]}</Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <Label>Weekdays *</Label>
+                <div className="grid grid-cols-4 gap-2 mt-2">
+                  {WEEKDAYS.map(day => (
+                    <div key={day.value} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`weekday-${day.value}`}
+                        checked={formData.weekdays.includes(day.value)}
+                        onCheckedChange={(checked) => toggleWeekday(day.value, checked as boolean)}
+                        disabled={isLoading}
+                      />
+                      <Label htmlFor={`weekday-${day.value}`}>{day.label}</Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor="startDate">Start Date *</Label>
+                  <Input
+                    id="startDate"
+                    type="date"
+                    value={formData.startDate}
+                    onChange={(e) => setFormData({ ...formData, startDate: e.target.value })}
+                    required
+                    disabled={isLoading}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="endDate">End Date</Label>
+                  <Input
+                    id="endDate"
+                    type="date"
+                    value={formData.endDate}
+                    onChange={(e) => setFormData({ ...formData, endDate: e.target.value })}
+                    disabled={isLoading}
+                  />
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="notes">Notes</Label>
+                <Input
+                  id="notes"
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                  placeholder="Optional notes"
+                  disabled={isLoading}
+                />
+              </div>
+              <div className="flex gap-2 pt-4">
+                <Button type="submit" className="flex-1 bg-green-600 hover:bg-green-700" disabled={isLoading}>
+                  {isLoading ? 'Saving...' : (editingSubscription ? 'Update Subscription' : 'Add Subscription')}
+                </Button>
+                <Button type="button" variant="outline" onClick={resetForm} disabled={isLoading}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {/* Generate deliveries from subscriptions */}
+      {canManageSubscriptions && (
+        <Card className="p-4">
+          <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+            <div>
+              <Label htmlFor="generateDate">Delivery Date</Label>
+              <Input
+                id="generateDate"
+                type="date"
+                value={generateDate}
+                onChange={(e) => setGenerateDate(e.target.value)}
+                disabled={isGenerating}
+              />
+            </div>
+            <Button
+              onClick={handleGenerateDeliveries}
+              className="bg-blue-600 hover:bg-blue-700"
+              disabled={isGenerating || !generateDate}
+            >
+              <PlayCircle className="h-4 w-4 mr-2" />
+              {isGenerating ? 'Generating...' : "Generate Deliveries"}
+            </Button>
+            <p className="text-sm text-gray-500 sm:ml-2">
+              Creates delivery records for every active subscription. Paused customers and anyone already entered for that date and shift are skipped.
+            </p>
+          </div>
+        </Card>
+      )}
+
+      <CustomerPauses customers={customers} canManage={canManageSubscriptions} />
+
+      {/* Subscriptions List */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {isLoading && subscriptions.length === 0 ? (
+          <Card className="col-span-full p-8 text-center">
+            <div className="text-gray-500">
+              <p className="text-lg font-medium">Loading subscriptions...</p>
+            </div>
+          </Card>
+        ) : subscriptions.length === 0 ? (
+          <Card className="col-span-full p-8 text-center">
+            <div className="text-gray-500">
+              <Repeat className="h-12 w-12 mx-auto mb-3 text-gray-300" />
+              <p className="text-lg font-medium">No subscriptions yet</p>
+              <p className="text-sm">Add the regular daily quantity for each customer</p>
+            </div>
+          </Card>
+        ) : (
+          subscriptions.map((subscription) => (
+            <Card
+              key={subscription.id}
+              className={`p-6 hover:shadow-lg transition-shadow ${subscription.is_active ? '' : 'opacity-60'}`}
+            >
+              <div className="flex justify-between items-start mb-3">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900">{subscription.customers?.name || 'Unknown'}</h3>
+                  <p className="text-sm text-gray-600">
+                    {subscription.quantity}L {subscription.milk_types?.name || 'N/A'}
+                  </p>
+                </div>
+                {canManageSubscriptions && (
+                  <div className="flex space-x-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleEdit(subscription)}
+                      className="text-blue-600 hover:text-blue-900"
+                      disabled={isLoading}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(subscription)}
+                      className="text-red-600 hover:text-red-900"
+                      disabled={isLoading}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-1 text-sm text-gray-600">
+                <p>
+                  {subscription.shifts.map(shift => SHIFT_LABELS[shift as DeliveryShift] || shift).join(' & ')}
+                  {' · '}
+                  {formatWeekdays(subscription.weekdays)}
+                </p>
+                <p className="text-xs text-gray-400">
+                  From {format(new Date(`${subscription.start_date}T00:00:00`), 'dd/MM/yyyy')}
+                  {subscription.end_date && ` to ${format(new Date(`${subscription.end_date}T00:00:00`), 'dd/MM/yyyy')}`}
+                </p>
+                {subscription.notes && <p className="text-xs">{subscription.notes}</p>}
+              </div>
+
+              {canManageSubscriptions && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="mt-3"
+                  onClick={() => handleToggleActive(subscription)}
+                  disabled={isLoading}
+                >
+                  {subscription.is_active ? 'Stop' : 'Restart'}
+                </Button>
+              )}
+            </Card>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import React from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { CloudOff, RefreshCw, AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+import { useOfflineSync } from '@/hooks/use-offline-sync';
+import { SHIFT_LABELS } from '@/utils/shifts';
+
+// Entries saved on this phone that have not reached the server yet, plus the ones that need a decision
+export const SyncQueuePanel = () => {
+  const {
+    queue,
+    pendingCount,
+    conflictCount,
+    failedCount,
+    isOnline,
+    isSyncing,
+    syncNow,
+    retryQueued,
+    discardQueued
+  } = useOfflineSync();
+
+  if (queue.length === 0) return null;
+
+  const needsAttention = queue.filter(item => item.status !== 'pending');
+  const attentionSummary = [
+    conflictCount > 0 && `${conflictCount} ${conflictCount === 1 ? 'conflict' : 'conflicts'}`,
+    failedCount > 0 && `${failedCount} failed`
+  ].filter(Boolean).join(', ');
+
+  return (
+    <Card className="p-4 border-amber-300 bg-amber-50">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <p className="flex items-center text-sm font-medium text-amber-800">
+            <CloudOff className="h-4 w-4 mr-2" />
+            {pendingCount > 0
+              ? `${pendingCount} ${pendingCount === 1 ? 'entry' : 'entries'} waiting to sync${isOnline ? '' : ' (offline)'}`
+              : 'Nothing waiting to sync'}
+          </p>
+          {attentionSummary && (
+            <p className="text-xs text-red-700 mt-1">{attentionSummary} · need your attention</p>
+          )}
+        </div>
+        <Button variant="outline" size="sm" onClick={() => syncNow()} disabled={!isOnline || isSyncing}>
+          <RefreshCw className={`h-4 w-4 mr-1 ${isSyncing ? 'animate-spin' : ''}`} />
+          {isSyncing ? 'Syncing...' : 'Sync Now'}
+        </Button>
+      </div>
+
+      {needsAttention.length > 0 && (
+        <div className="mt-3 space-y-2">
+          {needsAttention.map(item => (
+            <div key={item.clientId} className="rounded-md bg-white border border-amber-200 p-3">
+              <p className="flex items-center text-sm font-medium text-gray-900">
+                <AlertTriangle className="h-4 w-4 mr-1 text-amber-600" />
+                {item.customerName} · {format(new Date(`${item.deliveryDate}T00:00:00`), 'dd/MM/yyyy')} · {SHIFT_LABELS[item.shift]}
+              </p>
+              <p className="text-xs text-gray-600 mt-1">
+                This phone: {item.quantity > 0 ? `${item.quantity}L, ` : ''}₹{item.totalAmount.toFixed(2)}
+              </p>
+              {item.message && <p className="text-xs text-amber-700 mt-1">{item.message}</p>}
+              <div className="flex gap-2 mt-2">
+                {item.status === 'conflict' ? (
+                  <Button size="sm" variant="outline" onClick={() => retryQueued(item.clientId, true)} disabled={isSyncing}>
+                    Save Anyway
+                  </Button>
+                ) : (
+                  <Button size="sm" variant="outline" onClick={() => retryQueued(item.clientId)} disabled={isSyncing}>
+                    Retry
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="text-red-600 hover:text-red-900"
+                  onClick={() => discardQueued(item.clientId)}
+                  disabled={isSyncing}
+                >
+                  {item.status === 'conflict' ? 'Keep Existing' : 'Discard'}
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,134 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import type { Session, User } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { clearQueuedDeliveries } from '@/utils/offlineQueue';
+
+export interface StaffProfile {
+  id: string;
+  email: string | null;
+  full_name: string | null;
+  role: string;
+}
+
+interface AuthContextValue {
+  session: Session | null;
+  user: User | null;
+  profile: StaffProfile | null;
+  isLoading: boolean;
+  signIn: (email: string, password: string) => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+// Last profile loaded on this phone, so the app still knows who is signed in and what they may do offline
+const PROFILE_STORAGE_KEY = 'milk-manager-profile';
+
+const readStoredProfile = (userId: string): StaffProfile | null => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PROFILE_STORAGE_KEY) || 'null') as StaffProfile | null;
+    return stored?.id === userId ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+// Customer lists cached by the service worker and entries queued offline belong to whoever was signed in
+const clearOfflineData = async () => {
+  if ('serviceWorker' in navigator) {
+    navigator.serviceWorker.controller?.postMessage({ type: 'CLEAR_DATA_CACHE' });
+  }
+  localStorage.removeItem(PROFILE_STORAGE_KEY);
+  try {
+    await clearQueuedDeliveries();
+  } catch (error) {
+    console.error('Error clearing offline queue:', error);
+  }
+};
+
+const loadProfile = async (userId: string): Promise<StaffProfile | null> => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id, email, full_name, role')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading profile:', error);
+    return readStoredProfile(userId);
+  }
+  if (data) {
+    localStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(data));
+  }
+  return data;
+};
+
+export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [profile, setProfile] = useState<StaffProfile | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    // Subscribe first so no auth event is missed while the stored session is restored
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, newSession) => {
+      setSession(newSession);
+      if (!newSession) {
+        setProfile(null);
+        return;
+      }
+      // Defer the profile query so it does not run inside the auth callback
+      setTimeout(() => {
+        loadProfile(newSession.user.id).then(setProfile);
+      }, 0);
+    });
+
+    supabase.auth.getSession().then(async ({ data: { session: storedSession } }) => {
+      setSession(storedSession);
+      if (storedSession) {
+        setProfile(await loadProfile(storedSession.user.id));
+      }
+      setIsLoading(false);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  // A profile that could not be loaded, with nothing kept from before, is fetched again once the phone is back online
+  const userId = session?.user.id;
+  useEffect(() => {
+    if (!userId || profile) return;
+
+    const handleOnline = () => {
+      loadProfile(userId).then(setProfile);
+    };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [userId, profile]);
+
+  const signIn = async (email: string, password: string) => {
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    if (error) throw error;
+  };
+
+  const signOut = async () => {
+    const { error } = await supabase.auth.signOut();
+    if (error) throw error;
+    await clearOfflineData();
+  };
+
+  return (
+    <AuthContext.Provider
+      value={{ session, user: session?.user ?? null, profile, isLoading, signIn, signOut }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
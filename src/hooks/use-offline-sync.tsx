@@ -0,0 +1,219 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/use-auth';
+import {
+  QueuedDelivery,
+  getQueuedDeliveries,
+  putQueuedDelivery,
+  removeQueuedDelivery,
+  isNetworkError
+} from '@/utils/offlineQueue';
+import { isDuplicateDeliveryError } from '@/utils/duplicateDeliveries';
+
+interface OfflineSyncContextValue {
+  queue: QueuedDelivery[];
+  // Entries still to be sent; conflicts and failures wait for someone to decide and are counted on their own
+  pendingCount: number;
+  conflictCount: number;
+  failedCount: number;
+  isOnline: boolean;
+  isSyncing: boolean;
+  enqueueDelivery: (item: Omit<QueuedDelivery, 'status' | 'createdAt'>) => Promise<void>;
+  syncNow: () => Promise<void>;
+  retryQueued: (clientId: string, allowDuplicate?: boolean) => Promise<void>;
+  discardQueued: (clientId: string) => Promise<void>;
+}
+
+type SyncResult = 'synced' | 'conflict' | 'failed' | 'offline';
+
+const OfflineSyncContext = createContext<OfflineSyncContextValue | undefined>(undefined);
+
+const RETRY_INTERVAL_MS = 60000;
+
+// The delivery the server's duplicate rule matched: same customer, date, shift and milk type, with milk
+const describeConflict = async (item: QueuedDelivery) => {
+  const { data: existing } = await supabase
+    .from('delivery_records')
+    .select('quantity, total_amount')
+    .eq('customer_id', item.customerId)
+    .eq('delivery_date', item.deliveryDate)
+    .eq('shift', item.shift)
+    .eq('milk_type_id', item.milkTypeId)
+    .gt('quantity', 0)
+    .limit(1);
+
+  if (!existing || existing.length === 0) return 'Already entered elsewhere for this milk type';
+  return `Already entered elsewhere: ${existing[0].quantity}L, ₹${Number(existing[0].total_amount).toFixed(2)}`;
+};
+
+// Write one queued entry and its groceries to the server in one call. The unique client_id makes retries safe:
+// if an earlier attempt reached the server but the response was lost, the entry is recognised instead of
+// duplicated, and any of its grocery items that are missing are added. Whether it clashes with a delivery
+// entered elsewhere is left to the server's duplicate rule (DL001), so grocery-only entries and other milk types
+// go through.
+const syncQueuedDelivery = async (item: QueuedDelivery): Promise<{ result: SyncResult; message?: string }> => {
+  try {
+    const { error } = await supabase.rpc('save_offline_delivery', {
+      _client_id: item.clientId,
+      _allow_duplicate: !!item.allowDuplicate,
+      _customer_id: item.customerId,
+      _delivery_date: item.deliveryDate,
+      _shift: item.shift,
+      _milk_type_id: item.milkTypeId,
+      _quantity: item.quantity,
+      _price_per_liter: item.pricePerLiter,
+      _total_amount: item.totalAmount,
+      _notes: item.notes ?? undefined,
+      _grocery_items: item.groceryItems
+    });
+
+    if (isDuplicateDeliveryError(error)) {
+      return { result: 'conflict', message: await describeConflict(item) };
+    }
+    if (error) throw error;
+
+    return { result: 'synced' };
+  } catch (error) {
+    if (isNetworkError(error)) return { result: 'offline' };
+    console.error('Error syncing queued delivery:', error);
+    return {
+      result: 'failed',
+      message: (error as { message?: string })?.message || 'Could not be saved'
+    };
+  }
+};
+
+export const OfflineSyncProvider = ({ children }: { children: React.ReactNode }) => {
+  const { user } = useAuth();
+  const [queue, setQueue] = useState<QueuedDelivery[]>([]);
+  const [isOnline, setIsOnline] = useState(typeof navigator === 'undefined' ? true : navigator.onLine);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const syncingRef = useRef(false);
+  const resyncRef = useRef(false);
+
+  const refreshQueue = useCallback(async () => {
+    try {
+      setQueue(await getQueuedDeliveries());
+    } catch (error) {
+      console.error('Error reading offline queue:', error);
+    }
+  }, []);
+
+  const syncNow = useCallback(async () => {
+    if (!user) return;
+    if (syncingRef.current) {
+      // Something was queued mid-sync; go round again once this pass finishes
+      resyncRef.current = true;
+      return;
+    }
+    syncingRef.current = true;
+    setIsSyncing(true);
+
+    try {
+      do {
+        resyncRef.current = false;
+        const items = await getQueuedDeliveries();
+        // Conflicts and failures wait for someone to decide; only pending entries are retried
+        for (const item of items.filter(queued => queued.status === 'pending')) {
+          const { result, message } = await syncQueuedDelivery(item);
+          if (result === 'offline') {
+            resyncRef.current = false;
+            break;
+          }
+          if (result === 'synced') {
+            await removeQueuedDelivery(item.clientId);
+          } else {
+            await putQueuedDelivery({ ...item, status: result, message });
+          }
+        }
+      } while (resyncRef.current);
+    } catch (error) {
+      console.error('Error syncing offline queue:', error);
+    } finally {
+      syncingRef.current = false;
+      setIsSyncing(false);
+      await refreshQueue();
+    }
+  }, [user, refreshQueue]);
+
+  // Re-read on sign-in and sign-out, since signing out empties the queue
+  useEffect(() => {
+    refreshQueue();
+  }, [refreshQueue, user]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncNow();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    syncNow();
+    // The online event is not reliable on every phone, so retry now and then as well
+    const interval = window.setInterval(() => {
+      if (navigator.onLine) syncNow();
+    }, RETRY_INTERVAL_MS);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      window.clearInterval(interval);
+    };
+  }, [syncNow]);
+
+  const enqueueDelivery = async (item: Omit<QueuedDelivery, 'status' | 'createdAt'>) => {
+    await putQueuedDelivery({ ...item, status: 'pending', createdAt: new Date().toISOString() });
+    await refreshQueue();
+    if (navigator.onLine) {
+      syncNow();
+    }
+  };
+
+  // allowDuplicate resolves a conflict by saving this entry next to the one entered elsewhere
+  const retryQueued = async (clientId: string, allowDuplicate = false) => {
+    const item = queue.find(queued => queued.clientId === clientId);
+    if (!item) return;
+    await putQueuedDelivery({
+      ...item,
+      status: 'pending',
+      message: undefined,
+      allowDuplicate: item.allowDuplicate || allowDuplicate
+    });
+    await refreshQueue();
+    syncNow();
+  };
+
+  const discardQueued = async (clientId: string) => {
+    await removeQueuedDelivery(clientId);
+    await refreshQueue();
+  };
+
+  return (
+    <OfflineSyncContext.Provider
+      value={{
+        queue,
+        pendingCount: queue.filter(item => item.status === 'pending').length,
+        conflictCount: queue.filter(item => item.status === 'conflict').length,
+        failedCount: queue.filter(item => item.status === 'failed').length,
+        isOnline,
+        isSyncing,
+        enqueueDelivery,
+        syncNow,
+        retryQueued,
+        discardQueued
+      }}
+    >
+      {children}
+    </OfflineSyncContext.Provider>
+  );
+};
+
+export const useOfflineSync = () => {
+  const context = useContext(OfflineSyncContext);
+  if (!context) {
+    throw new Error('useOfflineSync must be used within an OfflineSyncProvider');
+  }
+  return context;
+};
@@ -14,6 +14,220 @@ export type Database = {
   }
   public: {
     Tables: {
+      audit_log: {
+        Row: {
+          action: string
+          changed_at: string
+          changed_by: string | null
+          customer_id: string | null
+          id: string
+          new_data: Json | null
+          old_data: Json | null
+          record_id: string
+          table_name: string
+        }
+        Insert: {
+          action: string
+          changed_at?: string
+          changed_by?: string | null
+          customer_id?: string | null
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id: string
+          table_name: string
+        }
+        Update: {
+          action?: string
+          changed_at?: string
+          changed_by?: string | null
+          customer_id?: string | null
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id?: string
+          table_name?: string
+        }
+        Relationships: []
+      }
+      balance_rebuilds: {
+        Row: {
+          customer_id: string | null
+          customer_name: string
+          id: string
+          previous_amount: number | null
+          reason: string | null
+          rebuilt_amount: number
+          rebuilt_at: string
+          rebuilt_by: string | null
+          run_id: string
+        }
+        Insert: {
+          customer_id?: string | null
+          customer_name: string
+          id?: string
+          previous_amount?: number | null
+          reason?: string | null
+          rebuilt_amount: number
+          rebuilt_at?: string
+          rebuilt_by?: string | null
+          run_id: string
+        }
+        Update: {
+          customer_id?: string | null
+          customer_name?: string
+          id?: string
+          previous_amount?: number | null
+          reason?: string | null
+          rebuilt_amount?: number
+          rebuilt_at?: string
+          rebuilt_by?: string | null
+          run_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "balance_rebuilds_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customer_balances_view"
+            referencedColumns: ["customer_id"]
+          },
+          {
+            foreignKeyName: "balance_rebuilds_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bill_number_counters: {
+        Row: {
+          financial_year: string
+          last_number: number
+        }
+        Insert: {
+          financial_year: string
+          last_number: number
+        }
+        Update: {
+          financial_year?: string
+          last_number?: number
+        }
+        Relationships: []
+      }
+      bills: {
+        Row: {
+          amount_due: number
+          bill_number: string | null
+          created_at: string
+          created_by: string | null
+          customer_id: string
+          financial_year: string | null
+          grand_total: number
+          grocery_amount: number
+          id: string
+          issued_at: string | null
+          issued_by: string | null
+          milk_amount: number
+          milk_liters: number
+          month_total: number
+          paid_at: string | null
+          payments_received: number
+          pdf_url: string | null
+          period_end: string
+          period_start: string
+          previous_balance: number
+          snapshot: Json | null
+          status: string
+          supersedes_bill_id: string | null
+          version: number
+          void_reason: string | null
+          voided_at: string | null
+          voided_by: string | null
+        }
+        Insert: {
+          amount_due?: number
+          bill_number?: string | null
+          created_at?: string
+          created_by?: string | null
+          customer_id: string
+          financial_year?: string | null
+          grand_total?: number
+          grocery_amount?: number
+          id?: string
+          issued_at?: string | null
+          issued_by?: string | null
+          milk_amount?: number
+          milk_liters?: number
+          month_total?: number
+          paid_at?: string | null
+          payments_received?: number
+          pdf_url?: string | null
+          period_end: string
+          period_start: string
+          previous_balance?: number
+          snapshot?: Json | null
+          status?: string
+          supersedes_bill_id?: string | null
+          version?: number
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
+        }
+        Update: {
+          amount_due?: number
+          bill_number?: string | null
+          created_at?: string
+          created_by?: string | null
+          customer_id?: string
+          financial_year?: string | null
+          grand_total?: number
+          grocery_amount?: number
+          id?: string
+          issued_at?: string | null
+          issued_by?: string | null
+          milk_amount?: number
+          milk_liters?: number
+          month_total?: number
+          paid_at?: string | null
+          payments_received?: number
+          pdf_url?: string | null
+          period_end?: string
+          period_start?: string
+          previous_balance?: number
+          snapshot?: Json | null
+          status?: string
+          supersedes_bill_id?: string | null
+          version?: number
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bills_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customer_balances_view"
+            referencedColumns: ["customer_id"]
+          },
+          {
+            foreignKeyName: "bills_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bills_supersedes_bill_id_fkey"
+            columns: ["supersedes_bill_id"]
+            isOneToOne: false
+            referencedRelation: "bills"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       customer_balances: {
         Row: {
           customer_id: string
@@ -50,6 +264,103 @@ export type Database = {
           },
         ]
       }
+      customer_pauses: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          customer_id: string
+          end_date: string
+          id: string
+          reason: string | null
+          start_date: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          customer_id: string
+          end_date: string
+          id?: string
+          reason?: string | null
+          start_date: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          customer_id?: string
+          end_date?: string
+          id?: string
+          reason?: string | null
+          start_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customer_pauses_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customer_balances_view"
+            referencedColumns: ["customer_id"]
+          },
+          {
+            foreignKeyName: "customer_pauses_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      customer_rates: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          customer_id: string
+          effective_from: string
+          id: string
+          milk_type_id: string
+          price_per_liter: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          customer_id: string
+          effective_from: string
+          id?: string
+          milk_type_id: string
+          price_per_liter: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          customer_id?: string
+          effective_from?: string
+          id?: string
+          milk_type_id?: string
+          price_per_liter?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customer_rates_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customer_balances_view"
+            referencedColumns: ["customer_id"]
+          },
+          {
+            foreignKeyName: "customer_rates_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_rates_milk_type_id_fkey"
+            columns: ["milk_type_id"]
+            isOneToOne: false
+            referencedRelation: "milk_types"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       customers: {
         Row: {
           address: string | null
@@ -76,6 +387,8 @@ export type Database = {
       }
       delivery_records: {
         Row: {
+          allow_duplicate: boolean
+          client_id: string | null
           created_at: string
           customer_id: string
           delivery_date: string
@@ -84,9 +397,13 @@ export type Database = {
           notes: string | null
           price_per_liter: number
           quantity: number
+          shift: string
+          subscription_id: string | null
           total_amount: number
         }
         Insert: {
+          allow_duplicate?: boolean
+          client_id?: string | null
           created_at?: string
           customer_id: string
           delivery_date: string
@@ -95,9 +412,13 @@ export type Database = {
           notes?: string | null
           price_per_liter: number
           quantity: number
+          shift?: string
+          subscription_id?: string | null
           total_amount: number
         }
         Update: {
+          allow_duplicate?: boolean
+          client_id?: string | null
           created_at?: string
           customer_id?: string
           delivery_date?: string
@@ -106,6 +427,8 @@ export type Database = {
           notes?: string | null
           price_per_liter?: number
           quantity?: number
+          shift?: string
+          subscription_id?: string | null
           total_amount?: number
         }
         Relationships: [
@@ -130,6 +453,13 @@ export type Database = {
             referencedRelation: "milk_types"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "delivery_records_subscription_id_fkey"
+            columns: ["subscription_id"]
+            isOneToOne: false
+            referencedRelation: "subscriptions"
+            referencedColumns: ["id"]
+          },
         ]
       }
       grocery_items: {
@@ -173,6 +503,41 @@ export type Database = {
           },
         ]
       }
+      milk_type_prices: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          effective_from: string
+          id: string
+          milk_type_id: string
+          price_per_liter: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          effective_from: string
+          id?: string
+          milk_type_id: string
+          price_per_liter: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          effective_from?: string
+          id?: string
+          milk_type_id?: string
+          price_per_liter?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "milk_type_prices_milk_type_id_fkey"
+            columns: ["milk_type_id"]
+            isOneToOne: false
+            referencedRelation: "milk_types"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       milk_types: {
         Row: {
           created_at: string
@@ -201,44 +566,60 @@ export type Database = {
         Row: {
           amount: number
           created_at: string
-          customer_name: string
+          created_by: string | null
+          customer_id: string
+          customer_name: string | null
           id: string
           notes: string | null
           payment_date: string
           payment_method: string
+          reverses_payment_id: string | null
         }
         Insert: {
           amount: number
           created_at?: string
-          customer_name: string
+          created_by?: string | null
+          customer_id: string
+          customer_name?: string | null
           id?: string
           notes?: string | null
           payment_date: string
           payment_method?: string
+          reverses_payment_id?: string | null
         }
         Update: {
           amount?: number
           created_at?: string
-          customer_name?: string
+          created_by?: string | null
+          customer_id?: string
+          customer_name?: string | null
           id?: string
           notes?: string | null
           payment_date?: string
           payment_method?: string
+          reverses_payment_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "payments_customer_name_fkey"
-            columns: ["customer_name"]
+            foreignKeyName: "payments_customer_id_fkey"
+            columns: ["customer_id"]
             isOneToOne: false
             referencedRelation: "customer_balances_view"
-            referencedColumns: ["customer_name"]
+            referencedColumns: ["customer_id"]
           },
           {
-            foreignKeyName: "payments_customer_name_fkey"
-            columns: ["customer_name"]
+            foreignKeyName: "payments_customer_id_fkey"
+            columns: ["customer_id"]
             isOneToOne: false
             referencedRelation: "customers"
-            referencedColumns: ["name"]
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_reverses_payment_id_fkey"
+            columns: ["reverses_payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
           },
         ]
       }
@@ -248,6 +629,7 @@ export type Database = {
           email: string | null
           full_name: string | null
           id: string
+          role: string
           updated_at: string
         }
         Insert: {
@@ -255,6 +637,7 @@ export type Database = {
           email?: string | null
           full_name?: string | null
           id: string
+          role?: string
           updated_at?: string
         }
         Update: {
@@ -262,10 +645,150 @@ export type Database = {
           email?: string | null
           full_name?: string | null
           id?: string
+          role?: string
           updated_at?: string
         }
         Relationships: []
       }
+      route_customers: {
+        Row: {
+          customer_id: string
+          id: string
+          position: number
+          route_id: string
+        }
+        Insert: {
+          customer_id: string
+          id?: string
+          position: number
+          route_id: string
+        }
+        Update: {
+          customer_id?: string
+          id?: string
+          position?: number
+          route_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "route_customers_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: true
+            referencedRelation: "customer_balances_view"
+            referencedColumns: ["customer_id"]
+          },
+          {
+            foreignKeyName: "route_customers_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: true
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "route_customers_route_id_fkey"
+            columns: ["route_id"]
+            isOneToOne: false
+            referencedRelation: "routes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      routes: {
+        Row: {
+          assigned_to: string | null
+          created_at: string
+          id: string
+          name: string
+          notes: string | null
+        }
+        Insert: {
+          assigned_to?: string | null
+          created_at?: string
+          id?: string
+          name: string
+          notes?: string | null
+        }
+        Update: {
+          assigned_to?: string | null
+          created_at?: string
+          id?: string
+          name?: string
+          notes?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "routes_assigned_to_fkey"
+            columns: ["assigned_to"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      subscriptions: {
+        Row: {
+          created_at: string
+          customer_id: string
+          end_date: string | null
+          id: string
+          is_active: boolean
+          milk_type_id: string
+          notes: string | null
+          quantity: number
+          shifts: string[]
+          start_date: string
+          weekdays: number[]
+        }
+        Insert: {
+          created_at?: string
+          customer_id: string
+          end_date?: string | null
+          id?: string
+          is_active?: boolean
+          milk_type_id: string
+          notes?: string | null
+          quantity: number
+          shifts?: string[]
+          start_date?: string
+          weekdays?: number[]
+        }
+        Update: {
+          created_at?: string
+          customer_id?: string
+          end_date?: string | null
+          id?: string
+          is_active?: boolean
+          milk_type_id?: string
+          notes?: string | null
+          quantity?: number
+          shifts?: string[]
+          start_date?: string
+          weekdays?: number[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "subscriptions_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customer_balances_view"
+            referencedColumns: ["customer_id"]
+          },
+          {
+            foreignKeyName: "subscriptions_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "subscriptions_milk_type_id_fkey"
+            columns: ["milk_type_id"]
+            isOneToOne: false
+            referencedRelation: "milk_types"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       customer_balances_view: {
@@ -278,6 +801,84 @@ export type Database = {
       }
     }
     Functions: {
+      apply_price_revision: {
+        Args: {
+          _effective_from: string
+          _milk_type_id: string
+          _price: number
+          _recalculate?: boolean
+        }
+        Returns: number
+      }
+      check_customer_balances: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          customer_id: string
+          customer_name: string
+          recorded_balance: number | null
+          computed_balance: number
+          difference: number
+        }[]
+      }
+      customer_price_on: {
+        Args: { _customer_id: string; _date: string; _milk_type_id: string }
+        Returns: number
+      }
+      financial_year_of: {
+        Args: { _date: string }
+        Returns: string
+      }
+      find_duplicate_deliveries: {
+        Args: { _from: string; _to: string }
+        Returns: {
+          id: string
+          customer_id: string
+          customer_name: string
+          delivery_date: string
+          shift: string
+          milk_type_id: string
+          milk_type_name: string
+          quantity: number
+          total_amount: number
+          allow_duplicate: boolean
+          created_at: string
+        }[]
+      }
+      generate_subscription_deliveries: {
+        Args: { _delivery_date?: string }
+        Returns: number
+      }
+      get_collections_by_method: {
+        Args: { _from: string; _period?: string; _to: string }
+        Returns: {
+          period_start: string
+          payment_method: string
+          payment_count: number
+          amount: number
+        }[]
+      }
+      get_customer_ledger_summary: {
+        Args: { _customer_id: string; _from: string }
+        Returns: {
+          opening_balance: number
+          ledger_balance: number
+          recorded_balance: number
+        }[]
+      }
+      get_customer_monthly_totals: {
+        Args: { _customer_id?: string; _month_end: string; _month_start: string }
+        Returns: {
+          customer_id: string
+          customer_name: string
+          milk_liters: number
+          milk_amount: number
+          grocery_amount: number
+          delivery_amount: number
+          payment_amount: number
+          opening_balance: number
+          closing_balance: number
+        }[]
+      }
       get_customer_pending_balances: {
         Args: Record<PropertyKey, never>
         Returns: {
@@ -291,6 +892,132 @@ export type Database = {
           pending_amount: number
         }[]
       }
+      get_daily_milk_type_totals: {
+        Args: { _from: string; _to: string }
+        Returns: {
+          delivery_date: string
+          milk_type_id: string
+          milk_type_name: string
+          shift: string
+          liters: number
+          amount: number
+          delivery_count: number
+        }[]
+      }
+      get_daily_totals: {
+        Args: { _from: string; _to: string }
+        Returns: {
+          day: string
+          liters: number
+          revenue: number
+          collections: number
+        }[]
+      }
+      get_dashboard_summary: {
+        Args: { _month_end: string; _month_start: string }
+        Returns: {
+          total_customers: number
+          total_milk_types: number
+          total_deliveries: number
+          total_payments: number
+          month_revenue: number
+          month_collections: number
+          total_outstanding: number
+          customers_with_dues: number
+        }[]
+      }
+      get_my_role: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      get_receivables_aging: {
+        Args: { _as_of: string }
+        Returns: {
+          customer_id: string
+          customer_name: string
+          current_month: number
+          days_1_30: number
+          days_31_60: number
+          days_61_90: number
+          days_over_90: number
+          total_outstanding: number
+          advance: number
+          oldest_unpaid_date: string | null
+        }[]
+      }
+      has_any_role: {
+        Args: { _roles: string[] }
+        Returns: boolean
+      }
+      milk_price_on: {
+        Args: { _date: string; _milk_type_id: string }
+        Returns: number
+      }
+      next_bill_number: {
+        Args: { _issued_on: string }
+        Returns: string
+      }
+      preview_price_revision: {
+        Args: { _effective_from: string; _milk_type_id: string; _price: number }
+        Returns: {
+          customer_id: string
+          customer_name: string
+          delivery_count: number
+          current_amount: number
+          revised_amount: number
+          difference: number
+        }[]
+      }
+      rebuild_customer_balances: {
+        Args: { _customer_ids?: string[]; _reason?: string }
+        Returns: number
+      }
+      receivable_open_items: {
+        Args: { _as_of: string }
+        Returns: {
+          customer_id: string
+          delivery_date: string
+          unpaid_amount: number
+        }[]
+      }
+      reissue_bill: {
+        Args: { _bill: Json; _bill_id: string; _reason: string }
+        Returns: string
+      }
+      reverse_payment: {
+        Args: { _payment_id: string; _reason?: string }
+        Returns: string
+      }
+      save_offline_delivery: {
+        Args: {
+          _allow_duplicate?: boolean
+          _client_id: string
+          _customer_id: string
+          _delivery_date: string
+          _grocery_items?: Json
+          _milk_type_id: string
+          _notes?: string
+          _price_per_liter: number
+          _quantity: number
+          _shift: string
+          _total_amount: number
+        }
+        Returns: string
+      }
+      set_route_customers: {
+        Args: { _customer_ids: string[]; _route_id: string }
+        Returns: undefined
+      }
+      update_delivery_entry: {
+        Args: {
+          _delivery_id: string
+          _grocery_items?: Json
+          _milk_type_id: string
+          _price_per_liter: number
+          _quantity: number
+        }
+        Returns: number
+      }
     }
     Enums: {
       [_ in never]: never
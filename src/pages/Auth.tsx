@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Milk } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+
+const Auth = () => {
+  const { session, signIn } = useAuth();
+  const location = useLocation();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const redirectTo = (location.state as { from?: { pathname: string } } | null)?.from?.pathname || '/';
+
+  if (session) {
+    return <Navigate to={redirectTo} replace />;
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!email.trim() || !password) {
+      toast({
+        title: "Error",
+        description: "Email and password are required",
+        variant: "destructive",
+        duration: 2000
+      });
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      await signIn(email.trim(), password);
+    } catch (error) {
+      console.error('Error signing in:', error);
+      toast({
+        title: "Error",
+        description: "Invalid email or password",
+        variant: "destructive",
+        duration: 2000
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <Card className="w-full max-w-sm p-6">
+        <div className="flex flex-col items-center mb-6">
+          <Milk className="h-10 w-10 text-blue-600 mb-2" />
+          <h1 className="text-xl font-bold text-gray-900 text-center">Narmada Dairy Milk Management</h1>
+          <p className="text-sm text-gray-500">Staff sign in</p>
+        </div>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="email">Email</Label>
+            <Input
+              id="email"
+              type="email"
+              autoComplete="username"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="you@example.com"
+              required
+              disabled={isLoading}
+            />
+          </div>
+          <div>
+            <Label htmlFor="password">Password</Label>
+            <Input
+              id="password"
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+              disabled={isLoading}
+            />
+          </div>
+          <Button type="submit" className="w-full bg-blue-600 hover:bg-blue-700" disabled={isLoading}>
+            {isLoading ? 'Signing in...' : 'Sign In'}
+          </Button>
+          <p className="text-xs text-gray-500 text-center">
+            Staff accounts are created by the dairy owner.
+          </p>
+        </form>
+      </Card>
+    </div>
+  );
+};
+
+export default Auth;
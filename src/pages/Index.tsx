@@ -1,51 +1,131 @@
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { CustomerManagement } from '../components/CustomerManagement';
 import { MilkTypesManagement } from '../components/MilkTypesManagement';
 import { DeliveryRecords } from '../components/DeliveryRecords';
 import { PaymentTracking } from '../components/PaymentTracking';
 import { Dashboard } from '../components/Dashboard';
 import { CustomerBills } from '../components/CustomerBills';
-import { Users, Milk, Calendar, CreditCard, Home, Receipt } from 'lucide-react';
+import { BillRun } from '../components/BillRun';
+import { Bills } from '../components/Bills';
+import { CustomerLedger } from '../components/CustomerLedger';
+import { ReceivablesAging } from '../components/ReceivablesAging';
+import { BalanceIntegrity } from '../components/BalanceIntegrity';
+import { AuditLog } from '../components/AuditLog';
+import { SubscriptionManagement } from '../components/SubscriptionManagement';
+import { RouteManagement } from '../components/RouteManagement';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/use-auth';
+import { useOfflineSync } from '@/hooks/use-offline-sync';
+import { toast } from '@/hooks/use-toast';
+import { hasPermission, ROLE_LABELS, StaffRole, Permission } from '@/utils/permissions';
+import { Users, Milk, Calendar, CreditCard, Home, Receipt, FileCheck, FileStack, BookOpen, Hourglass, Scale, History, LogOut, Repeat, Route, CloudOff, RefreshCw, AlertTriangle } from 'lucide-react';
 
 const Index = () => {
+  const { user, profile, signOut } = useAuth();
+  const { queue, pendingCount, conflictCount, failedCount, isOnline, isSyncing, syncNow } = useOfflineSync();
   const [activeTab, setActiveTab] = useState('dashboard');
   const [highlightCustomerId, setHighlightCustomerId] = useState<string | undefined>();
   const [selectedCustomerForBill, setSelectedCustomerForBill] = useState<string | undefined>();
+  const [selectedCustomerForLedger, setSelectedCustomerForLedger] = useState<string | undefined>();
+  const [selectedCustomerForAudit, setSelectedCustomerForAudit] = useState<string | undefined>();
 
-  const tabs = [
+  const allTabs: { id: string; label: string; icon: typeof Home; permission: Permission }[] = [
     {
       id: 'dashboard',
       label: 'Dashboard',
-      icon: Home
+      icon: Home,
+      permission: 'view_dashboard'
     },
     {
       id: 'customers',
       label: 'Customers',
-      icon: Users
+      icon: Users,
+      permission: 'view_customers'
     },
     {
       id: 'milk-types',
       label: 'Milk Types',
-      icon: Milk
+      icon: Milk,
+      permission: 'view_milk_types'
     },
     {
       id: 'delivery',
       label: 'Delivery Records',
-      icon: Calendar
+      icon: Calendar,
+      permission: 'enter_deliveries'
+    },
+    {
+      id: 'subscriptions',
+      label: 'Subscriptions',
+      icon: Repeat,
+      permission: 'manage_subscriptions'
+    },
+    {
+      id: 'routes',
+      label: 'Routes',
+      icon: Route,
+      permission: 'manage_routes'
     },
     {
       id: 'payments',
       label: 'Payments',
-      icon: CreditCard
+      icon: CreditCard,
+      permission: 'manage_payments'
     },
     {
       id: 'customer-bills',
       label: 'Customer Bills',
-      icon: Receipt
+      icon: Receipt,
+      permission: 'view_bills'
+    },
+    {
+      id: 'bills',
+      label: 'Bills',
+      icon: FileCheck,
+      permission: 'view_bills'
+    },
+    {
+      id: 'bill-run',
+      label: 'Bill Run',
+      icon: FileStack,
+      permission: 'issue_bills'
+    },
+    {
+      id: 'customer-ledger',
+      label: 'Ledger',
+      icon: BookOpen,
+      permission: 'view_bills'
+    },
+    {
+      id: 'receivables-aging',
+      label: 'Aging',
+      icon: Hourglass,
+      permission: 'view_bills'
+    },
+    {
+      id: 'balance-check',
+      label: 'Balance Check',
+      icon: Scale,
+      permission: 'rebuild_balances'
+    },
+    {
+      id: 'audit-log',
+      label: 'Audit Log',
+      icon: History,
+      permission: 'view_audit_log'
     }
   ];
 
+  const tabs = allTabs.filter(tab => hasPermission(profile?.role, tab.permission));
+
+  // Fall back to the first screen this role can use (delivery boys land on bulk entry)
+  useEffect(() => {
+    if (tabs.length > 0 && !tabs.some(tab => tab.id === activeTab)) {
+      setActiveTab(tabs[0].id);
+    }
+  }, [profile?.role, activeTab]);
+
   const handleNavigateToDelivery = (customerId?: string) => {
     setHighlightCustomerId(customerId);
     setActiveTab('delivery');
@@ -56,20 +136,61 @@ const Index = () => {
     setActiveTab('customer-bills');
   };
 
+  const handleViewLedger = (customerId: string) => {
+    setSelectedCustomerForLedger(customerId);
+    setActiveTab('customer-ledger');
+  };
+
+  const handleViewAuditLog = (customerId: string) => {
+    setSelectedCustomerForAudit(customerId);
+    setActiveTab('audit-log');
+  };
+
   const renderContent = () => {
+    if (!profile) {
+      return <div className="text-center py-8 text-gray-500">Loading your profile...</div>;
+    }
+    if (tabs.length === 0) {
+      return <div className="text-center py-8 text-gray-500">Your account has no access yet. Please contact the dairy owner.</div>;
+    }
+    if (!tabs.some(tab => tab.id === activeTab)) {
+      return null;
+    }
+
     switch (activeTab) {
       case 'dashboard':
         return <Dashboard onNavigate={setActiveTab} />;
       case 'customers':
-        return <CustomerManagement onViewRecords={handleViewRecords} />;
+        return (
+          <CustomerManagement
+            onViewRecords={handleViewLedger}
+            onViewAuditLog={hasPermission(profile.role, 'view_audit_log') ? handleViewAuditLog : undefined}
+          />
+        );
       case 'milk-types':
         return <MilkTypesManagement />;
       case 'delivery':
         return <DeliveryRecords highlightCustomerId={highlightCustomerId} />;
+      case 'subscriptions':
+        return <SubscriptionManagement />;
+      case 'routes':
+        return <RouteManagement />;
       case 'payments':
         return <PaymentTracking onNavigateToDelivery={handleNavigateToDelivery} />;
       case 'customer-bills':
         return <CustomerBills preSelectedCustomerId={selectedCustomerForBill} onViewRecords={handleViewRecords} />;
+      case 'bills':
+        return <Bills />;
+      case 'bill-run':
+        return <BillRun />;
+      case 'customer-ledger':
+        return <CustomerLedger preSelectedCustomerId={selectedCustomerForLedger} />;
+      case 'receivables-aging':
+        return <ReceivablesAging onViewLedger={handleViewLedger} />;
+      case 'balance-check':
+        return <BalanceIntegrity />;
+      case 'audit-log':
+        return <AuditLog preSelectedCustomerId={selectedCustomerForAudit} />;
       default:
         return <Dashboard onNavigate={setActiveTab} />;
     }
@@ -83,9 +204,34 @@ const Index = () => {
     if (tabId !== 'customer-bills') {
       setSelectedCustomerForBill(undefined);
     }
+    if (tabId !== 'customer-ledger') {
+      setSelectedCustomerForLedger(undefined);
+    }
+    if (tabId !== 'audit-log') {
+      setSelectedCustomerForAudit(undefined);
+    }
     setActiveTab(tabId);
   };
 
+  const handleSignOut = async () => {
+    // Signing out empties this phone's offline queue, so make sure nothing unsent is thrown away by accident
+    if (queue.length > 0 && !confirm(`${queue.length} ${queue.length === 1 ? 'entry has' : 'entries have'} not been sent yet and will be lost. Sign out anyway?`)) {
+      return;
+    }
+
+    try {
+      await signOut();
+    } catch (error) {
+      console.error('Error signing out:', error);
+      toast({
+        title: "Error",
+        description: "Failed to sign out",
+        variant: "destructive",
+        duration: 2000
+      });
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -100,9 +246,40 @@ const Index = () => {
               </h1>
             </div>
             
-            {/* Empty space for future actions */}
-            <div className="flex items-center justify-end w-full sm:w-auto">
-              {/* Future: Add user menu or other actions here */}
+            {/* Signed-in staff member */}
+            <div className="flex items-center justify-end gap-2 w-full sm:w-auto">
+              {(pendingCount > 0 || !isOnline) && (
+                <button
+                  type="button"
+                  onClick={() => syncNow()}
+                  disabled={!isOnline || isSyncing}
+                  className="flex items-center rounded-full bg-amber-100 px-2 py-1 text-xs font-medium text-amber-800"
+                  title={isOnline ? 'Sync pending entries now' : 'Offline - entries are kept on this phone'}
+                >
+                  {isSyncing ? <RefreshCw className="h-3 w-3 mr-1 animate-spin" /> : <CloudOff className="h-3 w-3 mr-1" />}
+                  {pendingCount > 0 ? `${pendingCount} pending` : 'Offline'}
+                </button>
+              )}
+              {conflictCount + failedCount > 0 && (
+                <span
+                  className="flex items-center rounded-full bg-red-100 px-2 py-1 text-xs font-medium text-red-800"
+                  title="Open bulk delivery entry to resolve these"
+                >
+                  <AlertTriangle className="h-3 w-3 mr-1" />
+                  {[
+                    conflictCount > 0 && `${conflictCount} ${conflictCount === 1 ? 'conflict' : 'conflicts'}`,
+                    failedCount > 0 && `${failedCount} failed`
+                  ].filter(Boolean).join(', ')}
+                </span>
+              )}
+              <span className="text-xs sm:text-sm text-gray-600 truncate">
+                {profile?.full_name || user?.email}
+                {profile?.role && ` (${ROLE_LABELS[profile.role as StaffRole] || profile.role})`}
+              </span>
+              <Button variant="outline" size="sm" onClick={handleSignOut}>
+                <LogOut className="h-4 w-4 mr-1" />
+                Sign Out
+              </Button>
             </div>
           </div>
         </div>
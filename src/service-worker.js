@@ -0,0 +1,92 @@
+/* Service worker for the installable app. Built by the service worker plugin in vite.config.ts, which fills in
+   the build id and the list of files Vite produced, so every deploy gets a new worker and a fresh shell cache. */
+const BUILD_ID = '__BUILD_ID__';
+const PRECACHE_URLS = __PRECACHE_URLS__;
+
+const SHELL_CACHE = `shell-${BUILD_ID}`;
+const DATA_CACHE = 'supabase-lists';
+
+// Lists bulk entry needs to open without signal, and the signed-in staff member's profile so the app knows
+// what to show. Served from the network when possible, else the last copy.
+const CACHED_TABLES = ['profiles', 'customers', 'milk_types', 'milk_type_prices', 'customer_rates', 'routes', 'route_customers'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(SHELL_CACHE).then((cache) => cache.addAll(PRECACHE_URLS)));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys().then((keys) =>
+      Promise.all(
+        keys
+          .filter((key) => key.startsWith('shell-') && key !== SHELL_CACHE)
+          .map((key) => caches.delete(key))
+      )
+    ).then(() => self.clients.claim())
+  );
+});
+
+// The page asks the waiting worker to take over once the user accepts the update prompt, and to drop the
+// cached lists when someone signs out so they are not served to whoever signs in next
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+  if (event.data && event.data.type === 'CLEAR_DATA_CACHE') {
+    event.waitUntil(caches.delete(DATA_CACHE));
+  }
+});
+
+const isCachedTableRequest = (url) =>
+  url.pathname.startsWith('/rest/v1/') &&
+  CACHED_TABLES.includes(url.pathname.replace('/rest/v1/', ''));
+
+const networkFirst = async (request) => {
+  const cache = await caches.open(DATA_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+const cacheFirst = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok && new URL(request.url).origin === self.location.origin) {
+    const cache = await caches.open(SHELL_CACHE);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (isCachedTableRequest(url)) {
+    event.respondWith(networkFirst(request));
+    return;
+  }
+
+  if (url.origin !== self.location.origin) return;
+
+  // Single page app: every navigation gets the cached shell straight away, so the app opens without waiting
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      caches.match('/index.html').then((cached) => cached || fetch(request))
+    );
+    return;
+  }
+
+  event.respondWith(cacheFirst(request));
+});
@@ -0,0 +1,64 @@
+import { Json } from '@/integrations/supabase/types';
+
+export type AuditedTable = 'delivery_records' | 'grocery_items' | 'payments' | 'milk_types' | 'customers' | 'bills';
+
+export type AuditAction = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export const AUDITED_TABLE_LABELS: Record<AuditedTable, string> = {
+  delivery_records: 'Deliveries',
+  grocery_items: 'Groceries',
+  payments: 'Payments',
+  milk_types: 'Milk Types',
+  customers: 'Customers',
+  bills: 'Bills',
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  INSERT: 'Added',
+  UPDATE: 'Changed',
+  DELETE: 'Deleted',
+};
+
+export interface AuditLogEntry {
+  id: string;
+  table_name: string;
+  record_id: string;
+  action: string;
+  customer_id: string | null;
+  old_data: Json | null;
+  new_data: Json | null;
+  changed_by: string | null;
+  changed_at: string;
+}
+
+// Bookkeeping columns that say nothing about what changed, and a bill's snapshot, which repeats its figures
+// day by day
+const HIDDEN_FIELDS = ['id', 'created_at', 'created_by', 'updated_at', 'client_id', 'snapshot'];
+
+const asRecord = (data: Json | null): Record<string, Json | undefined> =>
+  data && typeof data === 'object' && !Array.isArray(data) ? data : {};
+
+const formatValue = (value: Json | undefined, names: Record<string, string>) => {
+  if (value === null || value === undefined || value === '') return '-';
+  if (typeof value === 'string' && names[value]) return names[value];
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+// One "field: value" line per column for added and deleted rows, and "field: old → new" for the columns an
+// update actually changed. Ids found in `names` (customers, milk types) are shown by name.
+export const describeAuditChanges = (entry: AuditLogEntry, names: Record<string, string> = {}) => {
+  const oldData = asRecord(entry.old_data);
+  const newData = asRecord(entry.new_data);
+
+  if (entry.action === 'UPDATE') {
+    return Object.keys({ ...oldData, ...newData })
+      .filter(field => !HIDDEN_FIELDS.includes(field))
+      .filter(field => JSON.stringify(oldData[field]) !== JSON.stringify(newData[field]))
+      .map(field => `${field}: ${formatValue(oldData[field], names)} → ${formatValue(newData[field], names)}`);
+  }
+
+  const data = entry.action === 'DELETE' ? oldData : newData;
+  return Object.keys(data)
+    .filter(field => !HIDDEN_FIELDS.includes(field) && data[field] !== null)
+    .map(field => `${field}: ${formatValue(data[field], names)}`);
+};
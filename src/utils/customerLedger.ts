@@ -0,0 +1,185 @@
+import { supabase } from '@/integrations/supabase/client';
+import { SHIFT_LABELS, DELIVERY_SHIFTS, DeliveryShift } from '@/utils/shifts';
+
+export type LedgerEntryType = 'delivery' | 'grocery' | 'payment';
+
+export interface LedgerEntry {
+  id: string;
+  date: string;
+  type: LedgerEntryType;
+  description: string;
+  debit: number;
+  credit: number;
+  // Amount owed after this entry
+  balance: number;
+}
+
+export interface LedgerStatement {
+  entries: LedgerEntry[];
+  openingBalance: number;
+  closingBalance: number;
+  totalDebit: number;
+  totalCredit: number;
+  // All-time balance worked out from the entries, and the one the balance triggers keep in customer_balances
+  ledgerBalance: number;
+  recordedBalance: number | null;
+}
+
+interface LedgerDelivery {
+  id: string;
+  delivery_date: string;
+  shift: string;
+  quantity: number;
+  price_per_liter: number;
+  total_amount: number;
+  created_at: string;
+  milk_types: { name: string } | null;
+  grocery_items: { name: string; price: number; quantity: number; unit: string }[];
+}
+
+interface LedgerPayment {
+  id: string;
+  payment_date: string;
+  amount: number;
+  payment_method: string;
+  notes: string | null;
+  reverses_payment_id: string | null;
+  created_at: string;
+}
+
+const PAGE_SIZE = 1000;
+
+// Payments close the day, after both shifts' deliveries
+const PAYMENT_ORDER = DELIVERY_SHIFTS.length;
+
+const loadDeliveries = async (customerId: string, from: string, to: string) => {
+  const records: LedgerDelivery[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('delivery_records')
+      .select('id, delivery_date, shift, quantity, price_per_liter, total_amount, created_at, milk_types(name), grocery_items(name, price, quantity, unit)')
+      .eq('customer_id', customerId)
+      .gte('delivery_date', from)
+      .lte('delivery_date', to)
+      .order('id')
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    records.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return records;
+};
+
+const loadPayments = async (customerId: string, from: string, to: string) => {
+  const payments: LedgerPayment[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('payments')
+      .select('id, payment_date, amount, payment_method, notes, reverses_payment_id, created_at')
+      .eq('customer_id', customerId)
+      .gte('payment_date', from)
+      .lte('payment_date', to)
+      .order('id')
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    payments.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return payments;
+};
+
+const formatQuantity = (quantity: number) => `${Number(Number(quantity).toFixed(3))}`;
+
+// A customer's deliveries, groceries and payments between two dates in the order they happened, with the
+// balance carried forward from before `from`. A delivery's total_amount includes its groceries, so they are
+// split into their own line and the milk line keeps the rest; the lines always add up to what was charged.
+export const loadCustomerLedger = async (customerId: string, from: string, to: string): Promise<LedgerStatement> => {
+  const [deliveries, payments, summaryResult] = await Promise.all([
+    loadDeliveries(customerId, from, to),
+    loadPayments(customerId, from, to),
+    supabase.rpc('get_customer_ledger_summary', { _customer_id: customerId, _from: from })
+  ]);
+
+  if (summaryResult.error) throw summaryResult.error;
+  const summary = summaryResult.data?.[0];
+
+  const timeline: { date: string; order: number; createdAt: string; lines: Omit<LedgerEntry, 'balance'>[] }[] = [];
+
+  deliveries.forEach(delivery => {
+    const groceryTotal = (delivery.grocery_items || []).reduce((sum, item) => sum + Number(item.price), 0);
+    const shiftIndex = DELIVERY_SHIFTS.indexOf(delivery.shift as DeliveryShift);
+    const shiftLabel = SHIFT_LABELS[delivery.shift as DeliveryShift] || delivery.shift;
+    const lines: Omit<LedgerEntry, 'balance'>[] = [];
+
+    if (delivery.quantity > 0 || groceryTotal === 0) {
+      lines.push({
+        id: delivery.id,
+        date: delivery.delivery_date,
+        type: 'delivery',
+        description: `${shiftLabel}: ${formatQuantity(delivery.quantity)}L ${delivery.milk_types?.name || 'Milk'} @ ₹${Number(delivery.price_per_liter).toFixed(2)}/L`,
+        debit: Number(delivery.total_amount) - groceryTotal,
+        credit: 0
+      });
+    }
+    if (groceryTotal > 0) {
+      lines.push({
+        id: `${delivery.id}-groceries`,
+        date: delivery.delivery_date,
+        type: 'grocery',
+        description: `${shiftLabel} groceries: ${delivery.grocery_items
+          .map(item => `${item.name}${item.quantity ? ` (${formatQuantity(item.quantity)} ${item.unit})` : ''}`)
+          .join(', ')}`,
+        debit: groceryTotal,
+        credit: 0
+      });
+    }
+
+    timeline.push({
+      date: delivery.delivery_date,
+      order: shiftIndex === -1 ? DELIVERY_SHIFTS.length - 1 : shiftIndex,
+      createdAt: delivery.created_at,
+      lines
+    });
+  });
+
+  // A reversal is stored as a negative payment; it reads as a charge that cancels the original
+  payments.forEach(payment => {
+    const isReversal = !!payment.reverses_payment_id;
+    timeline.push({
+      date: payment.payment_date,
+      order: PAYMENT_ORDER,
+      createdAt: payment.created_at,
+      lines: [{
+        id: payment.id,
+        date: payment.payment_date,
+        type: 'payment',
+        description: `${isReversal ? 'Payment reversed' : `Payment (${payment.payment_method})`}${payment.notes ? ` - ${payment.notes}` : ''}`,
+        debit: isReversal ? -Number(payment.amount) : 0,
+        credit: isReversal ? 0 : Number(payment.amount)
+      }]
+    });
+  });
+
+  timeline.sort((a, b) =>
+    a.date.localeCompare(b.date) || a.order - b.order || a.createdAt.localeCompare(b.createdAt)
+  );
+
+  const openingBalance = Number(summary?.opening_balance || 0);
+  let balance = openingBalance;
+  const entries = timeline.flatMap(item => item.lines).map(line => {
+    balance += line.debit - line.credit;
+    return { ...line, balance };
+  });
+
+  return {
+    entries,
+    openingBalance,
+    closingBalance: balance,
+    totalDebit: entries.reduce((sum, entry) => sum + entry.debit, 0),
+    totalCredit: entries.reduce((sum, entry) => sum + entry.credit, 0),
+    ledgerBalance: Number(summary?.ledger_balance || 0),
+    recordedBalance: summary?.recorded_balance == null ? null : Number(summary.recorded_balance)
+  };
+};
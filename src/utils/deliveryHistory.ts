@@ -0,0 +1,45 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface RecentDelivery {
+  customer_id: string;
+  milk_type_id: string;
+  delivery_date: string;
+  shift: string;
+  quantity: number;
+}
+
+const PAGE_SIZE = 1000;
+
+// Every delivery from `since` up to but not including `before`. A couple of weeks of deliveries can pass the
+// API's row limit, so they are read a page at a time.
+export const loadRecentDeliveries = async (since: string, before: string): Promise<RecentDelivery[]> => {
+  const records: RecentDelivery[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('delivery_records')
+      .select('customer_id, milk_type_id, delivery_date, shift, quantity')
+      .gte('delivery_date', since)
+      .lt('delivery_date', before)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    records.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return records;
+};
+
+// Each customer's latest milk delivery in a shift, keyed by customer id. Grocery-only rows are ignored.
+export const getLastDeliveries = (records: RecentDelivery[], shift: string) => {
+  const last: Record<string, RecentDelivery> = {};
+  records
+    .filter(record => record.shift === shift && record.quantity > 0)
+    .forEach(record => {
+      const current = last[record.customer_id];
+      if (!current || record.delivery_date > current.delivery_date) {
+        last[record.customer_id] = record;
+      }
+    });
+  return last;
+};
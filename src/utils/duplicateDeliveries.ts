@@ -0,0 +1,32 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { DeliveryShift } from './shifts';
+
+// Error code raised by the prevent_duplicate_delivery trigger when a second delivery for the same customer,
+// date, shift and milk type is saved without allow_duplicate
+const DUPLICATE_DELIVERY_CODE = 'DL001';
+
+export const isDuplicateDeliveryError = (error: unknown) =>
+  (error as { code?: string } | null)?.code === DUPLICATE_DELIVERY_CODE;
+
+export interface ExistingDelivery {
+  id: string;
+  milk_type_id: string;
+  quantity: number;
+  total_amount: number;
+  notes: string | null;
+  milk_types: { name: string } | null;
+}
+
+// Deliveries already saved for a customer in one shift of one day, oldest first
+export const findExistingDeliveries = async (customerId: string, deliveryDate: string, shift: DeliveryShift) => {
+  const { data, error } = await supabase
+    .from('delivery_records')
+    .select('id, milk_type_id, quantity, total_amount, notes, milk_types(name)')
+    .eq('customer_id', customerId)
+    .eq('delivery_date', deliveryDate)
+    .eq('shift', shift)
+    .order('created_at');
+
+  if (error) throw error;
+  return (data || []) as ExistingDelivery[];
+};
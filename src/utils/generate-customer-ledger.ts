@@ -0,0 +1,83 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { format } from 'date-fns';
+import { saveAs } from 'file-saver';
+import { LedgerStatement } from '@/utils/customerLedger';
+
+interface LedgerCustomer {
+  name: string;
+  address?: string | null;
+  phone_number?: string | null;
+}
+
+const formatDate = (date: string) => format(new Date(`${date}T00:00:00`), 'dd/MM/yyyy');
+
+const formatAmount = (amount: number) => (amount ? amount.toFixed(2) : '');
+
+const ledgerFileName = (customer: LedgerCustomer, from: string, to: string, extension: string) =>
+  `${customer.name.replace(/\s+/g, '_')}_ledger_${from}_to_${to}.${extension}`;
+
+export const generateCustomerLedgerPDF = (
+  ledger: LedgerStatement,
+  customer: LedgerCustomer,
+  from: string,
+  to: string
+) => {
+  const doc = new jsPDF();
+  doc.setFontSize(14);
+  doc.text(`Customer Ledger - ${customer.name}`, 14, 16);
+  doc.setFontSize(10);
+  doc.text(`${formatDate(from)} to ${formatDate(to)}`, 14, 22);
+  if (customer.address || customer.phone_number) {
+    doc.text([customer.address, customer.phone_number].filter(Boolean).join(' | '), 14, 27);
+  }
+
+  autoTable(doc, {
+    head: [['Date', 'Details', 'Debit (₹)', 'Credit (₹)', 'Balance (₹)']],
+    body: [
+      ['', 'Opening balance', '', '', ledger.openingBalance.toFixed(2)],
+      ...ledger.entries.map(entry => [
+        formatDate(entry.date),
+        entry.description,
+        formatAmount(entry.debit),
+        formatAmount(entry.credit),
+        entry.balance.toFixed(2)
+      ])
+    ],
+    foot: [['', 'Closing balance', ledger.totalDebit.toFixed(2), ledger.totalCredit.toFixed(2), ledger.closingBalance.toFixed(2)]],
+    startY: 32,
+    styles: { fontSize: 9 },
+    columnStyles: { 1: { cellWidth: 80 }, 2: { halign: 'right' }, 3: { halign: 'right' }, 4: { halign: 'right' } },
+  });
+
+  doc.save(ledgerFileName(customer, from, to, 'pdf'));
+};
+
+// Quote every field so descriptions with commas or quotes stay in one column
+const toCsvRow = (fields: (string | number)[]) =>
+  fields.map(field => `"${String(field).replace(/"/g, '""')}"`).join(',');
+
+export const generateCustomerLedgerCSV = (
+  ledger: LedgerStatement,
+  customer: LedgerCustomer,
+  from: string,
+  to: string
+) => {
+  const rows = [
+    toCsvRow(['Date', 'Type', 'Details', 'Debit', 'Credit', 'Balance']),
+    toCsvRow([from, 'opening', 'Opening balance', '', '', ledger.openingBalance.toFixed(2)]),
+    ...ledger.entries.map(entry => toCsvRow([
+      entry.date,
+      entry.type,
+      entry.description,
+      formatAmount(entry.debit),
+      formatAmount(entry.credit),
+      entry.balance.toFixed(2)
+    ])),
+    toCsvRow([to, 'closing', 'Closing balance', ledger.totalDebit.toFixed(2), ledger.totalCredit.toFixed(2), ledger.closingBalance.toFixed(2)])
+  ];
+
+  // Leading BOM so Excel reads the rupee sign in descriptions as UTF-8
+  const blob = new Blob(['\uFEFF' + rows.join('\r\n')], { type: 'text/csv;charset=utf-8' });
+  saveAs(blob, ledgerFileName(customer, from, to, 'csv'));
+};
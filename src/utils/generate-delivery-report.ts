@@ -2,6 +2,7 @@
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import { toast } from '@/hooks/use-toast';
+import { SHIFT_LABELS, DeliveryShift } from '@/utils/shifts';
 
 export const generateDeliveryReport = (records: any[]) => {
   if (!records || records.length === 0) {
@@ -16,12 +17,13 @@ export const generateDeliveryReport = (records: any[]) => {
   const doc = new jsPDF();
   doc.text("Delivery Report", 14, 16);
   
-  const tableColumn = ["Date", "Customer", "Milk Type", "Qty (L)", "Amount (₹)"];
+  const tableColumn = ["Date", "Shift", "Customer", "Milk Type", "Qty (L)", "Amount (₹)"];
   const tableRows: any[][] = [];
 
   records.forEach(record => {
     const recordData = [
       new Date(record.delivery_date).toLocaleDateString(),
+      SHIFT_LABELS[record.shift as DeliveryShift] || record.shift || 'N/A',
       record.customers?.name || 'N/A',
       record.milk_types?.name || 'N/A',
       record.quantity,
@@ -0,0 +1,70 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { format } from 'date-fns';
+import { saveAs } from 'file-saver';
+import { AGING_BUCKETS, AGING_BUCKET_LABELS, ReceivablesAgingRow } from '@/utils/receivablesAging';
+
+const formatDate = (date: string) => format(new Date(`${date}T00:00:00`), 'dd/MM/yyyy');
+
+const agingFileName = (asOf: string, extension: string) => `receivables_aging_${asOf}.${extension}`;
+
+const sumColumn = (rows: ReceivablesAgingRow[], column: keyof ReceivablesAgingRow) =>
+  rows.reduce((sum, row) => sum + Number(row[column] || 0), 0);
+
+export const generateReceivablesAgingPDF = (rows: ReceivablesAgingRow[], asOf: string) => {
+  const doc = new jsPDF({ orientation: 'landscape' });
+  doc.setFontSize(14);
+  doc.text('Receivables Aging', 14, 16);
+  doc.setFontSize(10);
+  doc.text(`As of ${formatDate(asOf)}`, 14, 22);
+
+  autoTable(doc, {
+    head: [['Customer', ...AGING_BUCKETS.map(bucket => `${AGING_BUCKET_LABELS[bucket]} (₹)`), 'Total (₹)', 'Advance (₹)', 'Oldest Unpaid']],
+    body: rows.map(row => [
+      row.customer_name,
+      ...AGING_BUCKETS.map(bucket => Number(row[bucket]).toFixed(2)),
+      Number(row.total_outstanding).toFixed(2),
+      Number(row.advance).toFixed(2),
+      row.oldest_unpaid_date ? formatDate(row.oldest_unpaid_date) : '-'
+    ]),
+    foot: [[
+      'Total',
+      ...AGING_BUCKETS.map(bucket => sumColumn(rows, bucket).toFixed(2)),
+      sumColumn(rows, 'total_outstanding').toFixed(2),
+      sumColumn(rows, 'advance').toFixed(2),
+      ''
+    ]],
+    startY: 27,
+    styles: { fontSize: 9, halign: 'right' },
+    columnStyles: { 0: { halign: 'left', cellWidth: 60 }, 8: { halign: 'center' } },
+  });
+
+  doc.save(agingFileName(asOf, 'pdf'));
+};
+
+// Quote every field so customer names with commas or quotes stay in one column
+const toCsvRow = (fields: (string | number)[]) =>
+  fields.map(field => `"${String(field).replace(/"/g, '""')}"`).join(',');
+
+export const generateReceivablesAgingCSV = (rows: ReceivablesAgingRow[], asOf: string) => {
+  const lines = [
+    toCsvRow(['Customer', ...AGING_BUCKETS.map(bucket => AGING_BUCKET_LABELS[bucket]), 'Total', 'Advance', 'Oldest Unpaid']),
+    ...rows.map(row => toCsvRow([
+      row.customer_name,
+      ...AGING_BUCKETS.map(bucket => Number(row[bucket]).toFixed(2)),
+      Number(row.total_outstanding).toFixed(2),
+      Number(row.advance).toFixed(2),
+      row.oldest_unpaid_date || ''
+    ])),
+    toCsvRow([
+      'Total',
+      ...AGING_BUCKETS.map(bucket => sumColumn(rows, bucket).toFixed(2)),
+      sumColumn(rows, 'total_outstanding').toFixed(2),
+      sumColumn(rows, 'advance').toFixed(2),
+      ''
+    ])
+  ];
+
+  const blob = new Blob(['\uFEFF' + lines.join('\r\n')], { type: 'text/csv;charset=utf-8' });
+  saveAs(blob, agingFileName(asOf, 'csv'));
+};
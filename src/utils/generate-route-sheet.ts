@@ -0,0 +1,181 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { format } from 'date-fns';
+import { toast } from '@/hooks/use-toast';
+import { SHIFT_LABELS, DeliveryShift } from '@/utils/shifts';
+import { DeliveryRoute, orderCustomersByRoute } from '@/utils/routes';
+import { RecentDelivery } from '@/utils/deliveryHistory';
+
+// How far back a customer's usual order is read from, and on how many of those days an order has to
+// appear before it is expected again. One-off extras are left off the sheet.
+export const ROUTE_SHEET_LOOKBACK_DAYS = 14;
+const MIN_DAYS_FOR_USUAL_ORDER = 2;
+
+export interface RouteSheetCustomer {
+  id: string;
+  name: string;
+  address: string | null;
+  phone_number: string | null;
+}
+
+interface RouteSheetStop {
+  customer: RouteSheetCustomer;
+  // Expected litres per milk type id
+  quantities: Record<string, number>;
+}
+
+interface RouteSheetSection {
+  routeName: string;
+  stops: RouteSheetStop[];
+}
+
+export interface RouteSheetShift {
+  shift: DeliveryShift;
+  sections: RouteSheetSection[];
+}
+
+// The quantity a customer usually takes of a milk type in a shift: the most frequent quantity in recent
+// deliveries, the latest one on a tie. Grocery-only rows (quantity 0) are not milk orders.
+const getUsualQuantities = (records: RecentDelivery[], shift: DeliveryShift) => {
+  const byOrder = new Map<string, RecentDelivery[]>();
+  records
+    .filter(record => record.shift === shift && record.quantity > 0)
+    .forEach(record => {
+      const key = `${record.customer_id}|${record.milk_type_id}`;
+      byOrder.set(key, [...(byOrder.get(key) || []), record]);
+    });
+
+  const usual: Record<string, Record<string, number>> = {};
+  byOrder.forEach((orderRecords, key) => {
+    const days = new Set(orderRecords.map(record => record.delivery_date));
+    if (days.size < MIN_DAYS_FOR_USUAL_ORDER) return;
+
+    const counts = new Map<number, { count: number; lastDate: string }>();
+    orderRecords.forEach(record => {
+      const quantity = Number(record.quantity);
+      const current = counts.get(quantity) || { count: 0, lastDate: '' };
+      counts.set(quantity, {
+        count: current.count + 1,
+        lastDate: record.delivery_date > current.lastDate ? record.delivery_date : current.lastDate
+      });
+    });
+
+    const [quantity] = Array.from(counts.entries()).sort(([, a], [, b]) =>
+      b.count - a.count || b.lastDate.localeCompare(a.lastDate)
+    )[0];
+
+    const [customerId, milkTypeId] = key.split('|');
+    usual[customerId] = { ...(usual[customerId] || {}), [milkTypeId]: quantity };
+  });
+
+  return usual;
+};
+
+// Group the expected orders by route in round order; customers on no route come last, alphabetically
+export const buildRouteSheet = (
+  customers: RouteSheetCustomer[],
+  routes: DeliveryRoute[],
+  records: RecentDelivery[],
+  shifts: DeliveryShift[],
+  pausedCustomerIds: string[]
+): RouteSheetShift[] => {
+  const activeCustomers = customers.filter(customer => !pausedCustomerIds.includes(customer.id));
+  const routedIds = new Set(routes.flatMap(route => route.customerIds));
+  const groups = [
+    ...routes.map(route => ({ routeName: route.name, customers: orderCustomersByRoute(activeCustomers, route) })),
+    { routeName: 'No route', customers: activeCustomers.filter(customer => !routedIds.has(customer.id)) }
+  ];
+
+  return shifts.map(shift => {
+    const usual = getUsualQuantities(records, shift);
+    return {
+      shift,
+      sections: groups
+        .map(group => ({
+          routeName: group.routeName,
+          stops: group.customers
+            .filter(customer => usual[customer.id])
+            .map(customer => ({ customer, quantities: usual[customer.id] }))
+        }))
+        .filter(section => section.stops.length > 0)
+    };
+  });
+};
+
+const formatLiters = (liters: number) => (liters > 0 ? `${Number(liters.toFixed(3))}` : '');
+
+export const generateRouteSheet = (
+  sheet: RouteSheetShift[],
+  milkTypes: { id: string; name: string }[],
+  deliveryDate: string
+) => {
+  if (sheet.every(shiftSheet => shiftSheet.sections.length === 0)) {
+    toast({
+      title: "No Data",
+      description: "No customers have a regular order for this date and shift.",
+      variant: "destructive",
+    });
+    return;
+  }
+
+  const dateLabel = format(new Date(`${deliveryDate}T00:00:00`), 'dd/MM/yyyy');
+  const doc = new jsPDF();
+  let isFirstPage = true;
+
+  sheet.filter(shiftSheet => shiftSheet.sections.length > 0).forEach(({ shift, sections }) => {
+    // Only the milk types someone on this shift takes get a column
+    const shiftMilkTypes = milkTypes.filter(milkType =>
+      sections.some(section => section.stops.some(stop => stop.quantities[milkType.id]))
+    );
+
+    if (!isFirstPage) doc.addPage();
+    isFirstPage = false;
+
+    doc.setFontSize(14);
+    doc.text(`Route Sheet - ${dateLabel} - ${SHIFT_LABELS[shift]}`, 14, 16);
+
+    // Loading manifest first: what goes on the vehicle for each route
+    const loadRows = sections.map(section => [
+      section.routeName,
+      ...shiftMilkTypes.map(milkType =>
+        formatLiters(section.stops.reduce((sum, stop) => sum + (stop.quantities[milkType.id] || 0), 0))
+      )
+    ]);
+    const totalRow = [
+      'Total to load',
+      ...shiftMilkTypes.map(milkType =>
+        formatLiters(sections.reduce((sum, section) =>
+          sum + section.stops.reduce((stopSum, stop) => stopSum + (stop.quantities[milkType.id] || 0), 0), 0))
+      )
+    ];
+
+    autoTable(doc, {
+      head: [['Route', ...shiftMilkTypes.map(milkType => `${milkType.name} (L)`)]],
+      body: loadRows,
+      foot: [totalRow],
+      startY: 22,
+    });
+
+    sections.forEach(section => {
+      const startY = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
+      doc.setFontSize(12);
+      doc.text(section.routeName, 14, startY - 2);
+
+      autoTable(doc, {
+        head: [['#', 'Customer', 'Address', ...shiftMilkTypes.map(milkType => `${milkType.name} (L)`), 'Done']],
+        body: section.stops.map((stop, index) => [
+          index + 1,
+          stop.customer.phone_number ? `${stop.customer.name}\n${stop.customer.phone_number}` : stop.customer.name,
+          stop.customer.address || '',
+          ...shiftMilkTypes.map(milkType => formatLiters(stop.quantities[milkType.id] || 0)),
+          ''
+        ]),
+        startY,
+        styles: { fontSize: 9 },
+        columnStyles: { 2: { cellWidth: 50 } },
+      });
+    });
+  });
+
+  doc.save(`route-sheet-${deliveryDate}.pdf`);
+};
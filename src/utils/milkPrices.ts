@@ -0,0 +1,86 @@
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+
+// One row of milk_type_prices: the rate applies from effective_from until the next row for the same milk type
+export interface MilkTypePrice {
+  id: string;
+  milk_type_id: string;
+  price_per_liter: number;
+  effective_from: string;
+}
+
+// One row of customer_rates: a negotiated rate for one customer and milk type, same effective-date rule
+export interface CustomerRate {
+  id: string;
+  customer_id: string;
+  milk_type_id: string;
+  price_per_liter: number;
+  effective_from: string;
+}
+
+export const loadMilkTypePrices = async (): Promise<MilkTypePrice[]> => {
+  const { data, error } = await supabase
+    .from('milk_type_prices')
+    .select('id, milk_type_id, price_per_liter, effective_from')
+    .order('effective_from');
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Same rule as milk_price_on() in the database: latest rate on or before the date, else the earliest known
+// rate, else the milk type's own price_per_liter.
+export const getMilkPriceOn = (
+  prices: MilkTypePrice[],
+  milkType: { id: string; price_per_liter: number },
+  date: string
+) => {
+  const history = prices
+    .filter(price => price.milk_type_id === milkType.id)
+    .sort((a, b) => a.effective_from.localeCompare(b.effective_from));
+
+  const applicable = history.filter(price => price.effective_from <= date);
+  if (applicable.length > 0) return applicable[applicable.length - 1].price_per_liter;
+  if (history.length > 0) return history[0].price_per_liter;
+  return milkType.price_per_liter;
+};
+
+// milk_types.price_per_liter only follows the history when a price is saved, so a price dated in the future
+// never reaches it. Screens showing a milk type's current rate take it from the history instead.
+export const withCurrentPrices = <T extends { id: string; price_per_liter: number }>(
+  milkTypes: T[],
+  prices: MilkTypePrice[],
+  date = format(new Date(), 'yyyy-MM-dd')
+): T[] => milkTypes.map(milkType => ({ ...milkType, price_per_liter: getMilkPriceOn(prices, milkType, date) }));
+
+export const loadCustomerRates = async (customerId?: string): Promise<CustomerRate[]> => {
+  let query = supabase
+    .from('customer_rates')
+    .select('id, customer_id, milk_type_id, price_per_liter, effective_from')
+    .order('effective_from');
+
+  if (customerId) {
+    query = query.eq('customer_id', customerId);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+};
+
+// Same rule as customer_price_on(): the customer's latest rate on or before the date, else the list price.
+// A negotiated rate that starts later does not apply to earlier deliveries.
+export const getCustomerPriceOn = (
+  rates: CustomerRate[],
+  prices: MilkTypePrice[],
+  customerId: string,
+  milkType: { id: string; price_per_liter: number },
+  date: string
+) => {
+  const applicable = rates
+    .filter(rate => rate.customer_id === customerId && rate.milk_type_id === milkType.id && rate.effective_from <= date)
+    .sort((a, b) => a.effective_from.localeCompare(b.effective_from));
+
+  if (applicable.length > 0) return applicable[applicable.length - 1].price_per_liter;
+  return getMilkPriceOn(prices, milkType, date);
+};
@@ -0,0 +1,300 @@
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import {
+  BillCustomer,
+  BillMonthlyData,
+  BillPreviousPayment,
+  generatePDFBlob,
+  loadPreviousPayments,
+  uploadPdfAndGetUrl
+} from '@/utils/pdfUtils';
+import { DeliveryShift } from '@/utils/shifts';
+
+export type BillStatus = 'draft' | 'issued' | 'paid' | 'void';
+
+export const BILL_STATUS_LABELS: Record<BillStatus, string> = {
+  draft: 'Draft',
+  issued: 'Issued',
+  paid: 'Paid',
+  void: 'Void',
+};
+
+export interface BillTotals {
+  totalMilk: number;
+  totalMilkAmount: number;
+  totalGroceryAmount: number;
+  totalMonthlyAmount: number;
+  // Previous balance plus this month's deliveries
+  grandTotal: number;
+  pendingAfterPayment: number;
+}
+
+// Everything generatePDFBlob prints, kept with an issued bill so its PDF can be rebuilt unchanged
+export interface BillSnapshot {
+  customer: BillCustomer;
+  monthlyData: BillMonthlyData;
+  pendingBalance: number;
+  monthlyPayments: number;
+  previousPayments: BillPreviousPayment[];
+}
+
+// Column values of a bill, as stored in the bills table
+export interface BillFigures {
+  milk_liters: number;
+  milk_amount: number;
+  grocery_amount: number;
+  month_total: number;
+  previous_balance: number;
+  grand_total: number;
+  payments_received: number;
+  amount_due: number;
+  snapshot: Json;
+}
+
+export interface SavedBill {
+  id: string;
+  bill_number: string | null;
+  status: string;
+  pdf_url: string | null;
+}
+
+const monthRange = (month: Date) => ({
+  startDate: format(new Date(month.getFullYear(), month.getMonth(), 1), 'yyyy-MM-dd'),
+  endDate: format(new Date(month.getFullYear(), month.getMonth() + 1, 0), 'yyyy-MM-dd'),
+});
+
+// One customer's deliveries and groceries for a month, grouped by day the way the bill lays them out
+export const loadBillMonthlyData = async (customerId: string, month: Date): Promise<BillMonthlyData> => {
+  const { startDate, endDate } = monthRange(month);
+
+  const { data: deliveryData, error: deliveryError } = await supabase
+    .from('delivery_records')
+    .select(`
+      id,
+      delivery_date,
+      shift,
+      quantity,
+      total_amount,
+      price_per_liter,
+      milk_types(name)
+    `)
+    .eq('customer_id', customerId)
+    .gte('delivery_date', startDate)
+    .lte('delivery_date', endDate)
+    .order('delivery_date')
+    .order('shift');
+
+  if (deliveryError) throw deliveryError;
+
+  const { data: groceryData, error: groceryError } = await supabase
+    .from('grocery_items')
+    .select(`
+      name,
+      price,
+      description,
+      delivery_records!inner(id, delivery_date, customer_id)
+    `)
+    .eq('delivery_records.customer_id', customerId)
+    .gte('delivery_records.delivery_date', startDate)
+    .lte('delivery_records.delivery_date', endDate);
+
+  if (groceryError) throw groceryError;
+
+  const monthData: BillMonthlyData = {};
+
+  deliveryData?.forEach(record => {
+    const date = record.delivery_date;
+    const milkAmount = record.quantity * record.price_per_liter;
+
+    if (!monthData[date]) {
+      monthData[date] = {
+        entries: [],
+        totalMilkQuantity: 0,
+        totalMilkAmount: 0,
+        totalGroceryAmount: 0,
+        hasDelivery: true
+      };
+    }
+
+    monthData[date].entries.push({
+      id: record.id,
+      shift: record.shift as DeliveryShift,
+      milkQuantity: record.quantity,
+      milkAmount,
+      pricePerLiter: record.price_per_liter,
+      milkType: record.milk_types?.name || 'Unknown',
+      grocery: {
+        items: [],
+        total: 0
+      }
+    });
+
+    monthData[date].totalMilkQuantity += record.quantity;
+    monthData[date].totalMilkAmount += milkAmount;
+  });
+
+  groceryData?.forEach(item => {
+    const { id: deliveryId, delivery_date: deliveryDate } = item.delivery_records;
+    const entry = monthData[deliveryDate]?.entries.find(e => e.id === deliveryId);
+
+    if (entry) {
+      entry.grocery.items.push({
+        name: item.name,
+        price: item.price,
+        description: item.description || ''
+      });
+      entry.grocery.total += item.price;
+      monthData[deliveryDate].totalGroceryAmount += item.price;
+    }
+  });
+
+  return monthData;
+};
+
+// The balance brought into the month (never below zero on the bill) and what was paid during it
+export const loadBillBalances = async (customerId: string, month: Date) => {
+  const { startDate, endDate } = monthRange(month);
+  const { data, error } = await supabase.rpc('get_customer_monthly_totals', {
+    _month_start: startDate,
+    _month_end: endDate,
+    _customer_id: customerId
+  });
+
+  if (error) throw error;
+  const totals = data?.[0];
+  return {
+    pendingBalance: Math.max(0, Number(totals?.opening_balance || 0)),
+    monthlyPayments: Number(totals?.payment_amount || 0),
+  };
+};
+
+// The same figures generatePDFBlob prints in the bill summary
+export const summarizeBill = (monthlyData: BillMonthlyData, pendingBalance: number, monthlyPayments: number): BillTotals => {
+  let totalMilk = 0;
+  let totalGroceryAmount = 0;
+  let totalMilkAmount = 0;
+  Object.values(monthlyData).forEach(day => {
+    totalMilk += day.totalMilkQuantity;
+    totalGroceryAmount += day.totalGroceryAmount;
+    totalMilkAmount += day.totalMilkAmount;
+  });
+  const totalMonthlyAmount = totalMilkAmount + totalGroceryAmount;
+  const grandTotal = totalMonthlyAmount + pendingBalance;
+  const pendingAfterPayment = Math.max(0, grandTotal - monthlyPayments);
+  return { totalMilk, totalMilkAmount, totalGroceryAmount, totalMonthlyAmount, grandTotal, pendingAfterPayment };
+};
+
+// A customer's bill for the month as it stands now, ready to be saved
+export const prepareBill = async (customer: BillCustomer, month: Date): Promise<BillFigures> => {
+  const selectedDate = new Date(month.getFullYear(), month.getMonth(), 1);
+  const [monthlyData, { pendingBalance, monthlyPayments }, previousPayments] = await Promise.all([
+    loadBillMonthlyData(customer.id, selectedDate),
+    loadBillBalances(customer.id, selectedDate),
+    loadPreviousPayments(customer.id, selectedDate)
+  ]);
+
+  const snapshot: BillSnapshot = { customer, monthlyData, pendingBalance, monthlyPayments, previousPayments };
+  const totals = summarizeBill(monthlyData, pendingBalance, monthlyPayments);
+  return {
+    milk_liters: totals.totalMilk,
+    milk_amount: totals.totalMilkAmount,
+    grocery_amount: totals.totalGroceryAmount,
+    month_total: totals.totalMonthlyAmount,
+    previous_balance: pendingBalance,
+    grand_total: totals.grandTotal,
+    payments_received: monthlyPayments,
+    amount_due: totals.pendingAfterPayment,
+    snapshot: snapshot as unknown as Json
+  };
+};
+
+// Builds the PDF of an issued bill from its snapshot, uploads it and links it to the bill
+export const publishBillPdf = async (billId: string): Promise<string> => {
+  const { data: bill, error } = await supabase
+    .from('bills')
+    .select('id, bill_number, period_start, snapshot')
+    .eq('id', billId)
+    .single();
+
+  if (error) throw error;
+  if (!bill.snapshot) throw new Error('This bill has no saved figures to print');
+
+  const snapshot = bill.snapshot as unknown as BillSnapshot;
+  const selectedDate = new Date(`${bill.period_start}T00:00:00`);
+  const pdfBlob = await generatePDFBlob({
+    customer: snapshot.customer,
+    selectedDate,
+    monthlyData: snapshot.monthlyData,
+    pendingBalance: snapshot.pendingBalance,
+    monthlyPayments: snapshot.monthlyPayments,
+    previousPayments: snapshot.previousPayments,
+    billNumber: bill.bill_number
+  });
+  if (!pdfBlob) throw new Error('Could not generate PDF');
+
+  const pdfUrl = await uploadPdfAndGetUrl({
+    customer: snapshot.customer,
+    selectedDate,
+    pdfBlob,
+    billNumber: bill.bill_number
+  });
+
+  const { error: updateError } = await supabase
+    .from('bills')
+    .update({ pdf_url: pdfUrl })
+    .eq('id', billId);
+
+  if (updateError) throw updateError;
+  return pdfUrl;
+};
+
+// Saves a customer's bill for the month with today's figures, as a draft or issued. Passing the id of a draft
+// refreshes and replaces that draft. Issuing numbers the bill; publishBillPdf then gives it its PDF.
+export const saveMonthlyBill = async (
+  customer: BillCustomer,
+  month: Date,
+  { billId, status }: { billId?: string; status: 'draft' | 'issued' }
+): Promise<SavedBill> => {
+  const figures = await prepareBill(customer, month);
+  const selectedDate = new Date(month.getFullYear(), month.getMonth(), 1);
+  const { startDate, endDate } = monthRange(selectedDate);
+
+  const { data: bill, error } = billId
+    ? await supabase
+        .from('bills')
+        .update({ ...figures, status })
+        .eq('id', billId)
+        .select('id, bill_number, status, pdf_url')
+        .single()
+    : await supabase
+        .from('bills')
+        .insert({ ...figures, customer_id: customer.id, period_start: startDate, period_end: endDate, status })
+        .select('id, bill_number, status, pdf_url')
+        .single();
+
+  if (error) throw error;
+  return bill;
+};
+
+// Voids an issued bill and issues a corrected one in its place with today's figures. The old bill and its PDF
+// are kept.
+export const reissueBill = async (billId: string, reason: string, figures: BillFigures): Promise<SavedBill> => {
+  const { data: newBillId, error } = await supabase.rpc('reissue_bill', {
+    _bill_id: billId,
+    _reason: reason,
+    _bill: figures as unknown as Json
+  });
+
+  if (error) throw error;
+
+  const pdfUrl = await publishBillPdf(newBillId);
+  const { data: bill, error: billError } = await supabase
+    .from('bills')
+    .select('id, bill_number, status, pdf_url')
+    .eq('id', newBillId)
+    .single();
+
+  if (billError) throw billError;
+  return { ...bill, pdf_url: pdfUrl };
+};
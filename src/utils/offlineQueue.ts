@@ -0,0 +1,86 @@
+import type { DeliveryShift } from './shifts';
+
+// Bulk entries waiting to be written to delivery_records, kept in IndexedDB so they survive reloads
+// and dead network spots.
+export type QueuedDeliveryStatus = 'pending' | 'conflict' | 'failed';
+
+export interface QueuedDelivery {
+  clientId: string;
+  customerId: string;
+  customerName: string;
+  deliveryDate: string;
+  shift: DeliveryShift;
+  milkTypeId: string;
+  quantity: number;
+  pricePerLiter: number;
+  totalAmount: number;
+  notes: string | null;
+  groceryItems: { name: string; price: number }[];
+  createdAt: string;
+  status: QueuedDeliveryStatus;
+  // Set on conflicts and failures so the screen can explain what went wrong
+  message?: string;
+  // Save even though the customer already has a delivery for this date and shift
+  allowDuplicate?: boolean;
+}
+
+const DB_NAME = 'milk-manager-offline';
+const DB_VERSION = 1;
+const STORE = 'pendingDeliveries';
+
+const openDb = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE)) {
+        request.result.createObjectStore(STORE, { keyPath: 'clientId' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const runInStore = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE, mode);
+      const request = action(transaction.objectStore(STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const getQueuedDeliveries = async () => {
+  const items = await runInStore<QueuedDelivery[]>('readonly', store => store.getAll());
+  return items.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+export const putQueuedDelivery = (item: QueuedDelivery) =>
+  runInStore('readwrite', store => store.put(item));
+
+export const removeQueuedDelivery = (clientId: string) =>
+  runInStore('readwrite', store => store.delete(clientId));
+
+// Empties the queue on sign-out so the next person to sign in on this phone does not send someone else's entries
+export const clearQueuedDeliveries = () =>
+  runInStore('readwrite', store => store.clear());
+
+export const createClientId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
+        const r = (Math.random() * 16) | 0;
+        return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+      });
+
+// True when a request failed because there was no connection rather than being refused by the server
+export const isNetworkError = (error: unknown) => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  const message = error instanceof Error ? error.message : (error as { message?: string })?.message || '';
+  return /failed to fetch|networkerror|load failed|network request failed/i.test(message);
+};
@@ -0,0 +1,14 @@
+// Customer pause periods from customer_pauses. Dates are 'yyyy-MM-dd' strings and both ends are inclusive.
+export interface CustomerPause {
+  id: string;
+  customer_id: string;
+  start_date: string;
+  end_date: string;
+  reason: string | null;
+}
+
+export const findPauseForDate = <T extends Pick<CustomerPause, 'start_date' | 'end_date'>>(pauses: T[], date: string) =>
+  pauses.find(pause => pause.start_date <= date && date <= pause.end_date);
+
+export const isDatePaused = (pauses: Pick<CustomerPause, 'start_date' | 'end_date'>[], date: string) =>
+  !!findPauseForDate(pauses, date);
@@ -1,6 +1,7 @@
 import { supabase } from "@/integrations/supabase/client";
 import { format, getDaysInMonth } from 'date-fns';
 import jsPDF from "jspdf";
+import type { DeliveryShift } from "./shifts";
 
 // Define the strongly-typed interfaces used in the bill generation
 export interface BillCustomer {
@@ -18,9 +19,11 @@ export interface BillGroceryItem {
 
 export interface BillDailyEntry {
   id: string;
-  time: string; // "Morning", "Evening"
+  shift: DeliveryShift;
   milkQuantity: number;
   milkAmount: number;
+  // Rate actually charged on the delivery (includes any per-customer rate)
+  pricePerLiter: number;
   milkType: string;
   grocery: {
     items: BillGroceryItem[];
@@ -38,6 +41,27 @@ export interface BillMonthlyData {
   };
 }
 
+export interface BillPreviousPayment {
+  amount: number;
+  payment_date: string;
+  payment_method: string;
+}
+
+// The last few payments made before the bill's month, listed on the bill
+export async function loadPreviousPayments(customerId: string, selectedDate: Date): Promise<BillPreviousPayment[]> {
+  const currentMonthStart = format(selectedDate, 'yyyy-MM-dd');
+  const { data } = await supabase
+    .from('payments')
+    .select('amount, payment_date, payment_method')
+    .eq('customer_id', customerId)
+    .lt('payment_date', currentMonthStart)
+    .order('payment_date', { ascending: false })
+    .limit(5); // Show last 5 previous payments
+  return data || [];
+}
+
+const formatRate = (rate: number) => Number.isInteger(rate) ? `${rate}` : rate.toFixed(2);
+
 // Utility to generate the bill PDF and return a blob
 export async function generatePDFBlob({
   customer,
@@ -45,23 +69,20 @@ export async function generatePDFBlob({
   monthlyData,
   pendingBalance,
   monthlyPayments = 0, // <-- NEW
+  billNumber,
+  previousPayments,
 }: {
   customer: BillCustomer;
   selectedDate: Date;
   monthlyData: BillMonthlyData;
   pendingBalance: number; // This is the previous pending, passed in by CustomerBills
   monthlyPayments?: number; // <-- NEW
+  billNumber?: string | null; // Printed on issued bills
+  previousPayments?: BillPreviousPayment[]; // From an issued bill's snapshot; fetched when not given
 }) {
   try {
     // Fetch previous payments made before current month
-    const currentMonthStart = format(selectedDate, 'yyyy-MM-dd');
-    const { data: previousPaymentsData } = await supabase
-      .from('payments')
-      .select('amount, payment_date, payment_method')
-      .eq('customer_name', customer.name)
-      .lt('payment_date', currentMonthStart)
-      .order('payment_date', { ascending: false })
-      .limit(5); // Show last 5 previous payments
+    const previousPaymentsData = previousPayments ?? await loadPreviousPayments(customer.id, selectedDate);
 
     const monthName = format(selectedDate, 'MMMM yyyy');
     let totalMilk = 0, totalGroceryAmount = 0, totalMilkAmount = 0;
@@ -87,6 +108,7 @@ export async function generatePDFBlob({
     pdf.text(`Address: ${customer.address || 'N/A'}`,20,62);
     if (customer.phone_number) pdf.text(`Phone: ${customer.phone_number}`,20,69);
     pdf.text(`Bill Period: ${monthName}`,20,76);
+    if (billNumber) pdf.text(`Bill No: ${billNumber}`,pageWidth-20,55,{align:"right"});
     pdf.setDrawColor(200,200,200); pdf.setLineWidth(0.5);
     pdf.line(20,82,pageWidth-20,82);
     pdf.setFont("helvetica","bold"); pdf.setFontSize(12); pdf.text("DAILY BREAKDOWN",20,92);
@@ -102,9 +124,11 @@ export async function generatePDFBlob({
         if(y>260){pdf.addPage();y=20;rowCount=0;}
         if(rowCount%2===0){pdf.setFillColor(250,250,250);pdf.rect(20,y-5,pageWidth-40,8, 'F');}
         let morningQty=0, eveningQty=0, totalDayAmount=0, averageRate=0, groceryTotal=0, groceryItems=[];
+        const dayRates=new Set<number>();
         dayData.entries.forEach(entry=>{
-          if(entry.time==="Morning")morningQty+=entry.milkQuantity;
-          else if(entry.time==="Evening")eveningQty+=entry.milkQuantity;
+          if(entry.milkQuantity>0)dayRates.add(Number(entry.pricePerLiter));
+          if(entry.shift==="morning")morningQty+=entry.milkQuantity;
+          else if(entry.shift==="evening")eveningQty+=entry.milkQuantity;
           totalDayAmount+=entry.milkAmount; groceryTotal+=entry.grocery.total;
           groceryItems.push(...entry.grocery.items);
         });
@@ -115,7 +139,9 @@ export async function generatePDFBlob({
         pdf.text(morningQty>0?`${morningQty}L`:"-",55,y);
         pdf.text(eveningQty>0?`${eveningQty}L`:"-",85,y);
         pdf.text(totalQty>0?`${totalQty}L`:"-",115,y);
-        pdf.text(totalQty>0?`${Math.ceil(averageRate)}`:"-",145,y);
+        // Show the charged rate; only fall back to an average when the day mixes rates
+        const rateText=dayRates.size===1?formatRate([...dayRates][0]):formatRate(averageRate);
+        pdf.text(totalQty>0?rateText:"-",145,y);
         pdf.text(totalDayAmount>0?`${totalDayAmount.toFixed(2)}`:"-",165,y);
         if(groceryItems.length>0){
           pdf.text(`${groceryTotal.toFixed(2)}`,185,y);
@@ -212,26 +238,37 @@ export async function generatePDFBlob({
   }
 }
     
+const isDuplicateUpload = (error: { message?: string; status?: number }) =>
+  error.status === 409 || /already exists/i.test(error.message || "");
+
 export async function uploadPdfAndGetUrl({
   customer,
   selectedDate,
   pdfBlob,
+  billNumber,
 }: {
   customer: BillCustomer;
   selectedDate: Date;
   pdfBlob: Blob;
+  billNumber?: string | null;
 }) {
   const monthName = format(selectedDate, "MMMM yyyy");
-  const fileName = `${customer.name.replace(/\s+/g, "_")}_${monthName.replace(/\s+/g, "_")}.pdf`;
+  // Issued bills are named by bill number and never replaced, so the PDF a customer was sent stays as it was.
+  // Anything else is a statement shared from the bills screen; those live under statements/ so they cannot land
+  // on an issued bill's file, and include part of the customer id so customers sharing a name don't collide.
+  const fileName = billNumber
+    ? `${billNumber.replace(/\//g, "-")}_${customer.name.replace(/\s+/g, "_")}.pdf`
+    : `statements/${customer.name.replace(/\s+/g, "_")}_${monthName.replace(/\s+/g, "_")}_${customer.id.slice(0, 8)}.pdf`;
 
-  const { data, error } = await supabase.storage
+  const { error } = await supabase.storage
     .from("bills")
     .upload(fileName, pdfBlob, {
       cacheControl: "3600",
-      upsert: true,
+      upsert: !billNumber,
       contentType: "application/pdf",
     });
-  if (error) throw error;
+  // A retry after the upload went through but the bill was not updated finds its own file already there
+  if (error && !(billNumber && isDuplicateUpload(error))) throw error;
 
   const { data: urlData } = supabase.storage
     .from("bills")
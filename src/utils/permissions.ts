@@ -0,0 +1,71 @@
+// Role-based permissions for staff. Keep in sync with the RLS policies in supabase/migrations.
+export type StaffRole = 'owner' | 'accountant' | 'delivery_boy';
+
+export type Permission =
+  | 'view_dashboard'
+  | 'view_customers'
+  | 'manage_customers'
+  | 'delete_customers'
+  | 'manage_customer_rates'
+  | 'view_milk_types'
+  | 'manage_milk_types'
+  | 'enter_deliveries'
+  | 'manage_deliveries'
+  | 'manage_subscriptions'
+  | 'manage_routes'
+  | 'manage_payments'
+  | 'edit_payments'
+  | 'clear_balances'
+  | 'rebuild_balances'
+  | 'view_bills'
+  | 'issue_bills'
+  | 'view_audit_log';
+
+export const ROLE_LABELS: Record<StaffRole, string> = {
+  owner: 'Owner',
+  accountant: 'Accountant',
+  delivery_boy: 'Delivery Boy',
+};
+
+const ROLE_PERMISSIONS: Record<StaffRole, Permission[]> = {
+  owner: [
+    'view_dashboard',
+    'view_customers',
+    'manage_customers',
+    'delete_customers',
+    'manage_customer_rates',
+    'view_milk_types',
+    'manage_milk_types',
+    'enter_deliveries',
+    'manage_deliveries',
+    'manage_subscriptions',
+    'manage_routes',
+    'manage_payments',
+    'edit_payments',
+    'clear_balances',
+    'rebuild_balances',
+    'view_bills',
+    'issue_bills',
+    'view_audit_log',
+  ],
+  accountant: [
+    'view_dashboard',
+    'view_customers',
+    'manage_customers',
+    'view_milk_types',
+    'enter_deliveries',
+    'manage_deliveries',
+    'manage_subscriptions',
+    'manage_routes',
+    'manage_payments',
+    'view_bills',
+    'issue_bills',
+    'view_audit_log',
+  ],
+  delivery_boy: ['enter_deliveries'],
+};
+
+export const hasPermission = (role: string | null | undefined, permission: Permission) => {
+  if (!role || !(role in ROLE_PERMISSIONS)) return false;
+  return ROLE_PERMISSIONS[role as StaffRole].includes(permission);
+};
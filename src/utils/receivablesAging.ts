@@ -0,0 +1,67 @@
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+
+export type AgingBucket = 'current_month' | 'days_1_30' | 'days_31_60' | 'days_61_90' | 'days_over_90';
+
+export const AGING_BUCKETS: AgingBucket[] = ['current_month', 'days_1_30', 'days_31_60', 'days_61_90', 'days_over_90'];
+
+export const AGING_BUCKET_LABELS: Record<AgingBucket, string> = {
+  current_month: 'This Month',
+  days_1_30: '1-30 Days',
+  days_31_60: '31-60 Days',
+  days_61_90: '61-90 Days',
+  days_over_90: '90+ Days',
+};
+
+export interface ReceivablesAgingRow {
+  customer_id: string;
+  customer_name: string;
+  current_month: number;
+  days_1_30: number;
+  days_31_60: number;
+  days_61_90: number;
+  days_over_90: number;
+  total_outstanding: number;
+  advance: number;
+  oldest_unpaid_date: string | null;
+}
+
+export interface UnpaidMonth {
+  // First day of the month, yyyy-MM-dd
+  month: string;
+  days: number;
+  unpaidAmount: number;
+  oldestDate: string;
+}
+
+// Each customer's unpaid amount on a date, split by how long ago the deliveries were. Payments clear the oldest
+// deliveries first.
+export const loadReceivablesAging = async (asOf: string): Promise<ReceivablesAgingRow[]> => {
+  const { data, error } = await supabase.rpc('get_receivables_aging', { _as_of: asOf });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// The months a customer's unpaid amount on a date comes from, oldest first
+export const loadUnpaidMonths = async (customerId: string, asOf: string): Promise<UnpaidMonth[]> => {
+  const { data, error } = await supabase
+    .rpc('receivable_open_items', { _as_of: asOf })
+    .eq('customer_id', customerId)
+    .order('delivery_date');
+
+  if (error) throw error;
+
+  const months = new Map<string, UnpaidMonth>();
+  (data || []).forEach(item => {
+    const month = format(new Date(`${item.delivery_date}T00:00:00`), 'yyyy-MM-01');
+    const existing = months.get(month);
+    if (existing) {
+      existing.days += 1;
+      existing.unpaidAmount += Number(item.unpaid_amount);
+    } else {
+      months.set(month, { month, days: 1, unpaidAmount: Number(item.unpaid_amount), oldestDate: item.delivery_date });
+    }
+  });
+  return Array.from(months.values());
+};
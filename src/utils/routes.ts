@@ -0,0 +1,40 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// A delivery round from routes, with its customer ids in round order (route_customers.position).
+// Row-level security already limits delivery boys to the routes assigned to them.
+export interface DeliveryRoute {
+  id: string;
+  name: string;
+  assigned_to: string | null;
+  notes: string | null;
+  customerIds: string[];
+}
+
+export const loadRoutes = async (): Promise<DeliveryRoute[]> => {
+  const { data: routesData, error: routesError } = await supabase
+    .from('routes')
+    .select('id, name, assigned_to, notes')
+    .order('name');
+
+  if (routesError) throw routesError;
+
+  const { data: stopsData, error: stopsError } = await supabase
+    .from('route_customers')
+    .select('route_id, customer_id, position')
+    .order('position');
+
+  if (stopsError) throw stopsError;
+
+  return (routesData || []).map(route => ({
+    ...route,
+    customerIds: (stopsData || [])
+      .filter(stop => stop.route_id === route.id)
+      .map(stop => stop.customer_id)
+  }));
+};
+
+// The route's customers in round order; ids of customers that no longer exist are dropped
+export const orderCustomersByRoute = <T extends { id: string }>(customers: T[], route: Pick<DeliveryRoute, 'customerIds'>) =>
+  route.customerIds
+    .map(customerId => customers.find(customer => customer.id === customerId))
+    .filter((customer): customer is T => !!customer);
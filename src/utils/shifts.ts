@@ -0,0 +1,9 @@
+// Delivery shifts as stored in delivery_records.shift
+export type DeliveryShift = 'morning' | 'evening';
+
+export const DELIVERY_SHIFTS: DeliveryShift[] = ['morning', 'evening'];
+
+export const SHIFT_LABELS: Record<DeliveryShift, string> = {
+  morning: 'Morning',
+  evening: 'Evening',
+};
@@ -0,0 +1,35 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Re-authenticates the signed-in staff member and checks their role on the server
+// before a sensitive action such as clearing a customer's balance.
+export async function verifyStaffRole({
+  password,
+  allowedRoles,
+}: {
+  password: string;
+  allowedRoles: string[];
+}): Promise<{ ok: true } | { ok: false; reason: string }> {
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (userError || !user?.email) {
+    return { ok: false, reason: "You are not signed in" };
+  }
+
+  const { error: signInError } = await supabase.auth.signInWithPassword({
+    email: user.email,
+    password,
+  });
+  if (signInError) {
+    return { ok: false, reason: "Incorrect password" };
+  }
+
+  const { data: role, error: roleError } = await supabase.rpc("get_my_role");
+  if (roleError) {
+    console.error("Error checking role:", roleError);
+    return { ok: false, reason: "Could not verify your role" };
+  }
+  if (!role || !allowedRoles.includes(role)) {
+    return { ok: false, reason: "You do not have permission to do this" };
+  }
+
+  return { ok: true };
+}
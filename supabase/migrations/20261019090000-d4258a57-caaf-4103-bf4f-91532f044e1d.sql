@@ -0,0 +1,56 @@
+-- Staff accounts: each Supabase Auth user gets a profile row carrying their
+-- display name and role. Only owners may clear customer balances.
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS role text NOT NULL DEFAULT 'staff';
+
+ALTER TABLE public.profiles
+  DROP CONSTRAINT IF EXISTS profiles_role_check;
+ALTER TABLE public.profiles
+  ADD CONSTRAINT profiles_role_check CHECK (role IN ('owner', 'staff'));
+
+ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can view profiles" ON public.profiles;
+CREATE POLICY "Staff can view profiles" ON public.profiles
+FOR SELECT USING (auth.role() = 'authenticated');
+
+-- Create a profile automatically when a staff account is created in Supabase Auth
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO profiles (id, email, full_name)
+    VALUES (NEW.id, NEW.email, NEW.raw_user_meta_data ->> 'full_name')
+    ON CONFLICT (id) DO NOTHING;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+AFTER INSERT ON auth.users
+FOR EACH ROW EXECUTE FUNCTION public.handle_new_user();
+
+-- Backfill profiles for accounts created before the trigger existed
+INSERT INTO public.profiles (id, email, full_name)
+SELECT u.id, u.email, u.raw_user_meta_data ->> 'full_name'
+FROM auth.users u
+ON CONFLICT (id) DO NOTHING;
+
+-- Record which staff member entered each payment
+ALTER TABLE public.payments
+  ADD COLUMN IF NOT EXISTS created_by uuid REFERENCES auth.users(id) DEFAULT auth.uid();
+
+-- Server-side role lookup for the signed-in user
+CREATE OR REPLACE FUNCTION public.get_my_role()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM profiles WHERE id = auth.uid();
+$$;
@@ -0,0 +1,102 @@
+-- Staff roles: owner (everything), accountant (customers, payments, bills, delivery corrections)
+-- and delivery_boy (bulk delivery entry only). Policies below mirror src/utils/permissions.ts.
+UPDATE public.profiles SET role = 'delivery_boy' WHERE role = 'staff';
+
+ALTER TABLE public.profiles
+  DROP CONSTRAINT IF EXISTS profiles_role_check;
+ALTER TABLE public.profiles
+  ALTER COLUMN role SET DEFAULT 'delivery_boy';
+ALTER TABLE public.profiles
+  ADD CONSTRAINT profiles_role_check CHECK (role IN ('owner', 'accountant', 'delivery_boy'));
+
+CREATE OR REPLACE FUNCTION public.has_any_role(_roles text[])
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND role = ANY(_roles)
+  );
+$$;
+
+-- Replace any earlier open policies so only the role-based ones below apply
+DO $$
+DECLARE
+    pol record;
+BEGIN
+    FOR pol IN
+        SELECT policyname, tablename FROM pg_policies
+        WHERE schemaname = 'public'
+          AND tablename IN ('customers', 'milk_types', 'delivery_records', 'grocery_items', 'payments', 'customer_balances')
+    LOOP
+        EXECUTE format('DROP POLICY %I ON public.%I', pol.policyname, pol.tablename);
+    END LOOP;
+END;
+$$;
+
+-- customers
+CREATE POLICY "Staff can view customers" ON public.customers
+FOR SELECT USING (auth.role() = 'authenticated');
+CREATE POLICY "Office staff can add customers" ON public.customers
+FOR INSERT WITH CHECK (public.has_any_role(ARRAY['owner', 'accountant']));
+CREATE POLICY "Office staff can edit customers" ON public.customers
+FOR UPDATE USING (public.has_any_role(ARRAY['owner', 'accountant']));
+CREATE POLICY "Owners can delete customers" ON public.customers
+FOR DELETE USING (public.has_any_role(ARRAY['owner']));
+
+-- milk_types
+CREATE POLICY "Staff can view milk types" ON public.milk_types
+FOR SELECT USING (auth.role() = 'authenticated');
+CREATE POLICY "Owners can add milk types" ON public.milk_types
+FOR INSERT WITH CHECK (public.has_any_role(ARRAY['owner']));
+CREATE POLICY "Owners can edit milk types" ON public.milk_types
+FOR UPDATE USING (public.has_any_role(ARRAY['owner']));
+CREATE POLICY "Owners can delete milk types" ON public.milk_types
+FOR DELETE USING (public.has_any_role(ARRAY['owner']));
+
+-- delivery_records
+CREATE POLICY "Staff can view deliveries" ON public.delivery_records
+FOR SELECT USING (auth.role() = 'authenticated');
+CREATE POLICY "Staff can record deliveries" ON public.delivery_records
+FOR INSERT WITH CHECK (public.has_any_role(ARRAY['owner', 'accountant', 'delivery_boy']));
+CREATE POLICY "Office staff can edit deliveries" ON public.delivery_records
+FOR UPDATE USING (public.has_any_role(ARRAY['owner', 'accountant']));
+CREATE POLICY "Office staff can delete deliveries" ON public.delivery_records
+FOR DELETE USING (public.has_any_role(ARRAY['owner', 'accountant']));
+
+-- grocery_items
+CREATE POLICY "Staff can view grocery items" ON public.grocery_items
+FOR SELECT USING (auth.role() = 'authenticated');
+CREATE POLICY "Staff can record grocery items" ON public.grocery_items
+FOR INSERT WITH CHECK (public.has_any_role(ARRAY['owner', 'accountant', 'delivery_boy']));
+CREATE POLICY "Office staff can edit grocery items" ON public.grocery_items
+FOR UPDATE USING (public.has_any_role(ARRAY['owner', 'accountant']));
+CREATE POLICY "Office staff can delete grocery items" ON public.grocery_items
+FOR DELETE USING (public.has_any_role(ARRAY['owner', 'accountant']));
+
+-- payments: accountants record payments, only owners may clear a balance or change history
+CREATE POLICY "Office staff can view payments" ON public.payments
+FOR SELECT USING (public.has_any_role(ARRAY['owner', 'accountant']));
+CREATE POLICY "Office staff can record payments" ON public.payments
+FOR INSERT WITH CHECK (
+  public.has_any_role(ARRAY['owner'])
+  OR (public.has_any_role(ARRAY['accountant']) AND payment_method <> 'Balance Clear')
+);
+CREATE POLICY "Owners can edit payments" ON public.payments
+FOR UPDATE USING (public.has_any_role(ARRAY['owner']));
+CREATE POLICY "Owners can delete payments" ON public.payments
+FOR DELETE USING (public.has_any_role(ARRAY['owner']));
+
+-- customer_balances: kept up to date by SECURITY DEFINER triggers
+CREATE POLICY "Office staff can view balances" ON public.customer_balances
+FOR SELECT USING (public.has_any_role(ARRAY['owner', 'accountant']));
+CREATE POLICY "Office staff can open balances" ON public.customer_balances
+FOR INSERT WITH CHECK (public.has_any_role(ARRAY['owner', 'accountant']));
+CREATE POLICY "Owners can delete balances" ON public.customer_balances
+FOR DELETE USING (public.has_any_role(ARRAY['owner']));
+
+-- get_customer_pending_balances runs as definer and bypasses RLS, so keep it away from signed-out visitors
+REVOKE EXECUTE ON FUNCTION public.get_customer_pending_balances() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_customer_pending_balances() TO authenticated;
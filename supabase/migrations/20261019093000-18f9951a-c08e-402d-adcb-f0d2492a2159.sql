@@ -0,0 +1,86 @@
+-- Link payments to customers by id instead of by name, so renaming a customer
+-- or having two customers with the same name no longer breaks balances.
+ALTER TABLE public.payments
+  ADD COLUMN IF NOT EXISTS customer_id uuid REFERENCES public.customers(id);
+
+UPDATE public.payments p
+SET customer_id = c.id
+FROM public.customers c
+WHERE p.customer_id IS NULL AND c.name = p.customer_name;
+
+ALTER TABLE public.payments
+  ALTER COLUMN customer_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS payments_customer_id_idx ON public.payments (customer_id);
+
+-- customer_name is kept only as a historical snapshot and is no longer written
+ALTER TABLE public.payments DROP CONSTRAINT IF EXISTS payments_customer_name_fkey;
+ALTER TABLE public.payments ALTER COLUMN customer_name DROP NOT NULL;
+ALTER TABLE public.customers DROP CONSTRAINT IF EXISTS customers_name_key;
+
+-- Payment balance trigger keyed by customer id
+DROP TRIGGER IF EXISTS payment_balance_change ON public.payments;
+DROP FUNCTION IF EXISTS public.update_balance_on_payment_by_name();
+
+CREATE OR REPLACE FUNCTION public.update_balance_on_payment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO customer_balances (customer_id, pending_amount)
+    VALUES (NEW.customer_id, -NEW.amount)
+    ON CONFLICT (customer_id)
+    DO UPDATE SET pending_amount = customer_balances.pending_amount - NEW.amount;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER payment_balance_change
+AFTER INSERT ON public.payments
+FOR EACH ROW EXECUTE FUNCTION public.update_balance_on_payment();
+
+CREATE OR REPLACE FUNCTION get_customer_pending_balances()
+RETURNS TABLE (
+  customer_id uuid,
+  customer_name text,
+  address text,
+  phone_number text,
+  created_at timestamptz,
+  total_deliveries numeric,
+  total_payments numeric,
+  pending_amount numeric
+) 
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT 
+    c.id as customer_id,
+    c.name as customer_name,
+    c.address,
+    c.phone_number,
+    c.created_at,
+    COALESCE(deliveries.total_amount, 0) as total_deliveries,
+    COALESCE(payments.total_paid, 0) as total_payments,
+    COALESCE(deliveries.total_amount, 0) - COALESCE(payments.total_paid, 0) as pending_amount
+  FROM customers c
+  LEFT JOIN (
+    SELECT 
+      dr.customer_id,
+      SUM(dr.total_amount) as total_amount
+    FROM delivery_records dr
+    GROUP BY dr.customer_id
+  ) deliveries ON c.id = deliveries.customer_id
+  LEFT JOIN (
+    SELECT 
+      p.customer_id,
+      SUM(p.amount) as total_paid
+    FROM payments p
+    GROUP BY p.customer_id
+  ) payments ON c.id = payments.customer_id;
+END;
+$$;
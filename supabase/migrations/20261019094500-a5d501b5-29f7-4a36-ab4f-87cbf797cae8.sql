@@ -0,0 +1,46 @@
+-- Bulk entry used to store groceries only inside delivery_records.notes, e.g.
+-- "Delivery Time: morning | Grocery: Bread (₹40), Eggs (₹72)". Bills read groceries
+-- from grocery_items, so those purchases were never itemised.
+
+-- Step 1: One-time tool that parses grocery notes into grocery_items rows.
+CREATE OR REPLACE FUNCTION public.migrate_grocery_notes()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_inserted integer;
+BEGIN
+    INSERT INTO grocery_items (delivery_record_id, name, price, quantity, unit)
+    SELECT dr.id, trim(m[1]), m[2]::numeric, 1, 'item'
+    FROM delivery_records dr
+    CROSS JOIN LATERAL regexp_matches(
+        substring(dr.notes FROM 'Grocery: (.*)$'),
+        '\s*([^,]+?) \(₹([0-9]+(?:\.[0-9]+)?)\)',
+        'g'
+    ) AS m
+    WHERE dr.notes LIKE '%Grocery: %'
+      AND NOT EXISTS (
+        SELECT 1 FROM grocery_items gi WHERE gi.delivery_record_id = dr.id
+      );
+
+    GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+    -- Keep only the delivery time in notes now that groceries are real rows
+    UPDATE delivery_records
+    SET notes = regexp_replace(notes, ' \| Grocery: .*$', '')
+    WHERE notes LIKE '%| Grocery: %'
+      AND EXISTS (
+        SELECT 1 FROM grocery_items gi WHERE gi.delivery_record_id = delivery_records.id
+      );
+
+    RETURN v_inserted;
+END;
+$$;
+
+-- Step 2: Run it. total_amount already includes these groceries, so balances do not change.
+SELECT public.migrate_grocery_notes();
+
+-- Step 3: Drop the one-time function.
+DROP FUNCTION public.migrate_grocery_notes();
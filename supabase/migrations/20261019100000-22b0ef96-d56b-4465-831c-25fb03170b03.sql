@@ -0,0 +1,20 @@
+-- Store the delivery shift as a real column instead of "Delivery Time: morning" inside notes.
+ALTER TABLE public.delivery_records
+  ADD COLUMN IF NOT EXISTS shift text NOT NULL DEFAULT 'morning';
+
+ALTER TABLE public.delivery_records
+  DROP CONSTRAINT IF EXISTS delivery_records_shift_check;
+ALTER TABLE public.delivery_records
+  ADD CONSTRAINT delivery_records_shift_check CHECK (shift IN ('morning', 'evening'));
+
+-- Backfill using the same rule the bills screen used: anything mentioning "evening" is evening
+UPDATE public.delivery_records
+SET shift = 'evening'
+WHERE notes ILIKE '%evening%';
+
+-- Drop the encoded shift from notes, e.g. "Grocery Only - Delivery Time: morning" -> "Grocery Only"
+UPDATE public.delivery_records
+SET notes = NULLIF(trim(regexp_replace(notes, '(\s*-\s*)?Delivery Time:\s*(morning|evening)', '', 'i')), '')
+WHERE notes ~* 'Delivery Time:\s*(morning|evening)';
+
+CREATE INDEX IF NOT EXISTS delivery_records_date_shift_idx ON public.delivery_records (delivery_date, shift);
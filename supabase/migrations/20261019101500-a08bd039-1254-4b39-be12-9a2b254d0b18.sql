@@ -0,0 +1,91 @@
+-- Standing subscriptions: the regular quantity a customer takes, so daily deliveries can be generated
+-- instead of entered one by one. Weekdays use Postgres/JS numbering (0 = Sunday ... 6 = Saturday).
+CREATE TABLE IF NOT EXISTS public.subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id uuid NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+  milk_type_id uuid NOT NULL REFERENCES public.milk_types(id),
+  quantity numeric NOT NULL CHECK (quantity > 0),
+  shifts text[] NOT NULL DEFAULT ARRAY['morning']::text[]
+    CHECK (cardinality(shifts) > 0 AND shifts <@ ARRAY['morning', 'evening']::text[]),
+  weekdays smallint[] NOT NULL DEFAULT ARRAY[0, 1, 2, 3, 4, 5, 6]::smallint[]
+    CHECK (cardinality(weekdays) > 0 AND weekdays <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::smallint[]),
+  start_date date NOT NULL DEFAULT CURRENT_DATE,
+  end_date date,
+  is_active boolean NOT NULL DEFAULT true,
+  notes text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT subscriptions_date_range_check CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS subscriptions_customer_id_idx ON public.subscriptions (customer_id);
+
+ALTER TABLE public.subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view subscriptions" ON public.subscriptions
+FOR SELECT USING (auth.role() = 'authenticated');
+CREATE POLICY "Office staff can add subscriptions" ON public.subscriptions
+FOR INSERT WITH CHECK (public.has_any_role(ARRAY['owner', 'accountant']));
+CREATE POLICY "Office staff can edit subscriptions" ON public.subscriptions
+FOR UPDATE USING (public.has_any_role(ARRAY['owner', 'accountant']));
+CREATE POLICY "Office staff can delete subscriptions" ON public.subscriptions
+FOR DELETE USING (public.has_any_role(ARRAY['owner', 'accountant']));
+
+-- Remember which subscription produced a delivery so generating the same day twice is harmless
+ALTER TABLE public.delivery_records
+  ADD COLUMN IF NOT EXISTS subscription_id uuid REFERENCES public.subscriptions(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS delivery_records_subscription_day_idx
+  ON public.delivery_records (subscription_id, delivery_date, shift)
+  WHERE subscription_id IS NOT NULL;
+
+-- Create the day's delivery_records from active subscriptions. Skips a customer/shift/milk type that
+-- already has a delivery that day (e.g. entered by hand), so it can be re-run safely.
+CREATE OR REPLACE FUNCTION public.generate_subscription_deliveries(_delivery_date date DEFAULT CURRENT_DATE)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    inserted_count integer;
+BEGIN
+    IF NOT public.has_any_role(ARRAY['owner', 'accountant']) THEN
+        RAISE EXCEPTION 'Only the owner or accountant can generate deliveries';
+    END IF;
+
+    INSERT INTO delivery_records (
+        customer_id, milk_type_id, quantity, price_per_liter, total_amount,
+        delivery_date, shift, subscription_id
+    )
+    SELECT
+        s.customer_id,
+        s.milk_type_id,
+        s.quantity,
+        mt.price_per_liter,
+        s.quantity * mt.price_per_liter,
+        _delivery_date,
+        sh.shift,
+        s.id
+    FROM subscriptions s
+    JOIN milk_types mt ON mt.id = s.milk_type_id
+    CROSS JOIN LATERAL unnest(s.shifts) AS sh(shift)
+    WHERE s.is_active
+      AND s.start_date <= _delivery_date
+      AND (s.end_date IS NULL OR s.end_date >= _delivery_date)
+      AND EXTRACT(DOW FROM _delivery_date)::smallint = ANY(s.weekdays)
+      AND NOT EXISTS (
+          SELECT 1 FROM delivery_records dr
+          WHERE dr.customer_id = s.customer_id
+            AND dr.milk_type_id = s.milk_type_id
+            AND dr.delivery_date = _delivery_date
+            AND dr.shift = sh.shift
+      )
+    ON CONFLICT DO NOTHING;
+
+    GET DIAGNOSTICS inserted_count = ROW_COUNT;
+    RETURN inserted_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_subscription_deliveries(date) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.generate_subscription_deliveries(date) TO authenticated;
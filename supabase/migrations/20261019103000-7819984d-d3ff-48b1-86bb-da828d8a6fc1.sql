@@ -0,0 +1,78 @@
+-- Pause periods ("no milk from the 10th to the 17th"). Both dates are inclusive.
+CREATE TABLE IF NOT EXISTS public.customer_pauses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id uuid NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  reason text,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT customer_pauses_date_range_check CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS customer_pauses_customer_dates_idx
+  ON public.customer_pauses (customer_id, start_date, end_date);
+
+ALTER TABLE public.customer_pauses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view pauses" ON public.customer_pauses
+FOR SELECT USING (auth.role() = 'authenticated');
+CREATE POLICY "Office staff can add pauses" ON public.customer_pauses
+FOR INSERT WITH CHECK (public.has_any_role(ARRAY['owner', 'accountant']));
+CREATE POLICY "Office staff can edit pauses" ON public.customer_pauses
+FOR UPDATE USING (public.has_any_role(ARRAY['owner', 'accountant']));
+CREATE POLICY "Office staff can delete pauses" ON public.customer_pauses
+FOR DELETE USING (public.has_any_role(ARRAY['owner', 'accountant']));
+
+-- Same as before, but customers on a pause for the date are left out
+CREATE OR REPLACE FUNCTION public.generate_subscription_deliveries(_delivery_date date DEFAULT CURRENT_DATE)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    inserted_count integer;
+BEGIN
+    IF NOT public.has_any_role(ARRAY['owner', 'accountant']) THEN
+        RAISE EXCEPTION 'Only the owner or accountant can generate deliveries';
+    END IF;
+
+    INSERT INTO delivery_records (
+        customer_id, milk_type_id, quantity, price_per_liter, total_amount,
+        delivery_date, shift, subscription_id
+    )
+    SELECT
+        s.customer_id,
+        s.milk_type_id,
+        s.quantity,
+        mt.price_per_liter,
+        s.quantity * mt.price_per_liter,
+        _delivery_date,
+        sh.shift,
+        s.id
+    FROM subscriptions s
+    JOIN milk_types mt ON mt.id = s.milk_type_id
+    CROSS JOIN LATERAL unnest(s.shifts) AS sh(shift)
+    WHERE s.is_active
+      AND s.start_date <= _delivery_date
+      AND (s.end_date IS NULL OR s.end_date >= _delivery_date)
+      AND EXTRACT(DOW FROM _delivery_date)::smallint = ANY(s.weekdays)
+      AND NOT EXISTS (
+          SELECT 1 FROM customer_pauses cp
+          WHERE cp.customer_id = s.customer_id
+            AND _delivery_date BETWEEN cp.start_date AND cp.end_date
+      )
+      AND NOT EXISTS (
+          SELECT 1 FROM delivery_records dr
+          WHERE dr.customer_id = s.customer_id
+            AND dr.milk_type_id = s.milk_type_id
+            AND dr.delivery_date = _delivery_date
+            AND dr.shift = sh.shift
+      )
+    ON CONFLICT DO NOTHING;
+
+    GET DIAGNOSTICS inserted_count = ROW_COUNT;
+    RETURN inserted_count;
+END;
+$$;
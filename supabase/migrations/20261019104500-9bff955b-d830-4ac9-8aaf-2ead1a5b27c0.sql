@@ -0,0 +1,136 @@
+-- Price history per milk type. A price applies from effective_from until the next entry for the same milk type.
+-- milk_types.price_per_liter is kept as the rate in effect today so older screens keep working.
+CREATE TABLE IF NOT EXISTS public.milk_type_prices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  milk_type_id uuid NOT NULL REFERENCES public.milk_types(id) ON DELETE CASCADE,
+  price_per_liter numeric NOT NULL CHECK (price_per_liter > 0),
+  effective_from date NOT NULL,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT milk_type_prices_milk_type_date_key UNIQUE (milk_type_id, effective_from)
+);
+
+ALTER TABLE public.milk_type_prices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view milk prices" ON public.milk_type_prices
+FOR SELECT USING (auth.role() = 'authenticated');
+CREATE POLICY "Owners can add milk prices" ON public.milk_type_prices
+FOR INSERT WITH CHECK (public.has_any_role(ARRAY['owner']));
+CREATE POLICY "Owners can edit milk prices" ON public.milk_type_prices
+FOR UPDATE USING (public.has_any_role(ARRAY['owner']));
+CREATE POLICY "Owners can delete milk prices" ON public.milk_type_prices
+FOR DELETE USING (public.has_any_role(ARRAY['owner']));
+
+-- Seed each milk type with its current price, effective from its first delivery (or creation)
+INSERT INTO public.milk_type_prices (milk_type_id, price_per_liter, effective_from, created_by)
+SELECT
+    mt.id,
+    mt.price_per_liter,
+    LEAST(mt.created_at::date, COALESCE((SELECT MIN(dr.delivery_date) FROM public.delivery_records dr WHERE dr.milk_type_id = mt.id), mt.created_at::date)),
+    NULL
+FROM public.milk_types mt
+WHERE mt.price_per_liter > 0
+ON CONFLICT (milk_type_id, effective_from) DO NOTHING;
+
+-- Rate for a milk type on a given day; falls back to milk_types.price_per_liter when there is no history yet
+CREATE OR REPLACE FUNCTION public.milk_price_on(_milk_type_id uuid, _date date)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT p.price_per_liter FROM milk_type_prices p
+     WHERE p.milk_type_id = _milk_type_id AND p.effective_from <= _date
+     ORDER BY p.effective_from DESC
+     LIMIT 1),
+    (SELECT p.price_per_liter FROM milk_type_prices p
+     WHERE p.milk_type_id = _milk_type_id
+     ORDER BY p.effective_from
+     LIMIT 1),
+    (SELECT mt.price_per_liter FROM milk_types mt WHERE mt.id = _milk_type_id)
+  );
+$$;
+
+-- Keep milk_types.price_per_liter equal to today's rate whenever the history changes
+CREATE OR REPLACE FUNCTION public.sync_milk_type_current_price()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _milk_type_id uuid := COALESCE(NEW.milk_type_id, OLD.milk_type_id);
+    _price numeric;
+BEGIN
+    SELECT p.price_per_liter INTO _price
+    FROM milk_type_prices p
+    WHERE p.milk_type_id = _milk_type_id AND p.effective_from <= CURRENT_DATE
+    ORDER BY p.effective_from DESC
+    LIMIT 1;
+
+    IF _price IS NOT NULL THEN
+        UPDATE milk_types SET price_per_liter = _price WHERE id = _milk_type_id;
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS milk_type_prices_sync_current ON public.milk_type_prices;
+CREATE TRIGGER milk_type_prices_sync_current
+AFTER INSERT OR UPDATE OR DELETE ON public.milk_type_prices
+FOR EACH ROW EXECUTE FUNCTION public.sync_milk_type_current_price();
+
+-- Generated deliveries use the rate for the delivery date as well
+CREATE OR REPLACE FUNCTION public.generate_subscription_deliveries(_delivery_date date DEFAULT CURRENT_DATE)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    inserted_count integer;
+BEGIN
+    IF NOT public.has_any_role(ARRAY['owner', 'accountant']) THEN
+        RAISE EXCEPTION 'Only the owner or accountant can generate deliveries';
+    END IF;
+
+    INSERT INTO delivery_records (
+        customer_id, milk_type_id, quantity, price_per_liter, total_amount,
+        delivery_date, shift, subscription_id
+    )
+    SELECT
+        s.customer_id,
+        s.milk_type_id,
+        s.quantity,
+        pr.price,
+        s.quantity * pr.price,
+        _delivery_date,
+        sh.shift,
+        s.id
+    FROM subscriptions s
+    CROSS JOIN LATERAL (SELECT public.milk_price_on(s.milk_type_id, _delivery_date) AS price) pr
+    CROSS JOIN LATERAL unnest(s.shifts) AS sh(shift)
+    WHERE s.is_active
+      AND s.start_date <= _delivery_date
+      AND (s.end_date IS NULL OR s.end_date >= _delivery_date)
+      AND EXTRACT(DOW FROM _delivery_date)::smallint = ANY(s.weekdays)
+      AND NOT EXISTS (
+          SELECT 1 FROM customer_pauses cp
+          WHERE cp.customer_id = s.customer_id
+            AND _delivery_date BETWEEN cp.start_date AND cp.end_date
+      )
+      AND NOT EXISTS (
+          SELECT 1 FROM delivery_records dr
+          WHERE dr.customer_id = s.customer_id
+            AND dr.milk_type_id = s.milk_type_id
+            AND dr.delivery_date = _delivery_date
+            AND dr.shift = sh.shift
+      )
+    ON CONFLICT DO NOTHING;
+
+    GET DIAGNOSTICS inserted_count = ROW_COUNT;
+    RETURN inserted_count;
+END;
+$$;
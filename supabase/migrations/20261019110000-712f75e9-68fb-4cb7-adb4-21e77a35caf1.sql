@@ -0,0 +1,91 @@
+-- Negotiated per-customer rates. Like milk_type_prices, a rate applies from effective_from until the next
+-- entry for the same customer and milk type. Customers without a rate pay the list price.
+CREATE TABLE IF NOT EXISTS public.customer_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id uuid NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+  milk_type_id uuid NOT NULL REFERENCES public.milk_types(id) ON DELETE CASCADE,
+  price_per_liter numeric NOT NULL CHECK (price_per_liter > 0),
+  effective_from date NOT NULL,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT customer_rates_customer_milk_type_date_key UNIQUE (customer_id, milk_type_id, effective_from)
+);
+
+ALTER TABLE public.customer_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view customer rates" ON public.customer_rates
+FOR SELECT USING (auth.role() = 'authenticated');
+CREATE POLICY "Owners can add customer rates" ON public.customer_rates
+FOR INSERT WITH CHECK (public.has_any_role(ARRAY['owner']));
+CREATE POLICY "Owners can edit customer rates" ON public.customer_rates
+FOR UPDATE USING (public.has_any_role(ARRAY['owner']));
+CREATE POLICY "Owners can delete customer rates" ON public.customer_rates
+FOR DELETE USING (public.has_any_role(ARRAY['owner']));
+
+-- Rate a customer pays for a milk type on a given day
+CREATE OR REPLACE FUNCTION public.customer_price_on(_customer_id uuid, _milk_type_id uuid, _date date)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT r.price_per_liter FROM customer_rates r
+     WHERE r.customer_id = _customer_id AND r.milk_type_id = _milk_type_id AND r.effective_from <= _date
+     ORDER BY r.effective_from DESC
+     LIMIT 1),
+    public.milk_price_on(_milk_type_id, _date)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.generate_subscription_deliveries(_delivery_date date DEFAULT CURRENT_DATE)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    inserted_count integer;
+BEGIN
+    IF NOT public.has_any_role(ARRAY['owner', 'accountant']) THEN
+        RAISE EXCEPTION 'Only the owner or accountant can generate deliveries';
+    END IF;
+
+    INSERT INTO delivery_records (
+        customer_id, milk_type_id, quantity, price_per_liter, total_amount,
+        delivery_date, shift, subscription_id
+    )
+    SELECT
+        s.customer_id,
+        s.milk_type_id,
+        s.quantity,
+        pr.price,
+        s.quantity * pr.price,
+        _delivery_date,
+        sh.shift,
+        s.id
+    FROM subscriptions s
+    CROSS JOIN LATERAL (SELECT public.customer_price_on(s.customer_id, s.milk_type_id, _delivery_date) AS price) pr
+    CROSS JOIN LATERAL unnest(s.shifts) AS sh(shift)
+    WHERE s.is_active
+      AND s.start_date <= _delivery_date
+      AND (s.end_date IS NULL OR s.end_date >= _delivery_date)
+      AND EXTRACT(DOW FROM _delivery_date)::smallint = ANY(s.weekdays)
+      AND NOT EXISTS (
+          SELECT 1 FROM customer_pauses cp
+          WHERE cp.customer_id = s.customer_id
+            AND _delivery_date BETWEEN cp.start_date AND cp.end_date
+      )
+      AND NOT EXISTS (
+          SELECT 1 FROM delivery_records dr
+          WHERE dr.customer_id = s.customer_id
+            AND dr.milk_type_id = s.milk_type_id
+            AND dr.delivery_date = _delivery_date
+            AND dr.shift = sh.shift
+      )
+    ON CONFLICT DO NOTHING;
+
+    GET DIAGNOSTICS inserted_count = ROW_COUNT;
+    RETURN inserted_count;
+END;
+$$;
@@ -0,0 +1,133 @@
+-- Bulk price revision: set a milk type's list price from a date and optionally re-price deliveries already
+-- recorded from that date on. delivery_balance_change reacts to the UPDATE, so customer_balances follow.
+
+-- Deliveries a revision would touch, with their current and revised price. Customers on a negotiated rate keep
+-- it, and deliveries on or after a later list-price change keep that later price. total_amount includes
+-- groceries, so only the milk part is swapped out.
+CREATE OR REPLACE FUNCTION public.price_revision_rows(_milk_type_id uuid, _effective_from date, _price numeric)
+RETURNS TABLE (
+  delivery_id uuid,
+  customer_id uuid,
+  old_price numeric,
+  new_price numeric,
+  old_total numeric,
+  new_total numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    r.id,
+    r.customer_id,
+    r.price_per_liter,
+    r.revised_price,
+    r.total_amount,
+    r.total_amount - r.quantity * r.price_per_liter + r.quantity * r.revised_price
+  FROM (
+    SELECT
+      dr.*,
+      COALESCE(
+        (SELECT cr.price_per_liter FROM customer_rates cr
+         WHERE cr.customer_id = dr.customer_id AND cr.milk_type_id = dr.milk_type_id
+           AND cr.effective_from <= dr.delivery_date
+         ORDER BY cr.effective_from DESC
+         LIMIT 1),
+        (SELECT p.price_per_liter FROM milk_type_prices p
+         WHERE p.milk_type_id = dr.milk_type_id
+           AND p.effective_from > _effective_from AND p.effective_from <= dr.delivery_date
+         ORDER BY p.effective_from DESC
+         LIMIT 1),
+        _price
+      ) AS revised_price
+    FROM delivery_records dr
+    WHERE dr.milk_type_id = _milk_type_id
+      AND dr.delivery_date >= _effective_from
+      AND dr.quantity > 0
+  ) r
+  WHERE r.revised_price <> r.price_per_liter;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.price_revision_rows(uuid, date, numeric) FROM PUBLIC, anon, authenticated;
+
+-- What each customer's balance would change by
+CREATE OR REPLACE FUNCTION public.preview_price_revision(_milk_type_id uuid, _effective_from date, _price numeric)
+RETURNS TABLE (
+  customer_id uuid,
+  customer_name text,
+  delivery_count integer,
+  current_amount numeric,
+  revised_amount numeric,
+  difference numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.has_any_role(ARRAY['owner']) THEN
+        RAISE EXCEPTION 'Only the owner can revise prices';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        c.id,
+        c.name,
+        COUNT(*)::integer,
+        SUM(rev.old_total),
+        SUM(rev.new_total),
+        SUM(rev.new_total - rev.old_total)
+    FROM public.price_revision_rows(_milk_type_id, _effective_from, _price) rev
+    JOIN customers c ON c.id = rev.customer_id
+    GROUP BY c.id, c.name
+    ORDER BY c.name;
+END;
+$$;
+
+-- Record the new list price and, if asked, re-price existing deliveries. Returns how many deliveries changed.
+CREATE OR REPLACE FUNCTION public.apply_price_revision(
+  _milk_type_id uuid,
+  _effective_from date,
+  _price numeric,
+  _recalculate boolean DEFAULT false
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    updated_count integer := 0;
+BEGIN
+    IF NOT public.has_any_role(ARRAY['owner']) THEN
+        RAISE EXCEPTION 'Only the owner can revise prices';
+    END IF;
+
+    IF _price IS NULL OR _price <= 0 THEN
+        RAISE EXCEPTION 'Price must be greater than zero';
+    END IF;
+
+    IF _recalculate THEN
+        UPDATE delivery_records dr
+        SET price_per_liter = rev.new_price,
+            total_amount = rev.new_total
+        FROM public.price_revision_rows(_milk_type_id, _effective_from, _price) rev
+        WHERE dr.id = rev.delivery_id;
+
+        GET DIAGNOSTICS updated_count = ROW_COUNT;
+    END IF;
+
+    INSERT INTO milk_type_prices (milk_type_id, price_per_liter, effective_from)
+    VALUES (_milk_type_id, _price, _effective_from)
+    ON CONFLICT (milk_type_id, effective_from)
+    DO UPDATE SET price_per_liter = EXCLUDED.price_per_liter;
+
+    RETURN updated_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.preview_price_revision(uuid, date, numeric) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.preview_price_revision(uuid, date, numeric) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.apply_price_revision(uuid, date, numeric, boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.apply_price_revision(uuid, date, numeric, boolean) TO authenticated;
@@ -0,0 +1,8 @@
+-- Id generated on the phone for each bulk entry. Entries saved offline are retried until they sync, so a
+-- unique client_id makes a retry of an already-synced entry fail instead of creating a second delivery.
+ALTER TABLE public.delivery_records
+  ADD COLUMN IF NOT EXISTS client_id uuid;
+
+CREATE UNIQUE INDEX IF NOT EXISTS delivery_records_client_id_key
+  ON public.delivery_records (client_id)
+  WHERE client_id IS NOT NULL;
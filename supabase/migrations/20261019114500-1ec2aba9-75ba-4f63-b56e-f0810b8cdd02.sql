@@ -0,0 +1,71 @@
+-- Delivery routes: a named round with its customers in street order, optionally assigned to a delivery boy.
+-- A customer belongs to at most one route. Delivery boys only see the routes assigned to them.
+CREATE TABLE IF NOT EXISTS public.routes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  assigned_to uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  notes text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT routes_name_key UNIQUE (name)
+);
+
+CREATE TABLE IF NOT EXISTS public.route_customers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  route_id uuid NOT NULL REFERENCES public.routes(id) ON DELETE CASCADE,
+  customer_id uuid NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+  position integer NOT NULL,
+  CONSTRAINT route_customers_customer_id_key UNIQUE (customer_id)
+);
+
+CREATE INDEX IF NOT EXISTS route_customers_route_position_idx ON public.route_customers (route_id, position);
+
+ALTER TABLE public.routes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.route_customers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view their routes" ON public.routes
+FOR SELECT USING (public.has_any_role(ARRAY['owner', 'accountant']) OR assigned_to = auth.uid());
+CREATE POLICY "Office staff can add routes" ON public.routes
+FOR INSERT WITH CHECK (public.has_any_role(ARRAY['owner', 'accountant']));
+CREATE POLICY "Office staff can edit routes" ON public.routes
+FOR UPDATE USING (public.has_any_role(ARRAY['owner', 'accountant']));
+CREATE POLICY "Office staff can delete routes" ON public.routes
+FOR DELETE USING (public.has_any_role(ARRAY['owner', 'accountant']));
+
+-- The subquery is itself filtered by the routes policy, so a delivery boy only sees stops on their own routes
+CREATE POLICY "Staff can view their route customers" ON public.route_customers
+FOR SELECT USING (route_id IN (SELECT id FROM public.routes));
+CREATE POLICY "Office staff can add route customers" ON public.route_customers
+FOR INSERT WITH CHECK (public.has_any_role(ARRAY['owner', 'accountant']));
+CREATE POLICY "Office staff can edit route customers" ON public.route_customers
+FOR UPDATE USING (public.has_any_role(ARRAY['owner', 'accountant']));
+CREATE POLICY "Office staff can delete route customers" ON public.route_customers
+FOR DELETE USING (public.has_any_role(ARRAY['owner', 'accountant']));
+
+-- Replace a route's customer list with _customer_ids in round order, in one transaction so a half-saved
+-- reorder can never leave gaps. Customers listed here are moved off any other route.
+CREATE OR REPLACE FUNCTION public.set_route_customers(_route_id uuid, _customer_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.has_any_role(ARRAY['owner', 'accountant']) THEN
+        RAISE EXCEPTION 'Only the owner or accountant can change routes';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM routes WHERE id = _route_id) THEN
+        RAISE EXCEPTION 'Route not found';
+    END IF;
+
+    DELETE FROM route_customers
+    WHERE route_id = _route_id OR customer_id = ANY(COALESCE(_customer_ids, ARRAY[]::uuid[]));
+
+    INSERT INTO route_customers (route_id, customer_id, position)
+    SELECT _route_id, stop.customer_id, stop.position
+    FROM unnest(COALESCE(_customer_ids, ARRAY[]::uuid[])) WITH ORDINALITY AS stop(customer_id, position);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_route_customers(uuid, uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_route_customers(uuid, uuid[]) TO authenticated;
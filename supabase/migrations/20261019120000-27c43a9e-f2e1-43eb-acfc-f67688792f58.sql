@@ -0,0 +1,182 @@
+-- Guard against the same milk being entered twice: a customer gets one delivery per date, shift and milk type
+-- unless the second one is saved on purpose with allow_duplicate. Grocery-only rows (quantity 0) are exempt.
+-- A trigger rather than a unique index, so rows that are already duplicated stay put until someone reviews them.
+ALTER TABLE public.delivery_records
+  ADD COLUMN IF NOT EXISTS allow_duplicate boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS delivery_records_customer_date_shift_idx
+  ON public.delivery_records (customer_id, delivery_date, shift);
+
+CREATE OR REPLACE FUNCTION public.prevent_duplicate_delivery()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.allow_duplicate OR NEW.quantity <= 0 THEN
+        RETURN NEW;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM delivery_records dr
+        WHERE dr.customer_id = NEW.customer_id
+          AND dr.delivery_date = NEW.delivery_date
+          AND dr.shift = NEW.shift
+          AND dr.milk_type_id = NEW.milk_type_id
+          AND dr.quantity > 0
+          AND dr.id <> NEW.id
+    ) THEN
+        -- Own error code so clients can tell this apart from a real unique violation (23505)
+        RAISE EXCEPTION 'Delivery already recorded for this customer, date, shift and milk type'
+            USING ERRCODE = 'DL001';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_duplicate_delivery ON public.delivery_records;
+CREATE TRIGGER prevent_duplicate_delivery
+BEFORE INSERT OR UPDATE OF customer_id, delivery_date, shift, milk_type_id, quantity, allow_duplicate
+ON public.delivery_records
+FOR EACH ROW EXECUTE FUNCTION public.prevent_duplicate_delivery();
+
+-- Two active subscriptions for the same customer, milk type and shift on overlapping days would make the
+-- generator insert the same delivery twice, which the rule above now refuses. Stop them overlapping: a change of
+-- quantity means ending the old subscription the day before the new one starts.
+CREATE OR REPLACE FUNCTION public.prevent_overlapping_subscription()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT NEW.is_active THEN
+        RETURN NEW;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM subscriptions s
+        WHERE s.customer_id = NEW.customer_id
+          AND s.milk_type_id = NEW.milk_type_id
+          AND s.is_active
+          AND s.id <> NEW.id
+          AND s.shifts && NEW.shifts
+          AND s.weekdays && NEW.weekdays
+          AND daterange(s.start_date, s.end_date, '[]') && daterange(NEW.start_date, NEW.end_date, '[]')
+    ) THEN
+        RAISE EXCEPTION 'Customer already has a subscription for this milk type and shift on these days'
+            USING ERRCODE = 'SB001';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_overlapping_subscription ON public.subscriptions;
+CREATE TRIGGER prevent_overlapping_subscription
+BEFORE INSERT OR UPDATE OF customer_id, milk_type_id, shifts, weekdays, start_date, end_date, is_active
+ON public.subscriptions
+FOR EACH ROW EXECUTE FUNCTION public.prevent_overlapping_subscription();
+
+-- Subscriptions that already overlap give one delivery per customer, milk type and shift (the most recently
+-- started wins) instead of failing the whole day's generation on the duplicate rule
+CREATE OR REPLACE FUNCTION public.generate_subscription_deliveries(_delivery_date date DEFAULT CURRENT_DATE)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    inserted_count integer;
+BEGIN
+    IF NOT public.has_any_role(ARRAY['owner', 'accountant']) THEN
+        RAISE EXCEPTION 'Only the owner or accountant can generate deliveries';
+    END IF;
+
+    INSERT INTO delivery_records (
+        customer_id, milk_type_id, quantity, price_per_liter, total_amount,
+        delivery_date, shift, subscription_id
+    )
+    SELECT DISTINCT ON (s.customer_id, s.milk_type_id, sh.shift)
+        s.customer_id,
+        s.milk_type_id,
+        s.quantity,
+        pr.price,
+        s.quantity * pr.price,
+        _delivery_date,
+        sh.shift,
+        s.id
+    FROM subscriptions s
+    CROSS JOIN LATERAL (SELECT public.customer_price_on(s.customer_id, s.milk_type_id, _delivery_date) AS price) pr
+    CROSS JOIN LATERAL unnest(s.shifts) AS sh(shift)
+    WHERE s.is_active
+      AND s.start_date <= _delivery_date
+      AND (s.end_date IS NULL OR s.end_date >= _delivery_date)
+      AND EXTRACT(DOW FROM _delivery_date)::smallint = ANY(s.weekdays)
+      AND NOT EXISTS (
+          SELECT 1 FROM customer_pauses cp
+          WHERE cp.customer_id = s.customer_id
+            AND _delivery_date BETWEEN cp.start_date AND cp.end_date
+      )
+      AND NOT EXISTS (
+          SELECT 1 FROM delivery_records dr
+          WHERE dr.customer_id = s.customer_id
+            AND dr.milk_type_id = s.milk_type_id
+            AND dr.delivery_date = _delivery_date
+            AND dr.shift = sh.shift
+      )
+    ORDER BY s.customer_id, s.milk_type_id, sh.shift, s.start_date DESC, s.created_at DESC
+    ON CONFLICT DO NOTHING;
+
+    GET DIAGNOSTICS inserted_count = ROW_COUNT;
+    RETURN inserted_count;
+END;
+$$;
+
+-- Deliveries that look like accidental double entries between two dates: more than one milk delivery for a
+-- customer, date, shift and milk type, not counting the extra ones someone saved on purpose.
+-- Runs with the caller's rights, so delivery row-level security still applies.
+CREATE OR REPLACE FUNCTION public.find_duplicate_deliveries(_from date, _to date)
+RETURNS TABLE (
+    id uuid,
+    customer_id uuid,
+    customer_name text,
+    delivery_date date,
+    shift text,
+    milk_type_id uuid,
+    milk_type_name text,
+    quantity numeric,
+    total_amount numeric,
+    allow_duplicate boolean,
+    created_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    WITH suspected AS (
+        SELECT dr.customer_id, dr.delivery_date, dr.shift, dr.milk_type_id
+        FROM delivery_records dr
+        WHERE dr.delivery_date BETWEEN _from AND _to
+          AND dr.quantity > 0
+        GROUP BY dr.customer_id, dr.delivery_date, dr.shift, dr.milk_type_id
+        HAVING count(*) FILTER (WHERE NOT dr.allow_duplicate) > 1
+    )
+    SELECT dr.id, dr.customer_id, c.name, dr.delivery_date, dr.shift, dr.milk_type_id, mt.name,
+           dr.quantity, dr.total_amount, dr.allow_duplicate, dr.created_at
+    FROM suspected s
+    JOIN delivery_records dr
+      ON dr.customer_id = s.customer_id
+     AND dr.delivery_date = s.delivery_date
+     AND dr.shift = s.shift
+     AND dr.milk_type_id = s.milk_type_id
+     AND dr.quantity > 0
+    JOIN customers c ON c.id = dr.customer_id
+    JOIN milk_types mt ON mt.id = dr.milk_type_id
+    ORDER BY dr.delivery_date DESC, c.name, dr.shift, mt.name, dr.created_at;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_duplicate_deliveries(date, date) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.find_duplicate_deliveries(date, date) TO authenticated;
@@ -0,0 +1,32 @@
+-- Balances around a period of a customer's ledger. opening_balance is everything owed before _from;
+-- ledger_balance is the same sum over all time, so it can be checked against the running total the balance
+-- triggers keep in customer_balances (recorded_balance).
+-- Runs with the caller's rights, so row-level security still applies.
+CREATE OR REPLACE FUNCTION public.get_customer_ledger_summary(_customer_id uuid, _from date)
+RETURNS TABLE (
+    opening_balance numeric,
+    ledger_balance numeric,
+    recorded_balance numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    WITH entries AS (
+        SELECT dr.delivery_date AS entry_date, dr.total_amount AS amount
+        FROM delivery_records dr
+        WHERE dr.customer_id = _customer_id
+        UNION ALL
+        SELECT p.payment_date, -p.amount
+        FROM payments p
+        WHERE p.customer_id = _customer_id
+    )
+    SELECT
+        COALESCE(SUM(e.amount) FILTER (WHERE e.entry_date < _from), 0),
+        COALESCE(SUM(e.amount), 0),
+        (SELECT cb.pending_amount FROM customer_balances cb WHERE cb.customer_id = _customer_id)
+    FROM entries e;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_customer_ledger_summary(uuid, date) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_customer_ledger_summary(uuid, date) TO authenticated;
@@ -0,0 +1,106 @@
+-- Balance integrity: customer_balances is kept by the delivery and payment triggers, while
+-- get_customer_pending_balances sums deliveries and payments live. Any edit the triggers miss makes the two
+-- drift apart. Owners can compare them and rebuild the stored balances from the live sums; every change a
+-- rebuild makes is kept in balance_rebuilds.
+CREATE TABLE IF NOT EXISTS public.balance_rebuilds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Rows written by the same rebuild share a run_id
+  run_id uuid NOT NULL,
+  customer_id uuid REFERENCES public.customers(id) ON DELETE SET NULL,
+  customer_name text NOT NULL,
+  previous_amount numeric,
+  rebuilt_amount numeric NOT NULL,
+  reason text,
+  rebuilt_by uuid DEFAULT auth.uid(),
+  rebuilt_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS balance_rebuilds_rebuilt_at_idx ON public.balance_rebuilds (rebuilt_at DESC);
+
+ALTER TABLE public.balance_rebuilds ENABLE ROW LEVEL SECURITY;
+
+-- Written only by rebuild_customer_balances, and never edited
+CREATE POLICY "Owners can view balance rebuilds" ON public.balance_rebuilds
+FOR SELECT USING (public.has_any_role(ARRAY['owner']));
+
+-- Stored and live balance for every customer. recorded_balance is null when no balance row exists yet,
+-- which counts as zero.
+CREATE OR REPLACE FUNCTION public.check_customer_balances()
+RETURNS TABLE (
+  customer_id uuid,
+  customer_name text,
+  recorded_balance numeric,
+  computed_balance numeric,
+  difference numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.has_any_role(ARRAY['owner']) THEN
+        RAISE EXCEPTION 'Only the owner can check balances';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        live.customer_id,
+        live.customer_name,
+        cb.pending_amount,
+        live.pending_amount,
+        COALESCE(cb.pending_amount, 0) - live.pending_amount
+    FROM public.get_customer_pending_balances() live
+    LEFT JOIN customer_balances cb ON cb.customer_id = live.customer_id
+    ORDER BY live.customer_name;
+END;
+$$;
+
+-- Overwrite stored balances that differ from the live sums, for the given customers or everyone when
+-- _customer_ids is null. Deliveries and payments are locked against writes while it runs, so a delivery
+-- saved mid-rebuild cannot be counted twice or lost. Returns how many balances changed.
+CREATE OR REPLACE FUNCTION public.rebuild_customer_balances(_customer_ids uuid[] DEFAULT NULL, _reason text DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _run_id uuid := gen_random_uuid();
+    rebuilt_count integer := 0;
+BEGIN
+    IF NOT public.has_any_role(ARRAY['owner']) THEN
+        RAISE EXCEPTION 'Only the owner can rebuild balances';
+    END IF;
+
+    LOCK TABLE delivery_records, payments IN SHARE MODE;
+    LOCK TABLE customer_balances IN SHARE ROW EXCLUSIVE MODE;
+
+    CREATE TEMP TABLE balance_rebuild_changes ON COMMIT DROP AS
+    SELECT live.customer_id, live.customer_name, cb.pending_amount AS previous_amount, live.pending_amount AS rebuilt_amount
+    FROM public.get_customer_pending_balances() live
+    LEFT JOIN customer_balances cb ON cb.customer_id = live.customer_id
+    WHERE (_customer_ids IS NULL OR live.customer_id = ANY(_customer_ids))
+      AND COALESCE(cb.pending_amount, 0) <> live.pending_amount;
+
+    INSERT INTO customer_balances (customer_id, pending_amount, updated_at)
+    SELECT ch.customer_id, ch.rebuilt_amount, now()
+    FROM balance_rebuild_changes ch
+    ON CONFLICT (customer_id)
+    DO UPDATE SET pending_amount = EXCLUDED.pending_amount, updated_at = EXCLUDED.updated_at;
+
+    INSERT INTO balance_rebuilds (run_id, customer_id, customer_name, previous_amount, rebuilt_amount, reason)
+    SELECT _run_id, ch.customer_id, ch.customer_name, ch.previous_amount, ch.rebuilt_amount, NULLIF(btrim(_reason), '')
+    FROM balance_rebuild_changes ch;
+
+    GET DIAGNOSTICS rebuilt_count = ROW_COUNT;
+    DROP TABLE balance_rebuild_changes;
+
+    RETURN rebuilt_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_customer_balances() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.check_customer_balances() TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.rebuild_customer_balances(uuid[], text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.rebuild_customer_balances(uuid[], text) TO authenticated;
@@ -0,0 +1,130 @@
+-- Payments can be corrected after they are saved. The balance trigger now follows updates and deletes as well
+-- as inserts, the same way delivery_balance_change does for deliveries.
+CREATE OR REPLACE FUNCTION public.update_balance_on_payment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF (TG_OP = 'INSERT') THEN
+        INSERT INTO customer_balances (customer_id, pending_amount)
+        VALUES (NEW.customer_id, -NEW.amount)
+        ON CONFLICT (customer_id)
+        DO UPDATE SET pending_amount = customer_balances.pending_amount - NEW.amount;
+        RETURN NEW;
+    ELSIF (TG_OP = 'UPDATE') THEN
+        IF OLD.customer_id != NEW.customer_id THEN
+            UPDATE customer_balances SET pending_amount = pending_amount + OLD.amount WHERE customer_id = OLD.customer_id;
+            INSERT INTO customer_balances (customer_id, pending_amount) VALUES (NEW.customer_id, -NEW.amount)
+            ON CONFLICT (customer_id) DO UPDATE SET pending_amount = customer_balances.pending_amount - NEW.amount;
+        ELSE
+            UPDATE customer_balances SET pending_amount = pending_amount + OLD.amount - NEW.amount WHERE customer_id = NEW.customer_id;
+        END IF;
+        RETURN NEW;
+    ELSIF (TG_OP = 'DELETE') THEN
+        UPDATE customer_balances
+        SET pending_amount = pending_amount + OLD.amount
+        WHERE customer_id = OLD.customer_id;
+        RETURN OLD;
+    END IF;
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS payment_balance_change ON public.payments;
+CREATE TRIGGER payment_balance_change
+AFTER INSERT OR UPDATE OR DELETE ON public.payments
+FOR EACH ROW EXECUTE FUNCTION public.update_balance_on_payment();
+
+-- A payment taken by mistake (an accidental "Balance Clear", say) is undone with a reversal rather than
+-- deleted: a second payment row for the negative amount that points back at the original. Both stay in the
+-- payment history, and every sum of payments nets them out without knowing about reversals.
+ALTER TABLE public.payments
+  ADD COLUMN IF NOT EXISTS reverses_payment_id uuid REFERENCES public.payments(id) ON DELETE CASCADE;
+
+-- One reversal per payment
+CREATE UNIQUE INDEX IF NOT EXISTS payments_reverses_payment_id_key
+  ON public.payments (reverses_payment_id)
+  WHERE reverses_payment_id IS NOT NULL;
+
+-- Only reversals are negative. NOT VALID so older rows are left as they are.
+ALTER TABLE public.payments DROP CONSTRAINT IF EXISTS payments_amount_sign_check;
+ALTER TABLE public.payments
+  ADD CONSTRAINT payments_amount_sign_check
+  CHECK ((reverses_payment_id IS NULL AND amount > 0) OR (reverses_payment_id IS NOT NULL AND amount < 0))
+  NOT VALID;
+
+-- A reversal has to keep mirroring the payment it undoes, so neither side's amount or customer can change
+CREATE OR REPLACE FUNCTION public.protect_reversed_payment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF (NEW.amount IS DISTINCT FROM OLD.amount
+        OR NEW.customer_id IS DISTINCT FROM OLD.customer_id
+        OR NEW.reverses_payment_id IS DISTINCT FROM OLD.reverses_payment_id)
+       AND (OLD.reverses_payment_id IS NOT NULL
+            OR EXISTS (SELECT 1 FROM payments p WHERE p.reverses_payment_id = OLD.id)) THEN
+        RAISE EXCEPTION 'A reversed payment or its reversal cannot change amount or customer';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_reversed_payment ON public.payments;
+CREATE TRIGGER protect_reversed_payment
+BEFORE UPDATE ON public.payments
+FOR EACH ROW EXECUTE FUNCTION public.protect_reversed_payment();
+
+-- Reverse a payment. Office staff can reverse what they could have recorded; reversing a "Balance Clear"
+-- needs the owner, like clearing does. Returns the reversal's id.
+CREATE OR REPLACE FUNCTION public.reverse_payment(_payment_id uuid, _reason text DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    original payments%ROWTYPE;
+    reversal_id uuid;
+BEGIN
+    SELECT * INTO original FROM payments WHERE id = _payment_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Payment not found';
+    END IF;
+
+    IF NOT (public.has_any_role(ARRAY['owner'])
+            OR (public.has_any_role(ARRAY['accountant']) AND original.payment_method <> 'Balance Clear')) THEN
+        RAISE EXCEPTION 'You are not allowed to reverse this payment';
+    END IF;
+
+    IF original.reverses_payment_id IS NOT NULL THEN
+        RAISE EXCEPTION 'A reversal cannot itself be reversed';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM payments p WHERE p.reverses_payment_id = original.id) THEN
+        RAISE EXCEPTION 'This payment has already been reversed';
+    END IF;
+
+    INSERT INTO payments (customer_id, amount, payment_date, payment_method, notes, reverses_payment_id, created_by)
+    VALUES (
+        original.customer_id,
+        -original.amount,
+        CURRENT_DATE,
+        'Reversal',
+        NULLIF(btrim(_reason), ''),
+        original.id,
+        auth.uid()
+    )
+    RETURNING id INTO reversal_id;
+
+    RETURN reversal_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reverse_payment(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.reverse_payment(uuid, text) TO authenticated;
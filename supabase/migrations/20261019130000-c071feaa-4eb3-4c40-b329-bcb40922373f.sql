@@ -0,0 +1,101 @@
+-- Append-only audit log of every change to the tables money is worked out from. Rows are written by
+-- record_audit_log on each insert, update and delete, with the row before and after the change. customer_id is
+-- copied onto each entry so a customer's history can be found even after the customer is deleted.
+CREATE TABLE IF NOT EXISTS public.audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  table_name text NOT NULL,
+  record_id uuid NOT NULL,
+  action text NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+  customer_id uuid,
+  old_data jsonb,
+  new_data jsonb,
+  changed_by uuid DEFAULT auth.uid(),
+  changed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS audit_log_changed_at_idx ON public.audit_log (changed_at DESC);
+CREATE INDEX IF NOT EXISTS audit_log_customer_changed_at_idx ON public.audit_log (customer_id, changed_at DESC);
+CREATE INDEX IF NOT EXISTS audit_log_table_changed_at_idx ON public.audit_log (table_name, changed_at DESC);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+-- No insert, update or delete policies: only the audit trigger writes here
+CREATE POLICY "Office staff can view the audit log" ON public.audit_log
+FOR SELECT USING (public.has_any_role(ARRAY['owner', 'accountant']));
+
+-- RLS already keeps staff out; this also stops definer functions and the table owner from rewriting history
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_change()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RAISE EXCEPTION 'The audit log cannot be changed';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_audit_log_change ON public.audit_log;
+CREATE TRIGGER prevent_audit_log_change
+BEFORE UPDATE OR DELETE ON public.audit_log
+FOR EACH ROW EXECUTE FUNCTION public.prevent_audit_log_change();
+
+CREATE OR REPLACE FUNCTION public.record_audit_log()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    old_row jsonb := CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) END;
+    new_row jsonb := CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) END;
+    current_row jsonb := COALESCE(new_row, old_row);
+    _customer_id uuid;
+BEGIN
+    -- Saving a row without changing anything is not worth an entry
+    IF TG_OP = 'UPDATE' AND old_row = new_row THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_TABLE_NAME = 'customers' THEN
+        _customer_id := (current_row->>'id')::uuid;
+    ELSIF TG_TABLE_NAME = 'grocery_items' THEN
+        -- Not found when the delivery itself is being deleted; that delivery's own entry has the customer
+        SELECT dr.customer_id INTO _customer_id
+        FROM delivery_records dr
+        WHERE dr.id = (current_row->>'delivery_record_id')::uuid;
+    ELSE
+        _customer_id := (current_row->>'customer_id')::uuid;
+    END IF;
+
+    INSERT INTO audit_log (table_name, record_id, action, customer_id, old_data, new_data)
+    VALUES (TG_TABLE_NAME, (current_row->>'id')::uuid, TG_OP, _customer_id, old_row, new_row);
+
+    RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_delivery_records ON public.delivery_records;
+CREATE TRIGGER audit_delivery_records
+AFTER INSERT OR UPDATE OR DELETE ON public.delivery_records
+FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+DROP TRIGGER IF EXISTS audit_grocery_items ON public.grocery_items;
+CREATE TRIGGER audit_grocery_items
+AFTER INSERT OR UPDATE OR DELETE ON public.grocery_items
+FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+DROP TRIGGER IF EXISTS audit_payments ON public.payments;
+CREATE TRIGGER audit_payments
+AFTER INSERT OR UPDATE OR DELETE ON public.payments
+FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+DROP TRIGGER IF EXISTS audit_milk_types ON public.milk_types;
+CREATE TRIGGER audit_milk_types
+AFTER INSERT OR UPDATE OR DELETE ON public.milk_types
+FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+DROP TRIGGER IF EXISTS audit_customers ON public.customers;
+CREATE TRIGGER audit_customers
+AFTER INSERT OR UPDATE OR DELETE ON public.customers
+FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+REVOKE EXECUTE ON FUNCTION public.record_audit_log() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,103 @@
+-- Aggregates behind the dashboard, worked out in the database instead of by fetching every row.
+-- All run with the caller's rights, so row-level security still applies.
+
+-- Record counts, this month's billing and collections, and what customers owe. Customers in credit are not
+-- netted against those who owe.
+CREATE OR REPLACE FUNCTION public.get_dashboard_summary(_month_start date, _month_end date)
+RETURNS TABLE (
+    total_customers integer,
+    total_milk_types integer,
+    total_deliveries integer,
+    total_payments integer,
+    month_revenue numeric,
+    month_collections numeric,
+    total_outstanding numeric,
+    customers_with_dues integer
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT
+        (SELECT count(*)::integer FROM customers),
+        (SELECT count(*)::integer FROM milk_types),
+        (SELECT count(*)::integer FROM delivery_records),
+        (SELECT count(*)::integer FROM payments),
+        (SELECT COALESCE(SUM(dr.total_amount), 0) FROM delivery_records dr
+         WHERE dr.delivery_date BETWEEN _month_start AND _month_end),
+        (SELECT COALESCE(SUM(p.amount), 0) FROM payments p
+         WHERE p.payment_date BETWEEN _month_start AND _month_end),
+        (SELECT COALESCE(SUM(b.pending_amount) FILTER (WHERE b.pending_amount > 0), 0)
+         FROM public.get_customer_pending_balances() b),
+        (SELECT count(*)::integer FROM public.get_customer_pending_balances() b WHERE b.pending_amount > 0);
+$$;
+
+-- Litres and billing per day, milk type and shift. Grocery-only rows add to the amount but not the litres.
+CREATE OR REPLACE FUNCTION public.get_daily_milk_type_totals(_from date, _to date)
+RETURNS TABLE (
+    delivery_date date,
+    milk_type_id uuid,
+    milk_type_name text,
+    shift text,
+    liters numeric,
+    amount numeric,
+    delivery_count integer
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT
+        dr.delivery_date,
+        dr.milk_type_id,
+        mt.name,
+        dr.shift,
+        SUM(dr.quantity),
+        SUM(dr.total_amount),
+        count(*)::integer
+    FROM delivery_records dr
+    JOIN milk_types mt ON mt.id = dr.milk_type_id
+    WHERE dr.delivery_date BETWEEN _from AND _to
+    GROUP BY dr.delivery_date, dr.milk_type_id, mt.name, dr.shift
+    ORDER BY dr.delivery_date, mt.name, dr.shift;
+$$;
+
+-- One row per day between two dates, including days with nothing recorded, for trend charts
+CREATE OR REPLACE FUNCTION public.get_daily_totals(_from date, _to date)
+RETURNS TABLE (
+    day date,
+    liters numeric,
+    revenue numeric,
+    collections numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT
+        d.day::date,
+        COALESCE(dl.liters, 0),
+        COALESCE(dl.revenue, 0),
+        COALESCE(pm.collections, 0)
+    FROM generate_series(_from, _to, interval '1 day') AS d(day)
+    LEFT JOIN (
+        SELECT dr.delivery_date, SUM(dr.quantity) AS liters, SUM(dr.total_amount) AS revenue
+        FROM delivery_records dr
+        WHERE dr.delivery_date BETWEEN _from AND _to
+        GROUP BY dr.delivery_date
+    ) dl ON dl.delivery_date = d.day::date
+    LEFT JOIN (
+        SELECT p.payment_date, SUM(p.amount) AS collections
+        FROM payments p
+        WHERE p.payment_date BETWEEN _from AND _to
+        GROUP BY p.payment_date
+    ) pm ON pm.payment_date = d.day::date
+    ORDER BY d.day;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_dashboard_summary(date, date) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_dashboard_summary(date, date) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_daily_milk_type_totals(date, date) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_daily_milk_type_totals(date, date) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_daily_totals(date, date) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_daily_totals(date, date) TO authenticated;
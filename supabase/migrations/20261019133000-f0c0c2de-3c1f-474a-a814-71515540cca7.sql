@@ -0,0 +1,211 @@
+-- Reporting aggregates, so screens ask for totals instead of fetching rows to add up in the browser. Daily
+-- totals per milk type are get_daily_milk_type_totals. All run with the caller's rights, so row-level
+-- security still applies.
+
+-- Per customer for a period: what was delivered and paid, and the balance either side of it. milk_amount is
+-- the delivery total less groceries. _customer_id narrows it to one customer.
+CREATE OR REPLACE FUNCTION public.get_customer_monthly_totals(
+  _month_start date,
+  _month_end date,
+  _customer_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+    customer_id uuid,
+    customer_name text,
+    milk_liters numeric,
+    milk_amount numeric,
+    grocery_amount numeric,
+    delivery_amount numeric,
+    payment_amount numeric,
+    opening_balance numeric,
+    closing_balance numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    WITH deliveries AS (
+        SELECT
+            dr.customer_id,
+            SUM(dr.total_amount) FILTER (WHERE dr.delivery_date < _month_start) AS before_amount,
+            SUM(dr.quantity) FILTER (WHERE dr.delivery_date BETWEEN _month_start AND _month_end) AS liters,
+            SUM(dr.total_amount) FILTER (WHERE dr.delivery_date BETWEEN _month_start AND _month_end) AS amount
+        FROM delivery_records dr
+        WHERE dr.delivery_date <= _month_end
+          AND (_customer_id IS NULL OR dr.customer_id = _customer_id)
+        GROUP BY dr.customer_id
+    ),
+    groceries AS (
+        SELECT dr.customer_id, SUM(gi.price) AS amount
+        FROM grocery_items gi
+        JOIN delivery_records dr ON dr.id = gi.delivery_record_id
+        WHERE dr.delivery_date BETWEEN _month_start AND _month_end
+          AND (_customer_id IS NULL OR dr.customer_id = _customer_id)
+        GROUP BY dr.customer_id
+    ),
+    paid AS (
+        SELECT
+            p.customer_id,
+            SUM(p.amount) FILTER (WHERE p.payment_date < _month_start) AS before_amount,
+            SUM(p.amount) FILTER (WHERE p.payment_date BETWEEN _month_start AND _month_end) AS amount
+        FROM payments p
+        WHERE p.payment_date <= _month_end
+          AND (_customer_id IS NULL OR p.customer_id = _customer_id)
+        GROUP BY p.customer_id
+    )
+    SELECT
+        c.id,
+        c.name,
+        COALESCE(d.liters, 0),
+        COALESCE(d.amount, 0) - COALESCE(g.amount, 0),
+        COALESCE(g.amount, 0),
+        COALESCE(d.amount, 0),
+        COALESCE(pd.amount, 0),
+        COALESCE(d.before_amount, 0) - COALESCE(pd.before_amount, 0),
+        COALESCE(d.before_amount, 0) + COALESCE(d.amount, 0) - COALESCE(pd.before_amount, 0) - COALESCE(pd.amount, 0)
+    FROM customers c
+    LEFT JOIN deliveries d ON d.customer_id = c.id
+    LEFT JOIN groceries g ON g.customer_id = c.id
+    LEFT JOIN paid pd ON pd.customer_id = c.id
+    WHERE _customer_id IS NULL OR c.id = _customer_id
+    ORDER BY c.name;
+$$;
+
+-- Money collected per payment method in each day, week or month between two dates. A reversal counts against
+-- the method of the payment it undoes.
+CREATE OR REPLACE FUNCTION public.get_collections_by_method(_from date, _to date, _period text DEFAULT 'month')
+RETURNS TABLE (
+    period_start date,
+    payment_method text,
+    payment_count integer,
+    amount numeric
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+    IF _period NOT IN ('day', 'week', 'month') THEN
+        RAISE EXCEPTION 'Period must be day, week or month';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        date_trunc(_period, p.payment_date)::date,
+        COALESCE(original.payment_method, p.payment_method),
+        (count(*) FILTER (WHERE p.reverses_payment_id IS NULL))::integer,
+        SUM(p.amount)
+    FROM payments p
+    LEFT JOIN payments original ON original.id = p.reverses_payment_id
+    WHERE p.payment_date BETWEEN _from AND _to
+    GROUP BY 1, 2
+    ORDER BY 1, 2;
+END;
+$$;
+
+-- What is still unpaid of each customer's deliveries on a date. Payments are applied to the oldest deliveries
+-- first, so whatever a customer has paid in total clears their earliest days before later ones.
+CREATE OR REPLACE FUNCTION public.receivable_open_items(_as_of date)
+RETURNS TABLE (
+    customer_id uuid,
+    delivery_date date,
+    unpaid_amount numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    WITH daily AS (
+        SELECT dr.customer_id, dr.delivery_date, SUM(dr.total_amount) AS amount
+        FROM delivery_records dr
+        WHERE dr.delivery_date <= _as_of
+        GROUP BY dr.customer_id, dr.delivery_date
+    ),
+    running AS (
+        SELECT
+            daily.*,
+            SUM(daily.amount) OVER (PARTITION BY daily.customer_id ORDER BY daily.delivery_date) AS billed_to_date
+        FROM daily
+    ),
+    paid AS (
+        SELECT p.customer_id, SUM(p.amount) AS amount
+        FROM payments p
+        WHERE p.payment_date <= _as_of
+        GROUP BY p.customer_id
+    )
+    SELECT r.customer_id, r.delivery_date, LEAST(r.amount, r.billed_to_date - COALESCE(pd.amount, 0))
+    FROM running r
+    LEFT JOIN paid pd ON pd.customer_id = r.customer_id
+    WHERE r.billed_to_date - COALESCE(pd.amount, 0) > 0
+      AND r.amount > 0;
+$$;
+
+-- Unpaid amounts per customer by age on _as_of: delivered in the current month, or 1-30, 31-60, 61-90 and over
+-- 90 days earlier. advance is money paid beyond everything delivered. Customers with neither are left out.
+CREATE OR REPLACE FUNCTION public.get_receivables_aging(_as_of date)
+RETURNS TABLE (
+    customer_id uuid,
+    customer_name text,
+    current_month numeric,
+    days_1_30 numeric,
+    days_31_60 numeric,
+    days_61_90 numeric,
+    days_over_90 numeric,
+    total_outstanding numeric,
+    advance numeric,
+    oldest_unpaid_date date
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    WITH aged AS (
+        SELECT
+            o.customer_id,
+            o.delivery_date,
+            o.unpaid_amount,
+            CASE
+                WHEN o.delivery_date >= date_trunc('month', _as_of)::date THEN 'current'
+                WHEN _as_of - o.delivery_date <= 30 THEN '1-30'
+                WHEN _as_of - o.delivery_date <= 60 THEN '31-60'
+                WHEN _as_of - o.delivery_date <= 90 THEN '61-90'
+                ELSE '90+'
+            END AS bucket
+        FROM public.receivable_open_items(_as_of) o
+    ),
+    balances AS (
+        SELECT
+            c.id AS customer_id,
+            c.name AS customer_name,
+            COALESCE((SELECT SUM(dr.total_amount) FROM delivery_records dr
+                      WHERE dr.customer_id = c.id AND dr.delivery_date <= _as_of), 0)
+            - COALESCE((SELECT SUM(p.amount) FROM payments p
+                        WHERE p.customer_id = c.id AND p.payment_date <= _as_of), 0) AS pending_amount
+        FROM customers c
+    )
+    SELECT
+        b.customer_id,
+        b.customer_name,
+        COALESCE(SUM(a.unpaid_amount) FILTER (WHERE a.bucket = 'current'), 0),
+        COALESCE(SUM(a.unpaid_amount) FILTER (WHERE a.bucket = '1-30'), 0),
+        COALESCE(SUM(a.unpaid_amount) FILTER (WHERE a.bucket = '31-60'), 0),
+        COALESCE(SUM(a.unpaid_amount) FILTER (WHERE a.bucket = '61-90'), 0),
+        COALESCE(SUM(a.unpaid_amount) FILTER (WHERE a.bucket = '90+'), 0),
+        COALESCE(SUM(a.unpaid_amount), 0),
+        GREATEST(-b.pending_amount, 0),
+        MIN(a.delivery_date)
+    FROM balances b
+    LEFT JOIN aged a ON a.customer_id = b.customer_id
+    WHERE b.pending_amount <> 0
+    GROUP BY b.customer_id, b.customer_name, b.pending_amount
+    ORDER BY b.customer_name;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_customer_monthly_totals(date, date, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_customer_monthly_totals(date, date, uuid) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_collections_by_method(date, date, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_collections_by_method(date, date, text) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.receivable_open_items(date) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.receivable_open_items(date) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_receivables_aging(date) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_receivables_aging(date) TO authenticated;
@@ -0,0 +1,48 @@
+-- Bills produced by the monthly bill run. Each row keeps the figures printed on the customer's PDF and where the
+-- PDF was uploaded. A customer has at most one live bill per month; a voided one can be replaced.
+CREATE SEQUENCE IF NOT EXISTS public.bill_number_seq;
+
+CREATE OR REPLACE FUNCTION public.next_bill_number()
+RETURNS text
+LANGUAGE sql
+VOLATILE
+SET search_path = public
+AS $$
+    SELECT 'ND-' || lpad(nextval('public.bill_number_seq')::text, 5, '0');
+$$;
+
+CREATE TABLE IF NOT EXISTS public.bills (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  bill_number text NOT NULL UNIQUE DEFAULT public.next_bill_number(),
+  customer_id uuid NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+  period_start date NOT NULL,
+  period_end date NOT NULL,
+  milk_liters numeric NOT NULL DEFAULT 0,
+  milk_amount numeric NOT NULL DEFAULT 0,
+  grocery_amount numeric NOT NULL DEFAULT 0,
+  previous_balance numeric NOT NULL DEFAULT 0,
+  payments_received numeric NOT NULL DEFAULT 0,
+  amount_due numeric NOT NULL DEFAULT 0,
+  pdf_url text,
+  status text NOT NULL DEFAULT 'issued' CHECK (status IN ('issued', 'void')),
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (period_end >= period_start)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS bills_customer_period_live_idx
+  ON public.bills (customer_id, period_start) WHERE status <> 'void';
+CREATE INDEX IF NOT EXISTS bills_period_idx ON public.bills (period_start);
+
+ALTER TABLE public.bills ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Office staff can view bills" ON public.bills
+FOR SELECT USING (public.has_any_role(ARRAY['owner', 'accountant']));
+CREATE POLICY "Office staff can issue bills" ON public.bills
+FOR INSERT WITH CHECK (public.has_any_role(ARRAY['owner', 'accountant']));
+CREATE POLICY "Office staff can void bills" ON public.bills
+FOR UPDATE USING (public.has_any_role(ARRAY['owner', 'accountant']));
+
+REVOKE EXECUTE ON FUNCTION public.next_bill_number() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.next_bill_number() TO authenticated;
+GRANT USAGE ON SEQUENCE public.bill_number_seq TO authenticated;
@@ -0,0 +1,230 @@
+-- Bills become invoices that cannot change once issued. Each keeps a snapshot of everything printed on it, so
+-- the PDF can be rebuilt exactly even after deliveries or payments are edited. Issued bills are numbered in
+-- order within the Indian financial year (April to March), e.g. ND/2026-27/0001. Drafts have no number yet.
+-- A bill with mistakes is reissued: the old one is voided and kept, the new one points back to it.
+
+-- One counter per financial year. Taken in the issuing transaction, so a failed issue leaves no gap.
+CREATE TABLE IF NOT EXISTS public.bill_number_counters (
+  financial_year text PRIMARY KEY,
+  last_number integer NOT NULL
+);
+
+-- No policies: only next_bill_number touches the counters
+ALTER TABLE public.bill_number_counters ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.financial_year_of(_date date)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE
+        WHEN extract(month FROM _date) >= 4
+            THEN extract(year FROM _date)::int || '-' || lpad(((extract(year FROM _date)::int + 1) % 100)::text, 2, '0')
+        ELSE (extract(year FROM _date)::int - 1) || '-' || lpad((extract(year FROM _date)::int % 100)::text, 2, '0')
+    END;
+$$;
+
+ALTER TABLE public.bills ALTER COLUMN bill_number DROP DEFAULT;
+ALTER TABLE public.bills ALTER COLUMN bill_number DROP NOT NULL;
+DROP FUNCTION IF EXISTS public.next_bill_number();
+DROP SEQUENCE IF EXISTS public.bill_number_seq;
+
+CREATE OR REPLACE FUNCTION public.next_bill_number(_issued_on date)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _financial_year text := public.financial_year_of(_issued_on);
+    _number integer;
+BEGIN
+    INSERT INTO bill_number_counters (financial_year, last_number)
+    VALUES (_financial_year, 1)
+    ON CONFLICT (financial_year) DO UPDATE SET last_number = bill_number_counters.last_number + 1
+    RETURNING last_number INTO _number;
+
+    RETURN 'ND/' || _financial_year || '/' || lpad(_number::text, 4, '0');
+END;
+$$;
+
+ALTER TABLE public.bills
+  ADD COLUMN IF NOT EXISTS financial_year text,
+  ADD COLUMN IF NOT EXISTS month_total numeric NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS grand_total numeric NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS snapshot jsonb,
+  ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS supersedes_bill_id uuid REFERENCES public.bills(id),
+  ADD COLUMN IF NOT EXISTS issued_at timestamptz,
+  ADD COLUMN IF NOT EXISTS issued_by uuid,
+  ADD COLUMN IF NOT EXISTS paid_at timestamptz,
+  ADD COLUMN IF NOT EXISTS voided_at timestamptz,
+  ADD COLUMN IF NOT EXISTS voided_by uuid,
+  ADD COLUMN IF NOT EXISTS void_reason text;
+
+-- Bills from the first bill runs keep their ND-00001 style numbers
+UPDATE public.bills
+SET month_total = milk_amount + grocery_amount,
+    grand_total = milk_amount + grocery_amount + previous_balance,
+    issued_at = created_at,
+    issued_by = created_by,
+    financial_year = public.financial_year_of(created_at::date);
+
+ALTER TABLE public.bills DROP CONSTRAINT IF EXISTS bills_status_check;
+ALTER TABLE public.bills ALTER COLUMN status SET DEFAULT 'draft';
+ALTER TABLE public.bills
+  ADD CONSTRAINT bills_status_check CHECK (status IN ('draft', 'issued', 'paid', 'void'));
+ALTER TABLE public.bills
+  ADD CONSTRAINT bills_number_when_issued_check CHECK (status = 'draft' OR bill_number IS NOT NULL);
+
+CREATE UNIQUE INDEX IF NOT EXISTS bills_supersedes_bill_id_idx
+  ON public.bills (supersedes_bill_id) WHERE supersedes_bill_id IS NOT NULL;
+
+-- Numbers an issued bill and stamps who changed its status; runs as the owner so it can take a number. Once a
+-- bill leaves draft its figures are fixed: only its status moves on (issued -> paid, paid -> issued, either ->
+-- void) and a missing PDF link may be filled in.
+CREATE OR REPLACE FUNCTION public.manage_bill_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.status NOT IN ('draft', 'issued') THEN
+            RAISE EXCEPTION 'A new bill must be a draft or issued';
+        END IF;
+    ELSIF OLD.status <> 'draft' THEN
+        IF NEW.customer_id IS DISTINCT FROM OLD.customer_id
+           OR NEW.period_start IS DISTINCT FROM OLD.period_start
+           OR NEW.period_end IS DISTINCT FROM OLD.period_end
+           OR NEW.milk_liters IS DISTINCT FROM OLD.milk_liters
+           OR NEW.milk_amount IS DISTINCT FROM OLD.milk_amount
+           OR NEW.grocery_amount IS DISTINCT FROM OLD.grocery_amount
+           OR NEW.month_total IS DISTINCT FROM OLD.month_total
+           OR NEW.previous_balance IS DISTINCT FROM OLD.previous_balance
+           OR NEW.grand_total IS DISTINCT FROM OLD.grand_total
+           OR NEW.payments_received IS DISTINCT FROM OLD.payments_received
+           OR NEW.amount_due IS DISTINCT FROM OLD.amount_due
+           OR NEW.snapshot IS DISTINCT FROM OLD.snapshot
+           OR NEW.bill_number IS DISTINCT FROM OLD.bill_number
+           OR NEW.financial_year IS DISTINCT FROM OLD.financial_year
+           OR NEW.version IS DISTINCT FROM OLD.version
+           OR NEW.supersedes_bill_id IS DISTINCT FROM OLD.supersedes_bill_id
+           OR NEW.issued_at IS DISTINCT FROM OLD.issued_at
+           OR (OLD.pdf_url IS NOT NULL AND NEW.pdf_url IS DISTINCT FROM OLD.pdf_url) THEN
+            RAISE EXCEPTION 'An issued bill cannot be changed; reissue it instead';
+        END IF;
+
+        IF OLD.status = 'void' AND NEW.status <> 'void' THEN
+            RAISE EXCEPTION 'A void bill cannot be brought back';
+        END IF;
+
+        IF NEW.status = 'draft' THEN
+            RAISE EXCEPTION 'An issued bill cannot go back to draft';
+        END IF;
+    END IF;
+
+    IF NEW.status <> 'draft' AND NEW.bill_number IS NULL THEN
+        NEW.issued_at := now();
+        NEW.issued_by := auth.uid();
+        NEW.financial_year := public.financial_year_of(CURRENT_DATE);
+        NEW.bill_number := public.next_bill_number(CURRENT_DATE);
+    END IF;
+
+    IF NEW.status = 'paid' AND (TG_OP = 'INSERT' OR OLD.status <> 'paid') THEN
+        NEW.paid_at := now();
+    ELSIF NEW.status = 'issued' THEN
+        NEW.paid_at := NULL;
+    END IF;
+
+    IF NEW.status = 'void' AND (TG_OP = 'INSERT' OR OLD.status <> 'void') THEN
+        NEW.voided_at := now();
+        NEW.voided_by := auth.uid();
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS manage_bill_status ON public.bills;
+CREATE TRIGGER manage_bill_status
+BEFORE INSERT OR UPDATE ON public.bills
+FOR EACH ROW EXECUTE FUNCTION public.manage_bill_status();
+
+-- Only drafts, which were never sent, may be thrown away
+CREATE POLICY "Office staff can delete draft bills" ON public.bills
+FOR DELETE USING (status = 'draft' AND public.has_any_role(ARRAY['owner', 'accountant']));
+
+DROP TRIGGER IF EXISTS audit_bills ON public.bills;
+CREATE TRIGGER audit_bills
+AFTER INSERT OR UPDATE OR DELETE ON public.bills
+FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+-- Void an issued bill and issue its corrected replacement in one step. _bill carries the new figures and
+-- snapshot with the same keys as the bills columns. Returns the new bill's id.
+CREATE OR REPLACE FUNCTION public.reissue_bill(_bill_id uuid, _reason text, _bill jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    original bills%ROWTYPE;
+    new_bill_id uuid;
+BEGIN
+    IF NOT public.has_any_role(ARRAY['owner', 'accountant']) THEN
+        RAISE EXCEPTION 'You are not allowed to reissue bills';
+    END IF;
+
+    IF NULLIF(btrim(_reason), '') IS NULL THEN
+        RAISE EXCEPTION 'Say what was corrected';
+    END IF;
+
+    SELECT * INTO original FROM bills WHERE id = _bill_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bill not found';
+    END IF;
+
+    IF original.status NOT IN ('issued', 'paid') THEN
+        RAISE EXCEPTION 'Only issued bills can be reissued';
+    END IF;
+
+    UPDATE bills SET status = 'void', void_reason = btrim(_reason) WHERE id = original.id;
+
+    INSERT INTO bills (
+        customer_id, period_start, period_end, milk_liters, milk_amount, grocery_amount, month_total,
+        previous_balance, grand_total, payments_received, amount_due, snapshot, status, version,
+        supersedes_bill_id, created_by
+    )
+    VALUES (
+        original.customer_id,
+        original.period_start,
+        original.period_end,
+        COALESCE((_bill->>'milk_liters')::numeric, 0),
+        COALESCE((_bill->>'milk_amount')::numeric, 0),
+        COALESCE((_bill->>'grocery_amount')::numeric, 0),
+        COALESCE((_bill->>'month_total')::numeric, 0),
+        COALESCE((_bill->>'previous_balance')::numeric, 0),
+        COALESCE((_bill->>'grand_total')::numeric, 0),
+        COALESCE((_bill->>'payments_received')::numeric, 0),
+        COALESCE((_bill->>'amount_due')::numeric, 0),
+        _bill->'snapshot',
+        'issued',
+        original.version + 1,
+        original.id,
+        auth.uid()
+    )
+    RETURNING id INTO new_bill_id;
+
+    RETURN new_bill_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.financial_year_of(date) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.financial_year_of(date) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.next_bill_number(date) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.manage_bill_status() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reissue_bill(uuid, text, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.reissue_bill(uuid, text, jsonb) TO authenticated;
@@ -0,0 +1,57 @@
+-- Saves a bulk entry queued on a phone, together with its grocery items, in one transaction. Keyed by the
+-- entry's client_id so a retry after a lost response adds nothing twice. Deliveries saved by earlier versions
+-- of the app whose groceries never made it get them on the next retry.
+CREATE OR REPLACE FUNCTION public.save_offline_delivery(
+    _client_id uuid,
+    _customer_id uuid,
+    _delivery_date date,
+    _shift text,
+    _milk_type_id uuid,
+    _quantity numeric,
+    _price_per_liter numeric,
+    _total_amount numeric,
+    _notes text DEFAULT NULL,
+    _allow_duplicate boolean DEFAULT false,
+    _grocery_items jsonb DEFAULT '[]'::jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    delivery_id uuid;
+BEGIN
+    IF NOT public.has_any_role(ARRAY['owner', 'accountant', 'delivery_boy']) THEN
+        RAISE EXCEPTION 'You are not allowed to record deliveries';
+    END IF;
+
+    -- Two tabs or a retry racing the first attempt wait here instead of both inserting
+    PERFORM pg_advisory_xact_lock(hashtext(_client_id::text));
+
+    SELECT dr.id INTO delivery_id FROM delivery_records dr WHERE dr.client_id = _client_id;
+
+    IF delivery_id IS NULL THEN
+        INSERT INTO delivery_records (
+            client_id, allow_duplicate, customer_id, delivery_date, shift, milk_type_id,
+            quantity, price_per_liter, total_amount, notes
+        )
+        VALUES (
+            _client_id, _allow_duplicate, _customer_id, _delivery_date, _shift, _milk_type_id,
+            _quantity, _price_per_liter, _total_amount, _notes
+        )
+        RETURNING id INTO delivery_id;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM grocery_items gi WHERE gi.delivery_record_id = delivery_id) THEN
+        INSERT INTO grocery_items (delivery_record_id, name, price, quantity, unit)
+        SELECT delivery_id, item->>'name', (item->>'price')::numeric, 1, 'item'
+        FROM jsonb_array_elements(COALESCE(_grocery_items, '[]'::jsonb)) AS item;
+    END IF;
+
+    RETURN delivery_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_offline_delivery(uuid, uuid, date, text, uuid, numeric, numeric, numeric, text, boolean, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_offline_delivery(uuid, uuid, date, text, uuid, numeric, numeric, numeric, text, boolean, jsonb) TO authenticated;
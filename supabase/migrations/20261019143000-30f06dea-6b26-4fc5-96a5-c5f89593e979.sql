@@ -0,0 +1,35 @@
+-- Two phones saving the same delivery at once could both pass the duplicate check before either row was
+-- committed. Serialise the check per customer, date, shift and milk type with a transaction-level lock.
+CREATE OR REPLACE FUNCTION public.prevent_duplicate_delivery()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.allow_duplicate OR NEW.quantity <= 0 THEN
+        RETURN NEW;
+    END IF;
+
+    -- Held until the transaction ends, so a concurrent insert waits and then sees this row
+    PERFORM pg_advisory_xact_lock(hashtext(
+        NEW.customer_id::text || NEW.delivery_date::text || NEW.shift || NEW.milk_type_id::text
+    ));
+
+    IF EXISTS (
+        SELECT 1 FROM delivery_records dr
+        WHERE dr.customer_id = NEW.customer_id
+          AND dr.delivery_date = NEW.delivery_date
+          AND dr.shift = NEW.shift
+          AND dr.milk_type_id = NEW.milk_type_id
+          AND dr.quantity > 0
+          AND dr.id <> NEW.id
+    ) THEN
+        -- Own error code so clients can tell this apart from a real unique violation (23505)
+        RAISE EXCEPTION 'Delivery already recorded for this customer, date, shift and milk type'
+            USING ERRCODE = 'DL001';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
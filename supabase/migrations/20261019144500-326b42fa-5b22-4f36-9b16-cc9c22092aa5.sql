@@ -0,0 +1,48 @@
+-- Corrects the milk on a delivery that is already saved and attaches groceries added with the correction, in one
+-- transaction so a failure cannot leave groceries attached to a delivery whose total leaves them out.
+-- The total is worked out here from the milk and every grocery item now on the delivery.
+CREATE OR REPLACE FUNCTION public.update_delivery_entry(
+    _delivery_id uuid,
+    _milk_type_id uuid,
+    _quantity numeric,
+    _price_per_liter numeric,
+    _grocery_items jsonb DEFAULT '[]'::jsonb
+)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    new_total numeric;
+BEGIN
+    IF NOT public.has_any_role(ARRAY['owner', 'accountant']) THEN
+        RAISE EXCEPTION 'Only the owner or accountant can edit deliveries';
+    END IF;
+
+    PERFORM 1 FROM delivery_records WHERE id = _delivery_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Delivery not found';
+    END IF;
+
+    INSERT INTO grocery_items (delivery_record_id, name, price, quantity, unit)
+    SELECT _delivery_id, item->>'name', (item->>'price')::numeric, 1, 'item'
+    FROM jsonb_array_elements(COALESCE(_grocery_items, '[]'::jsonb)) AS item;
+
+    new_total := _quantity * _price_per_liter
+        + COALESCE((SELECT sum(gi.price) FROM grocery_items gi WHERE gi.delivery_record_id = _delivery_id), 0);
+
+    UPDATE delivery_records
+    SET milk_type_id = _milk_type_id,
+        quantity = _quantity,
+        price_per_liter = _price_per_liter,
+        total_amount = new_total
+    WHERE id = _delivery_id;
+
+    RETURN new_total;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.update_delivery_entry(uuid, uuid, numeric, numeric, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.update_delivery_entry(uuid, uuid, numeric, numeric, jsonb) TO authenticated;
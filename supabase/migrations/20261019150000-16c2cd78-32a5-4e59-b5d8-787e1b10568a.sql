@@ -0,0 +1,50 @@
+-- get_customer_pending_balances runs as definer, so it skipped the payments policy and let delivery boys read
+-- every customer's totals, directly or through get_dashboard_summary. Limit it to office staff, like the
+-- payments it sums.
+CREATE OR REPLACE FUNCTION public.get_customer_pending_balances()
+RETURNS TABLE (
+  customer_id uuid,
+  customer_name text,
+  address text,
+  phone_number text,
+  created_at timestamptz,
+  total_deliveries numeric,
+  total_payments numeric,
+  pending_amount numeric
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_any_role(ARRAY['owner', 'accountant']) THEN
+    RAISE EXCEPTION 'Only the owner or accountant can view customer balances';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    c.id as customer_id,
+    c.name as customer_name,
+    c.address,
+    c.phone_number,
+    c.created_at,
+    COALESCE(deliveries.total_amount, 0) as total_deliveries,
+    COALESCE(payments.total_paid, 0) as total_payments,
+    COALESCE(deliveries.total_amount, 0) - COALESCE(payments.total_paid, 0) as pending_amount
+  FROM customers c
+  LEFT JOIN (
+    SELECT
+      dr.customer_id,
+      SUM(dr.total_amount) as total_amount
+    FROM delivery_records dr
+    GROUP BY dr.customer_id
+  ) deliveries ON c.id = deliveries.customer_id
+  LEFT JOIN (
+    SELECT
+      p.customer_id,
+      SUM(p.amount) as total_paid
+    FROM payments p
+    GROUP BY p.customer_id
+  ) payments ON c.id = payments.customer_id;
+END;
+$$;
@@ -0,0 +1,76 @@
+-- Bill numbers and financial years now follow the date in India rather than UTC, so a bill issued shortly after
+-- midnight on 1 April starts the new year's series. The number is always assigned here when a bill is issued
+-- and cleared while it is a draft; whatever a client sends in bill_number is ignored.
+CREATE OR REPLACE FUNCTION public.manage_bill_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _issued_on date := (now() AT TIME ZONE 'Asia/Kolkata')::date;
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.status NOT IN ('draft', 'issued') THEN
+            RAISE EXCEPTION 'A new bill must be a draft or issued';
+        END IF;
+    ELSIF OLD.status <> 'draft' THEN
+        IF NEW.customer_id IS DISTINCT FROM OLD.customer_id
+           OR NEW.period_start IS DISTINCT FROM OLD.period_start
+           OR NEW.period_end IS DISTINCT FROM OLD.period_end
+           OR NEW.milk_liters IS DISTINCT FROM OLD.milk_liters
+           OR NEW.milk_amount IS DISTINCT FROM OLD.milk_amount
+           OR NEW.grocery_amount IS DISTINCT FROM OLD.grocery_amount
+           OR NEW.month_total IS DISTINCT FROM OLD.month_total
+           OR NEW.previous_balance IS DISTINCT FROM OLD.previous_balance
+           OR NEW.grand_total IS DISTINCT FROM OLD.grand_total
+           OR NEW.payments_received IS DISTINCT FROM OLD.payments_received
+           OR NEW.amount_due IS DISTINCT FROM OLD.amount_due
+           OR NEW.snapshot IS DISTINCT FROM OLD.snapshot
+           OR NEW.bill_number IS DISTINCT FROM OLD.bill_number
+           OR NEW.financial_year IS DISTINCT FROM OLD.financial_year
+           OR NEW.version IS DISTINCT FROM OLD.version
+           OR NEW.supersedes_bill_id IS DISTINCT FROM OLD.supersedes_bill_id
+           OR NEW.issued_at IS DISTINCT FROM OLD.issued_at
+           OR (OLD.pdf_url IS NOT NULL AND NEW.pdf_url IS DISTINCT FROM OLD.pdf_url) THEN
+            RAISE EXCEPTION 'An issued bill cannot be changed; reissue it instead';
+        END IF;
+
+        IF OLD.status = 'void' AND NEW.status <> 'void' THEN
+            RAISE EXCEPTION 'A void bill cannot be brought back';
+        END IF;
+
+        IF NEW.status = 'draft' THEN
+            RAISE EXCEPTION 'An issued bill cannot go back to draft';
+        END IF;
+    END IF;
+
+    -- New bills and drafts: the number belongs to the database, not the client
+    IF TG_OP = 'INSERT' OR OLD.status = 'draft' THEN
+        IF NEW.status = 'draft' THEN
+            NEW.bill_number := NULL;
+            NEW.financial_year := NULL;
+            NEW.issued_at := NULL;
+            NEW.issued_by := NULL;
+        ELSE
+            NEW.issued_at := now();
+            NEW.issued_by := auth.uid();
+            NEW.financial_year := public.financial_year_of(_issued_on);
+            NEW.bill_number := public.next_bill_number(_issued_on);
+        END IF;
+    END IF;
+
+    IF NEW.status = 'paid' AND (TG_OP = 'INSERT' OR OLD.status <> 'paid') THEN
+        NEW.paid_at := now();
+    ELSIF NEW.status = 'issued' THEN
+        NEW.paid_at := NULL;
+    END IF;
+
+    IF NEW.status = 'void' AND (TG_OP = 'INSERT' OR OLD.status <> 'void') THEN
+        NEW.voided_at := now();
+        NEW.voided_by := auth.uid();
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
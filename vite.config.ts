@@ -1,8 +1,33 @@
-import { defineConfig } from "vite";
+import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import fs from "fs";
+import { createHash } from "crypto";
 import { componentTagger } from "lovable-tagger";
 
+// Emits dist/sw.js from src/service-worker.js with the files of this build to precache. The build id is a hash
+// of those (already content-hashed) file names, so the worker only changes when the app does.
+const serviceWorker = (): Plugin => ({
+  name: "milk-manager-service-worker",
+  apply: "build",
+  enforce: "post",
+  generateBundle(_options, bundle) {
+    const builtFiles = Object.keys(bundle)
+      .filter((fileName) => !fileName.endsWith(".map"))
+      .map((fileName) => `/${fileName}`);
+    const publicFiles = ["/manifest.webmanifest", "/icon-192.png", "/icon-512.png", "/favicon.ico"];
+    const precacheUrls = Array.from(new Set(["/index.html", ...builtFiles, ...publicFiles])).sort();
+    const buildId = createHash("sha256").update(precacheUrls.join("\n")).digest("hex").slice(0, 12);
+
+    const source = fs
+      .readFileSync(path.resolve(__dirname, "src/service-worker.js"), "utf-8")
+      .replace("__BUILD_ID__", buildId)
+      .replace("__PRECACHE_URLS__", JSON.stringify(precacheUrls));
+
+    this.emitFile({ type: "asset", fileName: "sw.js", source });
+  },
+});
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
@@ -13,6 +38,7 @@ export default defineConfig(({ mode }) => ({
     react(),
     mode === 'development' &&
     componentTagger(),
+    serviceWorker(),
   ].filter(Boolean),
   resolve: {
     alias: {